@@ -9,12 +9,15 @@ import { registerTools } from "./tools/index.js";
 import { registerResources } from "./resources/index.js";
 import { registerPrompts } from "./prompts/index.js";
 import { setServer as setAiReviewerServer } from "./services/ai-reviewer.js";
+import { resumeBatches } from "./services/batch-queue.js";
 import { 
   setSessionCredentials, 
   clearSessionCredentials,
   getActiveSessionCount,
+  checkPrerequisites,
   SessionCredentials 
 } from "./services/session.js";
+import { clearSessionTaskMappings } from "./services/task-mappings.js";
 import express, { Request, Response } from "express";
 import cors from "cors";
 
@@ -41,6 +44,15 @@ async function startStdio() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("GEI Migration MCP Server running on stdio");
+
+  // Pick up batch migrations interrupted by a previous run (stdio uses env credentials)
+  const prereqs = checkPrerequisites();
+  if (prereqs.githubSource && prereqs.githubTarget) {
+    const resumed = resumeBatches();
+    if (resumed.length > 0) {
+      console.error(`Resumed ${resumed.length} unfinished batch migration(s)`);
+    }
+  }
 }
 
 // Start HTTP+SSE transport (for remote access)
@@ -64,9 +76,17 @@ async function startHttp(port: number) {
       githubTargetPat: 
         (req.headers['x-github-target-pat'] as string) || 
         (req.query.gh_pat as string),
+      githubTargetHost: 
+        (req.headers['x-github-target-host'] as string) || 
+        (req.query.gh_target_host as string),
       adoPat: 
         (req.headers['x-ado-pat'] as string) || 
         (req.query.ado_pat as string),
+      bbsUsername: 
+        (req.headers['x-bbs-username'] as string) || 
+        (req.query.bbs_username as string),
+      bbsPassword: 
+        (req.headers['x-bbs-password'] as string),
     };
   }
 
@@ -132,6 +152,7 @@ async function startHttp(port: number) {
             transports.delete(sid);
             sessionServers.delete(sid);
             clearSessionCredentials(sid);
+            clearSessionTaskMappings(sid);
           }
         };
         
@@ -162,6 +183,7 @@ async function startHttp(port: number) {
             transports.delete(sid);
             sessionServers.delete(sid);
             clearSessionCredentials(sid);
+            clearSessionTaskMappings(sid);
           }
         };
         
@@ -227,6 +249,7 @@ async function startHttp(port: number) {
       transports.delete(sessionId);
       sessionServers.delete(sessionId);
       clearSessionCredentials(sessionId);
+      clearSessionTaskMappings(sessionId);
     });
 
     await server.connect(transport);
@@ -279,7 +302,7 @@ async function startHttp(port: number) {
     console.log("==============================================");
     console.log("");
     console.log("Credentials can be provided via HTTP Headers:");
-    console.log("  X-GitHub-Source-PAT, X-GitHub-Target-PAT, X-ADO-PAT");
+    console.log("  X-GitHub-Source-PAT, X-GitHub-Target-PAT, X-GitHub-Target-Host, X-ADO-PAT, X-BBS-Username, X-BBS-Password");
   });
 }
 
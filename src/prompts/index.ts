@@ -55,7 +55,7 @@ Steps:
 2. Start the migration with migrate_repo
 3. Wait for it to complete using wait_for_migration
 4. Report the final status${importPipelines ? `
-5. ${sourceType === "ado" ? `Audit ADO pipelines for this project using actions_importer_audit, then migrate each pipeline with actions_importer_migrate targeting https://github.com/${targetOrg}/${repoName}` : `Copy GitHub Actions workflows from the source repo using copy_workflows`}
+5. ${sourceType === "ado" ? `Audit ADO pipelines for this project using actions_importer_audit, then migrate each pipeline with actions_importer_migrate targeting the targetRepoUrl returned by migrate_repo` : `Copy GitHub Actions workflows from the source repo using copy_workflows`}
 6. Report on any manual steps needed for the imported pipelines/workflows` : ""}`
         }
       }]
@@ -91,8 +91,8 @@ Please:
 4. ${excludeStale ? "Filter out stale repositories" : ""}
 5. List the repositories that will be migrated
 6. Ask for confirmation before starting
-7. Start migrations in batches of 5
-8. Monitor progress and report completion`
+7. Start the migrations with migrate_repos_batch (maxConcurrent: 5)
+8. Monitor progress with get_batch_status and report each repo's result`
         }
       }]
     })
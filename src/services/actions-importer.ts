@@ -6,6 +6,11 @@ import { getGitHubAccessToken, getGitHubTargetPAT, getADOPAT } from "./session.j
 import * as adoPipelines from "./ado-pipelines.js";
 import * as converter from "./pipeline-converter.js";
 import * as aiReviewer from "./ai-reviewer.js";
+import * as releaseEnvironments from "./release-environments.js";
+import type { TemplateMode } from "./template-resolver.js";
+import { resolveTaskMappings } from "./task-mappings.js";
+import { formatFinding, validateWorkflow } from "./workflow-validator.js";
+import { resolveTargetHost, targetApiUrl } from "./github-api.js";
 
 // ─── Shared types ────────────────────────────────────────────────────────────
 
@@ -37,6 +42,10 @@ export interface DryRunResult {
   pipelineId: string;
   /** Stringified source ADO pipeline definition (for AI review) */
   sourceDefinition: string;
+  /** Composite actions and reusable workflows converted from shared templates */
+  additionalFiles?: { path: string; content: string }[];
+  /** Workflow validation errors; migration won't open a PR while any remain */
+  validationErrors?: string[];
 }
 
 export interface MigrateResult {
@@ -48,6 +57,10 @@ export interface MigrateResult {
   pipelineId: string;
   /** AI validation report (only present when enableAiReview=true) */
   validationReport?: aiReviewer.ValidationResult;
+  /** Environments created from release stages (only when createEnvironments=true) */
+  environments?: releaseEnvironments.EnvironmentResult[];
+  /** Shared template files added to the PR (only when templateMode="shared") */
+  additionalFiles?: string[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -57,24 +70,28 @@ export interface MigrateResult {
 /**
  * Audit all pipelines in an ADO project using native REST APIs.
  * Fetches every build & release definition, analyses convertibility.
+ * Tasks covered by custom task mappings (per call or loaded for the session)
+ * count as supported.
  */
 export async function auditAdo(
   adoOrg: string,
   adoProject: string,
+  taskMappings?: string,
   sessionId?: string
 ): Promise<AuditSummary> {
+  const customTasks = resolveTaskMappings(taskMappings, sessionId);
   const inventory = await adoPipelines.getPipelineInventory(adoOrg, adoProject, sessionId);
   const entries: converter.AuditEntry[] = [];
 
   // Audit each build pipeline
   for (const def of inventory.buildPipelines) {
-    const detail = await adoPipelines.getBuildDefinition(adoOrg, adoProject, def.id, sessionId);
-    entries.push(converter.auditBuildPipeline(detail));
+    const detail = await adoPipelines.getBuildDefinition(adoOrg, adoProject, def.id, "inline", sessionId);
+    entries.push(converter.auditBuildPipeline(detail, customTasks));
   }
 
   // Audit each release pipeline
   for (const def of inventory.releasePipelines) {
-    entries.push(converter.auditReleasePipeline(def));
+    entries.push(converter.auditReleasePipeline(def, customTasks));
   }
 
   const supported = entries.filter(e => e.conversionStatus === "supported").length;
@@ -114,26 +131,31 @@ export async function forecastAdo(
 
 /**
  * Dry-run: convert a single ADO pipeline to GitHub Actions YAML (no PR).
+ * In "shared" template mode, shareable YAML templates become composite
+ * actions / reusable workflows returned as additional files.
  */
 export async function dryRunAdo(
   adoOrg: string,
   adoProject: string,
   pipelineId: string,
   pipelineType: "pipeline" | "release" = "pipeline",
+  templateMode: TemplateMode = "inline",
+  taskMappings?: string,
   sessionId?: string
 ): Promise<DryRunResult> {
   const id = parseInt(pipelineId, 10);
+  const customTasks = resolveTaskMappings(taskMappings, sessionId);
 
   let result: converter.ConversionResult;
   let sourceDef: unknown;
   if (pipelineType === "release") {
     const def = await adoPipelines.getReleaseDefinition(adoOrg, adoProject, id, sessionId);
     sourceDef = def;
-    result = converter.convertReleasePipeline(def);
+    result = converter.convertReleasePipeline(def, customTasks);
   } else {
-    const def = await adoPipelines.getBuildDefinition(adoOrg, adoProject, id, sessionId);
+    const def = await adoPipelines.getBuildDefinition(adoOrg, adoProject, id, templateMode, sessionId);
     sourceDef = def;
-    result = converter.convertBuildPipeline(def);
+    result = converter.convertBuildPipeline(def, customTasks);
   }
 
   // Use yamlContent if available (YAML pipelines), otherwise JSON-stringify the definition
@@ -148,6 +170,8 @@ export async function dryRunAdo(
     manualSteps: result.manualSteps,
     pipelineId,
     sourceDefinition,
+    ...(result.additionalFiles ? { additionalFiles: result.additionalFiles } : {}),
+    ...(result.validationErrors ? { validationErrors: result.validationErrors } : {}),
   };
 }
 
@@ -163,9 +187,17 @@ export async function migrateAdoPipeline(
   pipelineType: "pipeline" | "release" = "pipeline",
   sessionId?: string,
   enableAiReview: boolean = false,
+  createEnvironments: boolean = false,
+  userMappingCsv?: string,
+  templateMode: TemplateMode = "inline",
+  taskMappings?: string,
 ): Promise<MigrateResult> {
+  if (createEnvironments && pipelineType !== "release") {
+    throw new Error("createEnvironments is only supported for release pipelines");
+  }
+
   // 1. Convert the pipeline
-  const dryRun = await dryRunAdo(adoOrg, adoProject, pipelineId, pipelineType, sessionId);
+  const dryRun = await dryRunAdo(adoOrg, adoProject, pipelineId, pipelineType, templateMode, taskMappings, sessionId);
 
   // 1b. Optional AI review — may update yaml and surface additional manual steps
   let validationReport: aiReviewer.ValidationResult | undefined;
@@ -192,27 +224,63 @@ export async function migrateAdoPipeline(
     }
   }
 
-  // 2. Parse target repo from URL (e.g. https://github.com/org/repo)
-  const urlMatch = targetRepoUrl.match(/github\.com\/([^/]+)\/([^/]+)/);
+  // 1c. Re-validate a workflow the review changed; never open a PR for an invalid one
+  let validationErrors = dryRun.validationErrors ?? [];
+  if (finalYaml !== dryRun.workflowYaml) {
+    const workflowPath = `.github/workflows/${dryRun.suggestedFilename}`;
+    validationErrors = [
+      ...validateWorkflow(finalYaml).filter(f => f.severity === "error").map(f => formatFinding(workflowPath, f)),
+      ...validationErrors.filter(e => !e.startsWith(`${workflowPath} `) && !e.startsWith(`${workflowPath}:`)),
+    ];
+  }
+  if (validationErrors.length > 0) {
+    throw new Error(
+      `Converted workflow failed validation — no pull request created:\n` +
+      validationErrors.map(e => `- ${e}`).join("\n")
+    );
+  }
+
+  // 2. Parse target repo from URL (e.g. https://github.com/org/repo or https://octocorp.ghe.com/org/repo)
+  const urlMatch = targetRepoUrl.match(/^https?:\/\/([^/]+)\/([^/]+)\/([^/?#]+)/);
   if (!urlMatch) {
     throw new Error(`Invalid GitHub repo URL: ${targetRepoUrl}`);
   }
-  const [, owner, repo] = urlMatch;
+  const [, host, owner, rawRepo] = urlMatch;
+  const repo = rawRepo.replace(/\.git$/, "");
+  const apiUrl = targetApiUrl(resolveTargetHost(host, sessionId));
   const ghToken = getGitHubTargetPAT(sessionId);
 
   // 3. Get the default branch SHA
-  const repoInfo = await ghRestGet(`https://api.github.com/repos/${owner}/${repo}`, ghToken);
+  const repoInfo = await ghRestGet(`${apiUrl}/repos/${owner}/${repo}`, ghToken);
   const defaultBranch = repoInfo.default_branch || "main";
   const refData = await ghRestGet(
-    `https://api.github.com/repos/${owner}/${repo}/git/ref/heads/${defaultBranch}`,
+    `${apiUrl}/repos/${owner}/${repo}/git/ref/heads/${defaultBranch}`,
     ghToken
   );
   const baseSha = refData.object.sha;
 
+  // 3b. Optionally create the release stages' environments so the workflow's
+  // `environment:` references are protected from the first run
+  let environments: releaseEnvironments.EnvironmentResult[] | undefined;
+  if (createEnvironments) {
+    const def = await adoPipelines.getReleaseDefinition(adoOrg, adoProject, parseInt(pipelineId, 10), sessionId);
+    const plans = releaseEnvironments.planReleaseEnvironments(def, userMappingCsv);
+    environments = await releaseEnvironments.createEnvironments(apiUrl, owner, repo, plans, ghToken);
+
+    for (const env of environments) {
+      if (env.status === "created") {
+        finalManualSteps = finalManualSteps.filter(
+          s => !s.startsWith(`Configure GitHub Environment protection rules for "${env.name}"`)
+        );
+      }
+      for (const warning of env.warnings) finalManualSteps.push(`Environment "${env.name}": ${warning}`);
+    }
+  }
+
   // 4. Create a new branch
   const branchName = `actions-importer/${dryRun.suggestedFilename.replace(".yml", "")}-${Date.now()}`;
   await ghRestPost(
-    `https://api.github.com/repos/${owner}/${repo}/git/refs`,
+    `${apiUrl}/repos/${owner}/${repo}/git/refs`,
     ghToken,
     { ref: `refs/heads/${branchName}`, sha: baseSha }
   );
@@ -221,7 +289,7 @@ export async function migrateAdoPipeline(
   const filePath = `.github/workflows/${dryRun.suggestedFilename}`;
   const contentB64 = Buffer.from(finalYaml, "utf-8").toString("base64");
   await ghRestPut(
-    `https://api.github.com/repos/${owner}/${repo}/contents/${filePath}`,
+    `${apiUrl}/repos/${owner}/${repo}/contents/${filePath}`,
     ghToken,
     {
       message: `chore: add converted workflow from ADO pipeline ${pipelineId}`,
@@ -230,6 +298,26 @@ export async function migrateAdoPipeline(
     }
   );
 
+  // 5b. Add the composite actions / reusable workflows it calls. Other
+  // pipelines may have added them already — only write what differs.
+  const additionalFiles: string[] = [];
+  for (const file of dryRun.additionalFiles ?? []) {
+    const url = `${apiUrl}/repos/${owner}/${repo}/contents/${file.path}`;
+    const existing = await ghContentOnBranch(url, branchName, ghToken);
+    if (existing?.content === file.content) continue;
+    await ghRestPut(url, ghToken, {
+      message: `chore: add ${file.path} converted from a shared ADO template`,
+      content: Buffer.from(file.content, "utf-8").toString("base64"),
+      branch: branchName,
+      ...(existing ? { sha: existing.sha } : {}),
+    });
+    additionalFiles.push(file.path);
+  }
+  const sharedFilesMd = additionalFiles.length > 0
+    ? "\n\n## Shared Templates\nConverted from ADO templates and called by the workflow:\n" +
+      additionalFiles.map(f => `- \`${f}\``).join("\n")
+    : "";
+
   // 6. Create a pull request
   const manualStepsMd = finalManualSteps.length > 0
     ? "\n\n## Manual Steps\n" + finalManualSteps.map(s => `- [ ] ${s}`).join("\n")
@@ -246,11 +334,11 @@ export async function migrateAdoPipeline(
     : "";
 
   const pr = await ghRestPost(
-    `https://api.github.com/repos/${owner}/${repo}/pulls`,
+    `${apiUrl}/repos/${owner}/${repo}/pulls`,
     ghToken,
     {
       title: `Import ADO ${pipelineType} ${pipelineId} as GitHub Actions workflow`,
-      body: `Converted from Azure DevOps ${pipelineType} **${pipelineId}** in \`${adoOrg}/${adoProject}\`.${manualStepsMd}${unsupportedMd}${aiReviewMd}`,
+      body: `Converted from Azure DevOps ${pipelineType} **${pipelineId}** in \`${adoOrg}/${adoProject}\`.${sharedFilesMd}${manualStepsMd}${unsupportedMd}${aiReviewMd}`,
       head: branchName,
       base: defaultBranch,
     }
@@ -264,6 +352,8 @@ export async function migrateAdoPipeline(
     unsupported: dryRun.unsupported,
     pipelineId,
     validationReport,
+    environments,
+    ...(additionalFiles.length > 0 ? { additionalFiles } : {}),
   };
 }
 
@@ -297,6 +387,20 @@ async function ghRestPost(url: string, token: string, body: object): Promise<any
   return response.json();
 }
 
+/** A file's decoded content and blob SHA on a branch, or null if it doesn't exist */
+async function ghContentOnBranch(url: string, branch: string, token: string): Promise<{ sha: string; content: string } | null> {
+  const response = await fetch(`${url}?ref=${encodeURIComponent(branch)}`, {
+    headers: { Authorization: `token ${token}`, Accept: "application/vnd.github.v3+json" },
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`GitHub API error ${response.status}: ${text}`);
+  }
+  const data: any = await response.json();
+  return { sha: data.sha, content: Buffer.from(data.content ?? "", "base64").toString("utf-8") };
+}
+
 async function ghRestPut(url: string, token: string, body: object): Promise<any> {
   const response = await fetch(url, {
     method: "PUT",
@@ -342,10 +446,11 @@ export namespace cli {
     adoPat?: string,
     adoOrg?: string,
     adoProject?: string,
+    githubInstanceUrl: string = "https://github.com",
   ): Record<string, string> {
     const env: Record<string, string> = {
       GITHUB_ACCESS_TOKEN: githubToken,
-      GITHUB_INSTANCE_URL: "https://github.com",
+      GITHUB_INSTANCE_URL: githubInstanceUrl,
       AZURE_DEVOPS_INSTANCE_URL: "https://dev.azure.com",
     };
     if (adoPat) env.AZURE_DEVOPS_ACCESS_TOKEN = adoPat;
@@ -445,10 +550,10 @@ export namespace cli {
     ];
     if (customTransformersPath) args.push("--custom-transformers", customTransformersPath);
 
-    const env = buildEnv(ghToken, adoPat, adoOrg, adoProject);
+    const env = buildEnv(ghToken, adoPat, adoOrg, adoProject, new URL(targetRepoUrl).origin);
     const { stdout, stderr } = await runActionsImporterCommand(args, env);
 
-    const prMatch = (stdout + "\n" + stderr).match(/https:\/\/github\.com\/[^\s]+\/pull\/\d+/);
+    const prMatch = (stdout + "\n" + stderr).match(/https:\/\/[^\s/]+\/[^\s]+\/pull\/\d+/);
     const pullRequestUrl = prMatch?.[0] || "";
 
     const manualSteps = (stdout + "\n" + stderr)
@@ -15,6 +15,7 @@ interface ADORepository {
   remoteUrl: string;
   size: number;
   defaultBranch?: string;
+  isDisabled?: boolean;
 }
 
 interface DetailedADORepository extends ADORepository {
@@ -22,6 +23,47 @@ interface DetailedADORepository extends ADORepository {
   isDisabled: boolean;
 }
 
+/** Permissions a read-only lock replaced, so the lock can be undone */
+export interface ADOPermissionSnapshot {
+  /** Security token: repoV2/{projectId}/{repoId} */
+  token: string;
+  /** Identity descriptor of the project's "Project Valid Users" group */
+  descriptor: string;
+  allow: number;
+  deny: number;
+  /** Whether an explicit entry existed before the lock */
+  existed: boolean;
+}
+
+export interface BoardsGithubConnection {
+  id: string;
+  name: string;
+  serviceEndpointId: string;
+  /** GitHub node IDs of the repos already in the connection */
+  repoIds: string[];
+}
+
+/** A branch policy configuration as returned by the policy API */
+export interface ADOPolicyConfiguration {
+  id: number;
+  isEnabled: boolean;
+  isBlocking: boolean;
+  type: { id: string; displayName: string };
+  settings: {
+    scope?: { repositoryId: string | null; refName?: string; matchKind?: "Exact" | "Prefix" | "DefaultBranch" }[];
+    [key: string]: any;
+  };
+}
+
+/** Object counts used to validate a migrated repository (ADO has no issues or releases) */
+interface ADORepoStats {
+  branches: number;
+  tags: number;
+  defaultBranch: string | null;
+  defaultBranchCommits: number;
+  pullRequests: number;
+}
+
 export async function getProjects(adoOrg: string, sessionId?: string): Promise<ADOProject[]> {
   const token = getADOPAT(sessionId);
   const auth = Buffer.from(`:${token}`).toString("base64");
@@ -83,10 +125,10 @@ export async function getReposDetailed(adoOrg: string, project?: string, session
       detailed.push({
         ...repo,
         lastCommitDate,
-        isDisabled: false
+        isDisabled: !!repo.isDisabled
       });
     } catch {
-      detailed.push({ ...repo, isDisabled: false });
+      detailed.push({ ...repo, isDisabled: !!repo.isDisabled });
     }
   }
   
@@ -126,3 +168,350 @@ export async function getDetailedInventory(adoOrg: string, sessionId?: string):
     }
   };
 }
+
+/** Count every item of a paged ADO list using $top/$skip style parameters */
+async function countAll(url: string, auth: string, topParam: string, skipParam: string): Promise<number> {
+  const pageSize = 1000;
+  let total = 0;
+  while (true) {
+    const response = await fetch(
+      `${url}&${topParam}=${pageSize}&${skipParam}=${total}`,
+      { headers: { Authorization: `Basic ${auth}` } }
+    );
+    if (!response.ok) {
+      throw new Error(`ADO API error: ${response.status} ${response.statusText}`);
+    }
+    const data: any = await response.json();
+    const count = data.value?.length ?? 0;
+    total += count;
+    if (count < pageSize) return total;
+  }
+}
+
+export async function getRepoStats(adoOrg: string, project: string, repo: string, sessionId?: string): Promise<ADORepoStats> {
+  const token = getADOPAT(sessionId);
+  const auth = Buffer.from(`:${token}`).toString("base64");
+  const repoUrl = `https://dev.azure.com/${adoOrg}/${project}/_apis/git/repositories/${encodeURIComponent(repo)}`;
+  
+  const response = await fetch(`${repoUrl}?api-version=7.0`, { headers: { Authorization: `Basic ${auth}` } });
+  if (!response.ok) {
+    throw new Error(`ADO API error: ${response.status} ${response.statusText}`);
+  }
+  const info: any = await response.json();
+  const defaultBranch = info.defaultBranch ? info.defaultBranch.replace(/^refs\/heads\//, "") : null;
+  
+  // Refs are returned unpaged when neither $top nor a continuation token is given
+  const countRefs = async (filter: string): Promise<number> => {
+    const refs = await fetch(`${repoUrl}/refs?filter=${filter}&api-version=7.0`, { headers: { Authorization: `Basic ${auth}` } });
+    if (!refs.ok) {
+      throw new Error(`ADO API error: ${refs.status} ${refs.statusText}`);
+    }
+    const data: any = await refs.json();
+    return data.value?.length ?? 0;
+  };
+  
+  const [branches, tags, defaultBranchCommits, pullRequests] = await Promise.all([
+    countRefs("heads/"),
+    countRefs("tags/"),
+    defaultBranch
+      ? countAll(
+          `${repoUrl}/commits?searchCriteria.itemVersion.version=${encodeURIComponent(defaultBranch)}&api-version=7.0`,
+          auth, "searchCriteria.$top", "searchCriteria.$skip"
+        )
+      : Promise.resolve(0),
+    countAll(`${repoUrl}/pullrequests?searchCriteria.status=all&api-version=7.0`, auth, "$top", "$skip"),
+  ]);
+  
+  return { branches, tags, defaultBranch, defaultBranchCommits, pullRequests };
+}
+
+// ─── Source locking ──────────────────────────────────────────────────────────
+
+/** Security namespace for Git repository permissions */
+const GIT_REPOSITORIES_NAMESPACE = "2e9eb7ed-3c0a-47d4-87c1-0ffdd275fd87";
+/** Every Git repository permission bit except Read — what `ado2gh lock-ado-repo` denies */
+const DENY_ALL_BUT_READ = 56828;
+
+async function adoRequest(url: string, auth: string, init: RequestInit = {}): Promise<any> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Authorization: `Basic ${auth}`, "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`ADO API error: ${response.status} ${response.statusText}`);
+  }
+  return response.status === 204 ? null : response.json();
+}
+
+async function getRepoInfo(adoOrg: string, project: string, repo: string, auth: string): Promise<any> {
+  return adoRequest(
+    `https://dev.azure.com/${adoOrg}/${project}/_apis/git/repositories/${encodeURIComponent(repo)}?api-version=7.0`,
+    auth
+  );
+}
+
+/**
+ * Make a repository read-only by denying every permission but Read to the
+ * project's "Project Valid Users" group. Returns the previous permissions.
+ */
+export async function lockRepoReadOnly(adoOrg: string, project: string, repo: string, sessionId?: string): Promise<ADOPermissionSnapshot> {
+  const token = getADOPAT(sessionId);
+  const auth = Buffer.from(`:${token}`).toString("base64");
+  
+  const info = await getRepoInfo(adoOrg, project, repo, auth);
+  const securityToken = `repoV2/${info.project.id}/${info.id}`;
+  
+  const identities = await adoRequest(
+    `https://vssps.dev.azure.com/${adoOrg}/_apis/identities?searchFilter=General&filterValue=${encodeURIComponent(`[${project}]\\Project Valid Users`)}&queryMembership=None&api-version=6.0`,
+    auth
+  );
+  const descriptor: string | undefined = identities.value?.[0]?.descriptor;
+  if (!descriptor) {
+    throw new Error(`Could not find the Project Valid Users group for ${project}`);
+  }
+  
+  const acls = await adoRequest(
+    `https://dev.azure.com/${adoOrg}/_apis/accesscontrollists/${GIT_REPOSITORIES_NAMESPACE}?token=${encodeURIComponent(securityToken)}&descriptors=${encodeURIComponent(descriptor)}&api-version=6.0`,
+    auth
+  );
+  const previous = acls.value?.[0]?.acesDictionary?.[descriptor];
+  
+  await adoRequest(
+    `https://dev.azure.com/${adoOrg}/_apis/accesscontrolentries/${GIT_REPOSITORIES_NAMESPACE}?api-version=6.0`,
+    auth,
+    {
+      method: "POST",
+      body: JSON.stringify({
+        token: securityToken,
+        merge: true,
+        accessControlEntries: [{ descriptor, allow: 0, deny: DENY_ALL_BUT_READ, extendedInfo: {} }],
+      }),
+    }
+  );
+  
+  return {
+    token: securityToken,
+    descriptor,
+    allow: previous?.allow ?? 0,
+    deny: previous?.deny ?? 0,
+    existed: !!previous,
+  };
+}
+
+/** Undo `lockRepoReadOnly` by restoring (or removing) the group's entry */
+export async function restoreRepoPermissions(adoOrg: string, snapshot: ADOPermissionSnapshot, sessionId?: string): Promise<void> {
+  const token = getADOPAT(sessionId);
+  const auth = Buffer.from(`:${token}`).toString("base64");
+  const url = `https://dev.azure.com/${adoOrg}/_apis/accesscontrolentries/${GIT_REPOSITORIES_NAMESPACE}`;
+  
+  if (snapshot.existed) {
+    await adoRequest(`${url}?api-version=6.0`, auth, {
+      method: "POST",
+      body: JSON.stringify({
+        token: snapshot.token,
+        merge: false,
+        accessControlEntries: [{ descriptor: snapshot.descriptor, allow: snapshot.allow, deny: snapshot.deny, extendedInfo: {} }],
+      }),
+    });
+  } else {
+    await adoRequest(
+      `${url}?token=${encodeURIComponent(snapshot.token)}&descriptors=${encodeURIComponent(snapshot.descriptor)}&api-version=6.0`,
+      auth,
+      { method: "DELETE" }
+    );
+  }
+}
+
+export async function setRepoDisabled(adoOrg: string, project: string, repo: string, disabled: boolean, sessionId?: string): Promise<void> {
+  const token = getADOPAT(sessionId);
+  const auth = Buffer.from(`:${token}`).toString("base64");
+  
+  const info = await getRepoInfo(adoOrg, project, repo, auth);
+  await adoRequest(
+    `https://dev.azure.com/${adoOrg}/${project}/_apis/git/repositories/${info.id}?api-version=7.1`,
+    auth,
+    { method: "PATCH", body: JSON.stringify({ isDisabled: disabled }) }
+  );
+}
+
+// ─── Branch policies ─────────────────────────────────────────────────────────
+
+/**
+ * Policy configurations that apply to a repository, including project-wide
+ * policies whose scope covers every repo.
+ */
+export async function getRepoPolicyConfigurations(adoOrg: string, project: string, repo: string, sessionId?: string): Promise<{
+  repositoryId: string;
+  defaultBranch?: string;
+  policies: ADOPolicyConfiguration[];
+}> {
+  const token = getADOPAT(sessionId);
+  const auth = Buffer.from(`:${token}`).toString("base64");
+  
+  const info = await getRepoInfo(adoOrg, project, repo, auth);
+  const data = await adoRequest(
+    `https://dev.azure.com/${adoOrg}/${project}/_apis/git/policy/configurations?repositoryId=${info.id}&$top=1000&api-version=7.0`,
+    auth
+  );
+  return { repositoryId: info.id, defaultBranch: info.defaultBranch, policies: data.value ?? [] };
+}
+
+// ─── Azure Boards ↔ GitHub ───────────────────────────────────────────────────
+// There is no public REST API for Boards GitHub connections; like
+// `gh ado2gh integrate-boards`, these go through the contribution data providers
+// behind the project settings page.
+
+async function hierarchyQuery(
+  adoOrg: string,
+  project: string,
+  contributionId: string,
+  properties: Record<string, unknown>,
+  auth: string
+): Promise<any> {
+  const data = await adoRequest(
+    `https://dev.azure.com/${adoOrg}/_apis/Contribution/HierarchyQuery?api-version=5.0-preview.1`,
+    auth,
+    {
+      method: "POST",
+      body: JSON.stringify({
+        contributionIds: [contributionId],
+        dataProviderContext: {
+          properties: {
+            ...properties,
+            sourcePage: {
+              url: `https://dev.azure.com/${adoOrg}/${encodeURIComponent(project)}/_settings/boards-external-integration`,
+              routeId: "ms.vss-admin-web.project-admin-hub-route",
+              routeValues: {
+                project,
+                adminPivot: "boards-external-integration",
+                controller: "ContributedPage",
+                action: "Execute",
+              },
+            },
+          },
+        },
+      }),
+    }
+  );
+  return data.dataProviders?.[contributionId];
+}
+
+export async function getProjectId(adoOrg: string, project: string, sessionId?: string): Promise<string> {
+  const token = getADOPAT(sessionId);
+  const auth = Buffer.from(`:${token}`).toString("base64");
+  
+  const data = await adoRequest(`https://dev.azure.com/${adoOrg}/_apis/projects/${encodeURIComponent(project)}?api-version=7.0`, auth);
+  return data.id;
+}
+
+/** Create the "githubboards" service endpoint Boards uses to talk to GitHub */
+export async function createBoardsGithubEndpoint(
+  adoOrg: string,
+  projectId: string,
+  githubToken: string,
+  githubHandle: string,
+  endpointName: string,
+  sessionId?: string
+): Promise<string> {
+  const token = getADOPAT(sessionId);
+  const auth = Buffer.from(`:${token}`).toString("base64");
+  
+  const data = await adoRequest(
+    `https://dev.azure.com/${adoOrg}/${projectId}/_apis/serviceendpoint/endpoints?api-version=5.0-preview.1`,
+    auth,
+    {
+      method: "POST",
+      body: JSON.stringify({
+        type: "githubboards",
+        url: "http://github.com",
+        authorization: { scheme: "PersonalAccessToken", parameters: { accessToken: githubToken } },
+        data: { GitHubHandle: githubHandle },
+        name: endpointName,
+      }),
+    }
+  );
+  return data.id;
+}
+
+/** The project's existing Boards GitHub connection, if any */
+export async function getBoardsGithubConnection(adoOrg: string, project: string, sessionId?: string): Promise<BoardsGithubConnection | null> {
+  const token = getADOPAT(sessionId);
+  const auth = Buffer.from(`:${token}`).toString("base64");
+  
+  const provider = await hierarchyQuery(
+    adoOrg,
+    project,
+    "ms.vss-work-web.azure-boards-external-connection-data-provider",
+    { includeInvalidConnections: false },
+    auth
+  );
+  const connection = provider?.externalConnections?.[0];
+  if (!connection) return null;
+  
+  return {
+    id: connection.id,
+    name: connection.name,
+    serviceEndpointId: connection.serviceEndpoint?.id,
+    repoIds: (connection.externalGitRepos ?? []).map((r: any) => r.id),
+  };
+}
+
+/** Resolve the GitHub node ID Boards uses for owner/repo */
+export async function getBoardsGithubRepoId(
+  adoOrg: string,
+  project: string,
+  projectId: string,
+  serviceEndpointId: string,
+  githubOrg: string,
+  githubRepo: string,
+  sessionId?: string
+): Promise<string> {
+  const token = getADOPAT(sessionId);
+  const auth = Buffer.from(`:${token}`).toString("base64");
+  
+  const provider = await hierarchyQuery(
+    adoOrg,
+    project,
+    "ms.vss-work-web.github-user-repository-data-provider",
+    { projectId, repoWithOwnerName: `${githubOrg}/${githubRepo}`, serviceEndpointId },
+    auth
+  );
+  const nodeId = provider?.additionalProperties?.nodeId;
+  if (!nodeId) {
+    throw new Error(`Azure Boards could not find GitHub repository ${githubOrg}/${githubRepo}`);
+  }
+  return nodeId;
+}
+
+/**
+ * Create the Boards GitHub connection, or replace the repo list of an
+ * existing one (pass `connection`).
+ */
+export async function saveBoardsGithubConnection(
+  adoOrg: string,
+  project: string,
+  serviceEndpointId: string,
+  repoIds: string[],
+  connection?: { id: string; name: string },
+  sessionId?: string
+): Promise<void> {
+  const token = getADOPAT(sessionId);
+  const auth = Buffer.from(`:${token}`).toString("base64");
+  
+  await hierarchyQuery(
+    adoOrg,
+    project,
+    "ms.vss-work-web.azure-boards-save-external-connection-data-provider",
+    {
+      externalConnection: {
+        serviceEndpointId,
+        externalRepositoryExternalIds: repoIds,
+        ...(connection ? { id: connection.id, name: connection.name } : {}),
+        connectionMetadata: {},
+        providerKey: "github.com",
+        isGitHubApp: false,
+      },
+    },
+    auth
+  );
+}
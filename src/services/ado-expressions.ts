@@ -0,0 +1,580 @@
+/**
+ * ADO expressions — translates Azure Pipelines runtime conditions
+ * (`condition: and(succeeded(), eq(variables['Build.Reason'], 'PullRequest'))`)
+ * into GitHub Actions `if:` expressions.
+ *
+ * Conditions are parsed into an AST and emitted operator by operator:
+ * logical and comparison functions become `&&`/`||`/`!`/`==`…, string
+ * functions their GitHub counterparts, `variables[…]` becomes `env`/`vars` or
+ * the matching `github`/`runner` property, and `dependencies`/
+ * `stageDependencies` become `needs`.  Parts with no GitHub equivalent are
+ * kept verbatim and reported, so the workflow fails validation instead of
+ * silently changing behaviour.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Where the condition is used: decides which GitHub contexts are available */
+export type ConditionScope = "stage" | "job" | "step";
+
+export interface ConditionOptions {
+  scope: ConditionScope;
+  /** GitHub job id for `dependencies.<job>` in a job condition */
+  resolveJob?: (job: string) => string | undefined;
+  /** GitHub job ids for `dependencies.<stage>` in a stage condition */
+  resolveStage?: (stage: string) => string[];
+  /** GitHub job id for `stageDependencies.<stage>.<job>` and stage-level job outputs */
+  resolveStageJob?: (stage: string, job: string) => string | undefined;
+}
+
+/** A job output the expression reads through `needs.<job>.outputs.<name>` */
+export interface JobOutputReference {
+  job: string;
+  step: string;
+  name: string;
+}
+
+export interface ConditionTranslation {
+  /** GitHub `if:` expression; empty for ADO's default condition (`succeeded()`) */
+  expression: string;
+  /** Parts with no GitHub equivalent, kept verbatim in the expression */
+  untranslatable: string[];
+  /** Caveats about parts that were translated */
+  notes: string[];
+  /** Job outputs the expression reads; the job has to declare them */
+  outputs: JobOutputReference[];
+}
+
+type AdoNode =
+  | { kind: "string"; value: string; start: number; end: number }
+  | { kind: "number" | "version"; raw: string; start: number; end: number }
+  | { kind: "boolean"; value: boolean; start: number; end: number }
+  | { kind: "null"; start: number; end: number }
+  | { kind: "ref"; head: string; path: (string | number)[]; dynamic: boolean; start: number; end: number }
+  | { kind: "call"; name: string; args: AdoNode[]; start: number; end: number };
+
+/** An emitted GitHub expression fragment */
+interface Emitted {
+  text: string;
+  /** Binding strength: 1 `||`, 2 `&&`, 3 `==`, 4 `<`, 5 `!`, 6 atoms */
+  prec: number;
+  /** ADO literal (lower-cased) → GitHub literal, for values that differ between the two */
+  values?: Record<string, string>;
+  /** What the values are, for messages */
+  valueLabel?: string;
+  /** ADO variables are always strings */
+  isVariable?: boolean;
+  literal?: AdoNode;
+}
+
+interface Predefined {
+  expr: string;
+  values?: Record<string, string>;
+  /** Only known once the job runs (not available to job conditions) */
+  runtime?: boolean;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const BUILD_REASONS: Record<string, string> = {
+  pullrequest: "'pull_request'",
+  individualci: "'push'",
+  batchedci: "'push'",
+  schedule: "'schedule'",
+  manual: "'workflow_dispatch'",
+  resourcetrigger: "'workflow_run'",
+  buildcompletion: "'workflow_run'",
+};
+
+const RESULTS: Record<string, string> = {
+  succeeded: "'success'",
+  succeededwithissues: "'success'",
+  failed: "'failure'",
+  canceled: "'cancelled'",
+  skipped: "'skipped'",
+};
+
+/** Predefined variables, keyed by lower-cased name */
+const PREDEFINED: Record<string, Predefined> = {
+  "build.reason": { expr: "github.event_name", values: BUILD_REASONS },
+  "build.sourcebranch": { expr: "github.ref" },
+  "build.sourcebranchname": { expr: "github.ref_name" },
+  "build.sourceversion": { expr: "github.sha" },
+  "build.sourceversionmessage": { expr: "github.event.head_commit.message" },
+  "build.repository.name": { expr: "github.event.repository.name" },
+  "build.buildid": { expr: "github.run_id" },
+  "build.buildnumber": { expr: "github.run_number" },
+  "build.definitionname": { expr: "github.workflow" },
+  "build.requestedfor": { expr: "github.actor" },
+  "build.sourcesdirectory": { expr: "github.workspace" },
+  "system.defaultworkingdirectory": { expr: "github.workspace" },
+  "pipeline.workspace": { expr: "github.workspace" },
+  "system.pullrequest.pullrequestid": { expr: "github.event.pull_request.number" },
+  "system.pullrequest.pullrequestnumber": { expr: "github.event.pull_request.number" },
+  "system.pullrequest.sourcebranch": { expr: "format('refs/heads/{0}', github.head_ref)" },
+  "system.pullrequest.targetbranch": { expr: "format('refs/heads/{0}', github.base_ref)" },
+  "system.pullrequest.targetbranchname": { expr: "github.base_ref" },
+  "system.pullrequest.sourcecommitid": { expr: "github.event.pull_request.head.sha" },
+  "system.pullrequest.sourcerepositoryuri": { expr: "github.event.pull_request.head.repo.clone_url" },
+  "system.pullrequest.isfork": { expr: "github.event.pull_request.head.repo.fork", values: { true: "true", false: "false" } },
+  "system.debug": { expr: "runner.debug", values: { true: "'1'", false: "''" }, runtime: true },
+  "agent.os": { expr: "runner.os", values: { linux: "'Linux'", windows_nt: "'Windows'", darwin: "'macOS'" }, runtime: true },
+  "agent.tempdirectory": { expr: "runner.temp", runtime: true },
+  "agent.jobstatus": { expr: "job.status", values: RESULTS, runtime: true },
+};
+
+/** Prefixes of predefined variables; anything else under `variables` is user-defined */
+const PREDEFINED_PREFIX = /^(agent|build|environment|pipeline|release|resources|system|strategy)\./i;
+
+const STATUS_FUNCTIONS = new Set(["succeeded", "failed", "canceled", "always", "succeededorfailed"]);
+
+const COMPARISONS: Record<string, string> = { eq: "==", ne: "!=", gt: ">", ge: ">=", lt: "<", le: "<=" };
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+type Token = { type: "string" | "number" | "version" | "ident" | "punct"; value: string; start: number; end: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    const start = i;
+    if (ch === "'") {
+      let value = "";
+      for (i++; ; i++) {
+        if (i >= source.length) throw new Error("unterminated string");
+        if (source[i] === "'") {
+          if (source[i + 1] !== "'") break;
+          i++;
+        }
+        value += source[i];
+      }
+      tokens.push({ type: "string", value, start, end: ++i });
+      continue;
+    }
+    const rest = source.slice(i);
+    const number = /^-?\d+(?:\.\d+){0,3}/.exec(rest);
+    if (number) {
+      const dots = number[0].split(".").length - 1;
+      tokens.push({ type: dots > 1 ? "version" : "number", value: number[0], start, end: (i += number[0].length) });
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(rest);
+    if (ident) {
+      tokens.push({ type: "ident", value: ident[0], start, end: (i += ident[0].length) });
+      continue;
+    }
+    if (!"()[],.".includes(ch)) throw new Error(`unexpected character '${ch}' at position ${i + 1}`);
+    tokens.push({ type: "punct", value: ch, start, end: ++i });
+  }
+  return tokens;
+}
+
+/** Parse an ADO runtime expression (function calls, literals and property references) */
+function parseAdoExpression(source: string): AdoNode {
+  const tokens = tokenize(source);
+  let pos = 0;
+  const peek = (value: string) => tokens[pos]?.type === "punct" && tokens[pos].value === value;
+  const expect = (value: string) => {
+    if (!peek(value)) {
+      throw new Error(tokens[pos] ? `expected '${value}' at position ${tokens[pos].start + 1}` : `expected '${value}' at end`);
+    }
+    return tokens[pos++];
+  };
+
+  const expression = (): AdoNode => {
+    const token = tokens[pos++];
+    if (!token) throw new Error("unexpected end of expression");
+    const { start, end } = token;
+    switch (token.type) {
+      case "string":
+        return { kind: "string", value: token.value, start, end };
+      case "number":
+      case "version":
+        return { kind: token.type, raw: token.value, start, end };
+      case "punct":
+        throw new Error(`unexpected '${token.value}' at position ${start + 1}`);
+    }
+
+    const word = token.value.toLowerCase();
+    if (peek("(")) {
+      pos++;
+      const args: AdoNode[] = [];
+      if (!peek(")")) {
+        args.push(expression());
+        while (peek(",")) { pos++; args.push(expression()); }
+      }
+      return { kind: "call", name: token.value, args, start, end: expect(")").end };
+    }
+    if (word === "true" || word === "false") return { kind: "boolean", value: word === "true", start, end };
+    if (word === "null") return { kind: "null", start, end };
+
+    const ref: Extract<AdoNode, { kind: "ref" }> = { kind: "ref", head: token.value, path: [], dynamic: false, start, end };
+    for (;;) {
+      if (peek(".")) {
+        pos++;
+        const name = tokens[pos++];
+        if (name?.type !== "ident") throw new Error(`expected a property name after '.' at position ${(name?.start ?? source.length) + 1}`);
+        ref.path.push(name.value);
+        ref.end = name.end;
+      } else if (peek("[")) {
+        pos++;
+        const index = expression();
+        if (index.kind === "string") ref.path.push(index.value);
+        else if (index.kind === "number") ref.path.push(Number(index.raw));
+        else ref.dynamic = true;
+        ref.end = expect("]").end;
+      } else {
+        return ref;
+      }
+    }
+  };
+
+  const ast = expression();
+  if (pos < tokens.length) throw new Error(`unexpected '${tokens[pos].value}' at position ${tokens[pos].start + 1}`);
+  return ast;
+}
+
+// ─── Translation ─────────────────────────────────────────────────────────────
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function paren(e: Emitted, minPrec: number): string {
+  return e.prec < minPrec ? `(${e.text})` : e.text;
+}
+
+/** `env.name`, or `env['name']` when the name isn't a plain identifier */
+function property(context: string, name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(name) ? `${context}.${name}` : `${context}[${quote(name)}]`;
+}
+
+class Translator {
+  readonly untranslatable: string[] = [];
+  readonly notes: string[] = [];
+  readonly outputs: JobOutputReference[] = [];
+  hasStatusFunction = false;
+
+  constructor(private readonly source: string, private readonly options: ConditionOptions) {}
+
+  private text(node: AdoNode): string {
+    return this.source.slice(node.start, node.end);
+  }
+
+  private note(message: string): void {
+    if (!this.notes.includes(message)) this.notes.push(message);
+  }
+
+  /** Report a part with no GitHub equivalent and keep its ADO text */
+  private keep(node: AdoNode, reason: string): Emitted {
+    this.untranslatable.push(`${reason} (in "${this.text(node)}")`);
+    return { text: this.text(node), prec: 6 };
+  }
+
+  emit(node: AdoNode): Emitted {
+    switch (node.kind) {
+      case "string":
+        return { text: quote(node.value), prec: 6, literal: node };
+      case "number":
+        return { text: node.raw, prec: 6, literal: node };
+      case "version":
+        return this.keep(node, `version literal ${node.raw} has no GitHub equivalent`);
+      case "boolean":
+        return { text: String(node.value), prec: 6, literal: node };
+      case "null":
+        return { text: "null", prec: 6, literal: node };
+      case "ref":
+        return this.reference(node);
+      case "call":
+        return this.call(node);
+    }
+  }
+
+  // ── References ──
+
+  private reference(ref: Extract<AdoNode, { kind: "ref" }>): Emitted {
+    if (ref.dynamic) return this.keep(ref, "computed property names can't be translated");
+    const head = ref.head.toLowerCase();
+    const path = ref.path.map(String);
+
+    if (head === "variables") {
+      if (path.length === 0) return this.keep(ref, "'variables' on its own has no GitHub equivalent");
+      return this.variable(ref, path.join("."));
+    }
+    if (head === "dependencies" && this.options.scope === "stage") return this.stageDependency(ref, path);
+    if (head === "dependencies") return this.jobDependency(ref, path[0], path.slice(1));
+    if (head === "stagedependencies") {
+      if (path.length < 2) return this.keep(ref, "stageDependencies needs a stage and a job");
+      const job = this.options.resolveStageJob?.(path[0], path[1]);
+      if (!job) return this.keep(ref, `stageDependencies.${path[0]}.${path[1]} doesn't match a converted job`);
+      return this.dependencyProperty(ref, job, path.slice(2), `${path[0]}.${path[1]}`);
+    }
+    if (head === "parameters" && path.length > 0) {
+      this.note(`parameters.${path[0]} reads the workflow input inputs.${path[0]}.`);
+      return { text: property("inputs", path[0]), prec: 6 };
+    }
+    return this.keep(ref, `'${ref.head}' has no GitHub equivalent`);
+  }
+
+  private variable(ref: AdoNode, name: string): Emitted {
+    const predefined = PREDEFINED[name.toLowerCase()];
+    if (predefined) {
+      if (predefined.runtime && this.options.scope !== "step") {
+        return this.keep(ref, `${name} is only known once the job runs — it can't be used in a ${this.options.scope} condition`);
+      }
+      return { text: predefined.expr, prec: 6, values: predefined.values, valueLabel: name, isVariable: true };
+    }
+    if (PREDEFINED_PREFIX.test(name)) return this.keep(ref, `predefined variable ${name} has no GitHub equivalent`);
+
+    if (this.options.scope === "step") return { text: property("env", name), prec: 6, isVariable: true };
+    // Job conditions are evaluated before the job's env exists
+    this.note(
+      `variable ${name} is read from the repository/organization variable vars.${name} — ` +
+      `GitHub ${this.options.scope} conditions can't see workflow env; create it or inline the value.`
+    );
+    return { text: property("vars", name), prec: 6, isVariable: true };
+  }
+
+  /** `dependencies.<job>.result` / `.outputs['step.var']` in a job condition */
+  private jobDependency(ref: AdoNode, name: string | undefined, rest: string[]): Emitted {
+    if (!name) return this.keep(ref, "'dependencies' needs a job name");
+    const job = this.options.resolveJob?.(name);
+    if (!job) return this.keep(ref, `dependencies.${name} doesn't match a converted job`);
+    return this.dependencyProperty(ref, job, rest, name);
+  }
+
+  /** `dependencies.<stage>.result` / `.outputs['job.step.var']` in a stage condition */
+  private stageDependency(ref: AdoNode, path: string[]): Emitted {
+    const [stage, property, output] = path;
+    if (!stage) return this.keep(ref, "'dependencies' needs a stage name");
+    if (property?.toLowerCase() === "outputs" && output) {
+      const [jobName, ...stepVar] = output.split(".");
+      const job = this.options.resolveStageJob?.(stage, jobName);
+      if (!job) return this.keep(ref, `job ${jobName} of stage ${stage} doesn't match a converted job`);
+      return this.dependencyProperty(ref, job, ["outputs", stepVar.join(".")], `${stage}.${jobName}`);
+    }
+    const jobs = this.options.resolveStage?.(stage) ?? [];
+    if (jobs.length === 1) return this.dependencyProperty(ref, jobs[0], path.slice(1), stage);
+    return this.keep(ref, jobs.length === 0
+      ? `dependencies.${stage} doesn't match a converted stage`
+      : `stage ${stage} became ${jobs.length} jobs (${jobs.join(", ")}) — GitHub has no stage result; check each needs.<job>.result`);
+  }
+
+  private dependencyProperty(ref: AdoNode, job: string, rest: string[], label: string): Emitted {
+    const [prop, output] = rest;
+    if (prop?.toLowerCase() === "result" && rest.length === 1) {
+      return { text: `needs.${job}.result`, prec: 6, values: RESULTS, valueLabel: `${label}.result` };
+    }
+    if (prop?.toLowerCase() === "outputs" && output && rest.length === 2) {
+      // 'step.var', or 'job.step.var' / 'Deploy_<resource>.step.var' for deployment jobs
+      const parts = output.split(".");
+      if (parts.length < 2) return this.keep(ref, `output '${output}' needs a step name ('<step>.${output}')`);
+      const [step, name] = parts.slice(-2);
+      if (!this.outputs.some(o => o.job === job && o.step === step && o.name === name)) this.outputs.push({ job, step, name });
+      return { text: property(`needs.${job}.outputs`, name), prec: 6, isVariable: true };
+    }
+    return this.keep(ref, `only .result and .outputs['<step>.<name>'] of a dependency can be translated`);
+  }
+
+  // ── Functions ──
+
+  private arity(node: Extract<AdoNode, { kind: "call" }>, min: number, max = min): boolean {
+    if (node.args.length >= min && node.args.length <= max) return true;
+    this.keep(node, `${node.name}() takes ${min === max ? min : `${min}${max === Infinity ? "+" : `–${max}`}`} argument(s)`);
+    return false;
+  }
+
+  private call(node: Extract<AdoNode, { kind: "call" }>): Emitted {
+    const name = node.name.toLowerCase();
+    const kept = (): Emitted => ({ text: this.text(node), prec: 6 });
+
+    if (STATUS_FUNCTIONS.has(name)) return this.status(node, name);
+
+    switch (name) {
+      case "and":
+      case "or": {
+        if (!this.arity(node, 2, Infinity)) return kept();
+        const prec = name === "and" ? 2 : 1;
+        const text = node.args.map(arg => paren(this.emit(arg), prec)).join(name === "and" ? " && " : " || ");
+        return { text, prec };
+      }
+      case "not":
+        if (!this.arity(node, 1)) return kept();
+        return { text: `!${paren(this.emit(node.args[0]), 5)}`, prec: 5 };
+      case "xor": {
+        if (!this.arity(node, 2)) return kept();
+        const [a, b] = node.args.map(arg => this.emit(arg));
+        return { text: `${paren(a, 4)} != ${paren(b, 4)}`, prec: 3 };
+      }
+      case "eq": case "ne": case "gt": case "ge": case "lt": case "le": {
+        if (!this.arity(node, 2)) return kept();
+        const [a, b] = this.comparable(this.emit(node.args[0]), this.emit(node.args[1]));
+        const prec = name === "eq" || name === "ne" ? 3 : 4;
+        return { text: `${paren(a, prec + 1)} ${COMPARISONS[name]} ${paren(b, prec + 1)}`, prec };
+      }
+      case "in":
+      case "notin": {
+        if (!this.arity(node, 2, Infinity)) return kept();
+        const left = this.emit(node.args[0]);
+        const op = name === "in" ? "==" : "!=";
+        const parts = node.args.slice(1).map(arg => {
+          const [a, b] = this.comparable(left, this.emit(arg));
+          return `${paren(a, 4)} ${op} ${paren(b, 4)}`;
+        });
+        const unique = [...new Set(parts)];
+        if (unique.length === 1) return { text: unique[0], prec: 3 };
+        return { text: unique.join(name === "in" ? " || " : " && "), prec: name === "in" ? 1 : 2 };
+      }
+      case "contains":
+      case "startswith":
+      case "endswith": {
+        if (!this.arity(node, 2)) return kept();
+        const fn = { contains: "contains", startswith: "startsWith", endswith: "endsWith" }[name];
+        return { text: `${fn}(${node.args.map(arg => this.emit(arg).text).join(", ")})`, prec: 6 };
+      }
+      case "containsvalue":
+        if (!this.arity(node, 2)) return kept();
+        return { text: `contains(${node.args.map(arg => this.emit(arg).text).join(", ")})`, prec: 6 };
+      case "coalesce": {
+        if (!this.arity(node, 1, Infinity)) return kept();
+        this.note("coalesce() became '||', which also skips 'false' and 0 — not just empty values.");
+        const args = node.args.map(arg => this.emit(arg));
+        return args.length === 1 ? args[0] : { text: args.map(a => paren(a, 2)).join(" || "), prec: 1 };
+      }
+      case "format": {
+        if (!this.arity(node, 1, Infinity)) return kept();
+        const [first] = node.args;
+        if (first.kind === "string" && /\{\d+:[^}]*\}/.test(first.value)) {
+          return this.keep(node, "format() specifiers like '{0:yyyyMMdd}' have no GitHub equivalent");
+        }
+        return { text: `format(${node.args.map(arg => this.emit(arg).text).join(", ")})`, prec: 6 };
+      }
+      case "join": {
+        if (!this.arity(node, 2)) return kept();
+        const [separator, array] = node.args.map(arg => this.emit(arg).text);
+        return { text: `join(${array}, ${separator})`, prec: 6 };
+      }
+      case "converttojson":
+        if (!this.arity(node, 1)) return kept();
+        return { text: `toJSON(${this.emit(node.args[0]).text})`, prec: 6 };
+      case "lower":
+      case "upper": {
+        if (!this.arity(node, 1)) return kept();
+        this.note(`${node.name}() was dropped — GitHub string comparisons are already case-insensitive.`);
+        return this.emit(node.args[0]);
+      }
+      case "iif": {
+        if (!this.arity(node, 3)) return kept();
+        const [condition, whenTrue, whenFalse] = node.args.map(arg => this.emit(arg));
+        const truthy = (node.args[1].kind === "string" && node.args[1].value !== "") ||
+          (node.args[1].kind === "number" && Number(node.args[1].raw) !== 0) ||
+          (node.args[1].kind === "boolean" && node.args[1].value);
+        if (!truthy) return this.keep(node, "iif() with an empty or computed 'true' value has no GitHub equivalent");
+        return { text: `${paren(condition, 3)} && ${paren(whenTrue, 3)} || ${paren(whenFalse, 2)}`, prec: 1 };
+      }
+      default:
+        return this.keep(node, `${node.name}() has no GitHub expression equivalent`);
+    }
+  }
+
+  /**
+   * Align the two sides of a comparison: map literals for values that differ
+   * between ADO and GitHub (build reasons, job results, OS names), and compare
+   * ADO variables (always strings) with strings rather than booleans.
+   */
+  private comparable(a: Emitted, b: Emitted): [Emitted, Emitted] {
+    return [this.align(a, b), this.align(b, a)];
+  }
+
+  private align(value: Emitted, other: Emitted): Emitted {
+    const literal = value.literal;
+    if (!literal) return value;
+    if (other.values && (literal.kind === "string" || literal.kind === "boolean")) {
+      const key = String(literal.value).toLowerCase();
+      const mapped = other.values[key];
+      if (mapped !== undefined) return { text: mapped, prec: 6 };
+      this.untranslatable.push(`'${key}' is not a ${other.valueLabel} value with a GitHub equivalent (in "${this.text(literal)}")`);
+      return value;
+    }
+    if (other.isVariable && literal.kind === "boolean") return { text: quote(String(literal.value)), prec: 6 };
+    return value;
+  }
+
+  private status(node: Extract<AdoNode, { kind: "call" }>, name: string): Emitted {
+    if (node.args.length === 0) {
+      this.hasStatusFunction = true;
+      const text = { succeeded: "success()", failed: "failure()", canceled: "cancelled()", always: "always()", succeededorfailed: "!cancelled()" }[name]!;
+      return { text, prec: name === "succeededorfailed" ? 5 : 6 };
+    }
+    if (name === "always" || name === "canceled") return this.keep(node, `${node.name}() takes no arguments`);
+
+    // succeeded('A', 'B'): all of the named jobs; failed('A', 'B'): any of them
+    const checks: string[] = [];
+    for (const arg of node.args) {
+      if (arg.kind !== "string") return this.keep(node, `${node.name}() takes job names`);
+      const ids = this.options.scope === "stage"
+        ? this.options.resolveStage?.(arg.value) ?? []
+        : [this.options.resolveJob?.(arg.value)].filter((id): id is string => !!id);
+      if (ids.length === 0) return this.keep(node, `'${arg.value}' doesn't match a converted ${this.options.scope === "stage" ? "stage" : "job"}`);
+      for (const id of ids) {
+        checks.push(
+          name === "succeeded" ? `needs.${id}.result == 'success'`
+          : name === "failed" ? `needs.${id}.result == 'failure'`
+          : `(needs.${id}.result == 'success' || needs.${id}.result == 'failure')`
+        );
+      }
+    }
+    // Named-job checks aren't status functions to GitHub, so they don't replace its implicit success()
+    if (checks.length === 1) return { text: checks[0], prec: name === "succeededorfailed" ? 6 : 3 };
+    return name === "failed"
+      ? { text: checks.join(" || "), prec: 1 }
+      : { text: checks.join(" && "), prec: 2 };
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Translate an ADO condition into a GitHub `if:` expression.
+ *
+ * ADO runs a stage, job or step whose custom condition has no status
+ * function even after earlier failures or a cancellation, while GitHub adds
+ * an implicit `success()`; such conditions get an explicit `always()`.
+ */
+export function translateAdoCondition(condition: string, options: ConditionOptions): ConditionTranslation {
+  const source = condition.trim();
+  if (!source || /^succeeded\(\s*\)$/i.test(source)) return { expression: "", untranslatable: [], notes: [], outputs: [] };
+
+  let ast: AdoNode;
+  try {
+    ast = parseAdoExpression(source);
+  } catch (err: unknown) {
+    return {
+      expression: source,
+      untranslatable: [`could not parse "${source}": ${err instanceof Error ? err.message : String(err)}`],
+      notes: [],
+      outputs: [],
+    };
+  }
+
+  const translator = new Translator(source, options);
+  const emitted = translator.emit(ast);
+  let expression = emitted.text;
+  if (!translator.hasStatusFunction) {
+    expression = `always() && ${paren(emitted, 2)}`;
+    translator.notes.push(
+      "ADO evaluates a condition without succeeded()/failed()/always() even after failures or cancellation, " +
+      "GitHub adds an implicit success() — added always() to keep ADO's behaviour; use success() && … to only run after success."
+    );
+  }
+
+  return {
+    expression,
+    untranslatable: translator.untranslatable,
+    notes: translator.notes,
+    outputs: translator.outputs,
+  };
+}
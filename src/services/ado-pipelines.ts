@@ -2,7 +2,9 @@
  * ADO Pipelines REST API service.
  * Talks directly to Azure DevOps Build/Release/Pipelines APIs — no Docker required.
  */
+import YAML from "yaml";
 import { getADOPAT } from "./session.js";
+import { resolvePipelineTemplates, type SharedTemplate, type TemplateMode, type TemplateRepository } from "./template-resolver.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -32,8 +34,14 @@ export interface ADOBuildDefinition {
 }
 
 export interface ADOBuildDefinitionDetail extends ADOBuildDefinition {
-  /** Full YAML pipeline content (fetched separately for YAML pipelines) */
+  /** Full YAML pipeline content (fetched separately for YAML pipelines), with templates expanded */
   yamlContent?: string;
+  /** Template files expanded into (or referenced from) yamlContent */
+  templates?: string[];
+  /** Templates kept as references when fetched in "shared" template mode */
+  sharedTemplates?: SharedTemplate[];
+  /** Templates or expressions that could not be expanded */
+  templateWarnings?: string[];
   /** Classic pipeline process steps (for designer pipelines) */
   processSteps?: ADOClassicStep[];
   /** Phases/jobs for classic pipelines */
@@ -106,6 +114,7 @@ export interface ADOReleaseEnvironment {
   conditions: any[];
   preDeployApprovals: any;
   postDeployApprovals: any;
+  preDeploymentGates?: any;
   deployPhases: ADOReleaseDeployPhase[];
   variables: Record<string, { value: string; isSecret?: boolean }>;
   retentionPolicy: any;
@@ -151,6 +160,30 @@ export interface ADOBuildRun {
   requestedFor: { displayName: string };
 }
 
+export interface ADOVariableGroup {
+  id: number;
+  name: string;
+  /** "Vsts" for ordinary groups, "AzureKeyVault" for groups linked to a key vault */
+  type: string;
+  description?: string;
+  /** Secret values are always returned as null */
+  variables: Record<string, { value: string | null; isSecret?: boolean }>;
+}
+
+export interface ADOServiceEndpoint {
+  id: string;
+  name: string;
+  /** e.g. "azurerm", "github", "dockerregistry" */
+  type: string;
+  url?: string;
+  authorization?: {
+    /** e.g. "ServicePrincipal", "WorkloadIdentityFederation", "ManagedServiceIdentity" */
+    scheme: string;
+    parameters?: Record<string, string>;
+  };
+  data?: Record<string, string>;
+}
+
 export interface ADOTaskDefinition {
   id: string;
   name: string;
@@ -187,6 +220,19 @@ async function adoGetOrNull<T>(url: string, sessionId?: string): Promise<T | nul
   return response.json() as Promise<T>;
 }
 
+async function adoSend<T>(method: "POST" | "PUT" | "PATCH", url: string, body: object, sessionId?: string): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { ...authHeader(sessionId), "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`ADO API error ${response.status}: ${text}`);
+  }
+  return response.json() as Promise<T>;
+}
+
 /** Paginated helper that collects all `value` items */
 async function adoGetAll<T>(baseUrl: string, sessionId?: string): Promise<T[]> {
   const items: T[] = [];
@@ -215,11 +261,16 @@ export async function listBuildDefinitions(
   );
 }
 
-/** Get detailed build definition including process, triggers, variables */
+/**
+ * Get detailed build definition including process, triggers, variables.
+ * YAML templates are inlined, or in "shared" mode kept as references where
+ * they can become composite actions / reusable workflows.
+ */
 export async function getBuildDefinition(
   org: string,
   project: string,
   definitionId: number,
+  templateMode: TemplateMode = "inline",
   sessionId?: string
 ): Promise<ADOBuildDefinitionDetail> {
   const def = await adoGet<ADOBuildDefinitionDetail>(
@@ -238,6 +289,10 @@ export async function getBuildDefinition(
     }
   }
 
+  if (def.yamlContent) {
+    await expandTemplates(org, project, def, templateMode, sessionId);
+  }
+
   // For classic (designer) pipelines, extract phases & steps
   if (def.process?.type === 1) {
     const processAny = def.process as any;
@@ -248,6 +303,74 @@ export async function getBuildDefinition(
   return def;
 }
 
+/**
+ * Replace a YAML definition's content with its template-expanded form.
+ * Template files come from the pipeline's repo or from Azure Repos resources;
+ * anything that can't be expanded is left in place and reported.
+ */
+async function expandTemplates(
+  org: string,
+  project: string,
+  def: ADOBuildDefinitionDetail,
+  templateMode: TemplateMode,
+  sessionId?: string
+): Promise<void> {
+  const fetchFile = (repo: TemplateRepository | undefined, path: string): Promise<string> => {
+    if (!repo) {
+      return getFileContent(org, project, def.repository!.id, path, def.repository!.defaultBranch, sessionId);
+    }
+    if (repo.type !== "git") {
+      throw new Error(`Templates in ${repo.type} repository '${repo.name}' can't be read with the ADO token`);
+    }
+    const [repoProject, repoName] = repo.name.includes("/") ? repo.name.split("/", 2) : [project, repo.name];
+    return getFileContent(org, repoProject, repoName, path, repo.ref, sessionId);
+  };
+
+  try {
+    const resolution = await resolvePipelineTemplates(def.yamlContent!, def.process!.yamlFilename!, fetchFile, templateMode);
+    if (resolution.templates.length > 0 || resolution.warnings.length > 0 || def.yamlContent!.includes("${{")) {
+      def.yamlContent = YAML.stringify(resolution.pipeline, { lineWidth: 0 });
+    }
+    def.templates = resolution.templates;
+    def.sharedTemplates = resolution.shared;
+    def.templateWarnings = resolution.warnings;
+  } catch (err: unknown) {
+    // Unparseable YAML — convert the file as is
+    def.templateWarnings = [`Templates were not expanded: ${err instanceof Error ? err.message : String(err)}`];
+  }
+}
+
+/**
+ * Get a build definition exactly as the API returns it. Updates must PUT the
+ * whole document back, so use this rather than the typed view when editing.
+ */
+export async function getRawBuildDefinition(
+  org: string,
+  project: string,
+  definitionId: number,
+  sessionId?: string
+): Promise<any> {
+  return adoGet<any>(
+    `https://dev.azure.com/${org}/${project}/_apis/build/definitions/${definitionId}?api-version=7.0`,
+    sessionId
+  );
+}
+
+/** Replace a build definition (the body must carry the current `revision`) */
+export async function updateBuildDefinition(
+  org: string,
+  project: string,
+  definition: any,
+  sessionId?: string
+): Promise<any> {
+  return adoSend<any>(
+    "PUT",
+    `https://dev.azure.com/${org}/${project}/_apis/build/definitions/${definition.id}?api-version=7.0`,
+    definition,
+    sessionId
+  );
+}
+
 /** Get recent build runs for a definition (for forecasting) */
 export async function getBuildRuns(
   org: string,
@@ -306,6 +429,35 @@ export async function getReleaseRuns(
   return data.value;
 }
 
+// ─── Variable Groups ─────────────────────────────────────────────────────────
+
+/** List the variable groups (library) in a project */
+export async function listVariableGroups(
+  org: string,
+  project: string,
+  sessionId?: string
+): Promise<ADOVariableGroup[]> {
+  return adoGetAll<ADOVariableGroup>(
+    `https://dev.azure.com/${org}/${project}/_apis/distributedtask/variablegroups?api-version=7.0`,
+    sessionId
+  );
+}
+
+// ─── Service Connections ─────────────────────────────────────────────────────
+
+/** List the service connections (endpoints) in a project */
+export async function listServiceEndpoints(
+  org: string,
+  project: string,
+  sessionId?: string
+): Promise<ADOServiceEndpoint[]> {
+  const data = await adoGet<{ value: ADOServiceEndpoint[] }>(
+    `https://dev.azure.com/${org}/${project}/_apis/serviceendpoint/endpoints?api-version=7.0`,
+    sessionId
+  );
+  return data.value ?? [];
+}
+
 // ─── File Content ────────────────────────────────────────────────────────────
 
 /** Get a file from an ADO Git repo (used to fetch azure-pipelines.yml etc.) */
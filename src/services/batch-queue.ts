@@ -0,0 +1,312 @@
+/**
+ * Batch migration queue.
+ *
+ * Repos are enqueued in persistent state, then a per-batch driver keeps at
+ * most `maxConcurrent` GEI migrations in flight, polling each until it
+ * reaches a terminal state.  Because the queue lives in state.json, a batch
+ * interrupted by a server restart can be picked up again with `runBatch`.
+ */
+import { randomUUID } from "node:crypto";
+import * as github from "./github-api.js";
+import * as ado from "./ado-api.js";
+import * as state from "./state.js";
+import { startRepoMigration } from "./repo-migration.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BatchRepo {
+  repoName: string;
+  targetRepoName?: string;
+  adoProject?: string;
+}
+
+export interface InventoryFilter {
+  excludeArchived?: boolean;
+  excludeForks?: boolean;
+  minSizeMB?: number;
+  maxSizeMB?: number;
+  /** Only include repos with activity in the last N days */
+  activeWithinDays?: number;
+  /** Regular expression matched against the repo name */
+  namePattern?: string;
+  /** Restrict an ADO inventory to a single project */
+  adoProject?: string;
+}
+
+export interface BatchSummary {
+  batch: state.BatchRecord;
+  running: boolean;
+  counts: Record<state.QueueItemStatus, number>;
+  items: state.QueueItem[];
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const TERMINAL_SUCCESS = "SUCCEEDED";
+const TERMINAL_FAILURE = ["FAILED", "FAILED_VALIDATION"];
+const POLL_INTERVAL_MS = 10_000;
+/** Consecutive transient status errors before an item is given up on */
+const MAX_POLL_FAILURES = 30;
+
+// ─── Module state ────────────────────────────────────────────────────────────
+
+/** Drivers currently running in this process, keyed by batch ID */
+const runningBatches = new Map<string, Promise<void>>();
+
+/** Consecutive transient status errors, by queue item ID */
+const pollFailures = new Map<string, number>();
+
+// ─── Repo selection ──────────────────────────────────────────────────────────
+
+/**
+ * Select repos to migrate by filtering the detailed inventory of a source org.
+ */
+export async function selectReposFromInventory(
+  source: "github" | "ado",
+  org: string,
+  filter: InventoryFilter,
+  ghesApiUrl?: string,
+  sessionId?: string
+): Promise<BatchRepo[]> {
+  const nameRe = filter.namePattern ? new RegExp(filter.namePattern) : undefined;
+  const cutoff = filter.activeWithinDays !== undefined
+    ? Date.now() - filter.activeWithinDays * 24 * 60 * 60 * 1000
+    : undefined;
+
+  const inSizeRange = (sizeMB: number) =>
+    (filter.minSizeMB === undefined || sizeMB >= filter.minSizeMB) &&
+    (filter.maxSizeMB === undefined || sizeMB <= filter.maxSizeMB);
+
+  if (source === "github") {
+    const repos = await github.getReposDetailed(org, ghesApiUrl, sessionId);
+    return repos
+      .filter(r => !(filter.excludeArchived && r.isArchived))
+      .filter(r => !(filter.excludeForks && r.isFork))
+      .filter(r => inSizeRange(r.diskUsage / 1024))
+      .filter(r => cutoff === undefined || new Date(r.pushedAt).getTime() >= cutoff)
+      .filter(r => !nameRe || nameRe.test(r.name))
+      .map(r => ({ repoName: r.name }));
+  }
+
+  const inventory = await ado.getDetailedInventory(org, sessionId);
+  return inventory.repositories
+    .filter(r => !filter.adoProject || r.project.name === filter.adoProject)
+    .filter(r => !r.isDisabled)
+    .filter(r => inSizeRange((r.size || 0) / (1024 * 1024)))
+    .filter(r => cutoff === undefined || (!!r.lastCommitDate && new Date(r.lastCommitDate).getTime() >= cutoff))
+    .filter(r => !nameRe || nameRe.test(r.name))
+    .map(r => ({ repoName: r.name, adoProject: r.project.name }));
+}
+
+// ─── Queue management ────────────────────────────────────────────────────────
+
+/**
+ * Enqueue a new batch of repos. Nothing is started until `runBatch` is called.
+ */
+export function createBatch(
+  source: "github" | "ado",
+  sourceOrg: string,
+  targetOrg: string,
+  repos: BatchRepo[],
+  maxConcurrent: number,
+  ghesApiUrl?: string,
+  targetHost?: string
+): state.BatchRecord {
+  const now = new Date().toISOString();
+  const batch: state.BatchRecord = {
+    id: `batch-${randomUUID()}`,
+    source,
+    sourceOrg,
+    targetOrg,
+    ...(ghesApiUrl ? { ghesApiUrl } : {}),
+    ...(targetHost ? { targetHost } : {}),
+    maxConcurrent,
+    createdAt: now,
+  };
+
+  const items: state.QueueItem[] = repos.map((r, i) => ({
+    id: `${batch.id}:${i}`,
+    batchId: batch.id,
+    source,
+    sourceOrg,
+    repoName: r.repoName,
+    targetOrg,
+    targetRepoName: r.targetRepoName || r.repoName,
+    ghesApiUrl,
+    targetHost,
+    adoProject: r.adoProject,
+    status: "pending",
+    enqueuedAt: now,
+  }));
+
+  state.addBatch(batch, items);
+  return batch;
+}
+
+/**
+ * Start (or resume) the driver for a batch. Returns the running driver's
+ * promise if one is already active in this process.
+ */
+export function runBatch(batchId: string, sessionId?: string): Promise<void> {
+  const existing = runningBatches.get(batchId);
+  if (existing) return existing;
+
+  const batch = state.getBatch(batchId);
+  if (!batch) {
+    throw new Error(`Batch not found: ${batchId}`);
+  }
+
+  const driver = processBatch(batch, sessionId)
+    .catch(err => {
+      console.error(`Batch ${batchId} driver stopped:`, err);
+    })
+    .finally(() => {
+      runningBatches.delete(batchId);
+    });
+
+  runningBatches.set(batchId, driver);
+  return driver;
+}
+
+/**
+ * Resume every batch that still has pending or in-flight items.
+ * Returns the IDs of the batches that were resumed.
+ */
+export function resumeBatches(sessionId?: string): string[] {
+  const resumed: string[] = [];
+  for (const batch of state.getBatches()) {
+    if (batch.completedAt) continue;
+    runBatch(batch.id, sessionId);
+    resumed.push(batch.id);
+  }
+  return resumed;
+}
+
+export function getBatchSummary(batchId: string): BatchSummary {
+  const batch = state.getBatch(batchId);
+  if (!batch) {
+    throw new Error(`Batch not found: ${batchId}`);
+  }
+
+  const items = state.getQueueItems(batchId);
+  const counts: Record<state.QueueItemStatus, number> = { pending: 0, in_progress: 0, succeeded: 0, failed: 0 };
+  for (const item of items) counts[item.status]++;
+
+  return { batch, running: runningBatches.has(batchId), counts, items };
+}
+
+// ─── Driver ──────────────────────────────────────────────────────────────────
+
+async function processBatch(batch: state.BatchRecord, sessionId?: string): Promise<void> {
+  // Items that were mid-start when the server stopped never got a migration ID — retry them
+  for (const item of state.getQueueItems(batch.id)) {
+    if (item.status === "in_progress" && !item.migrationId) {
+      state.updateQueueItem(item.id, { status: "pending" });
+    }
+  }
+
+  // Starts still running, by item ID. A GHES start generates archives first,
+  // which can take hours, so starts aren't awaited: the loop keeps polling the
+  // other migrations and an item counts as in flight until its start settles.
+  const starting = new Map<string, Promise<void>>();
+
+  while (true) {
+    // Poll in-flight migrations
+    for (const item of state.getQueueItems(batch.id).filter(i => i.status === "in_progress")) {
+      await pollItem(item, sessionId);
+    }
+
+    // Fill free slots from the pending queue
+    const items = state.getQueueItems(batch.id);
+    const inFlight = items.filter(i => i.status === "in_progress").length;
+    const pending = items.filter(i => i.status === "pending" && !starting.has(i.id));
+    for (const item of pending.slice(0, Math.max(0, batch.maxConcurrent - inFlight))) {
+      starting.set(item.id, startItem(item, sessionId).finally(() => starting.delete(item.id)));
+    }
+
+    const remaining = state.getQueueItems(batch.id)
+      .filter(i => i.status === "pending" || i.status === "in_progress");
+    if (remaining.length === 0) break;
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  state.completeBatch(batch.id);
+}
+
+async function startItem(item: state.QueueItem, sessionId?: string): Promise<void> {
+  state.updateQueueItem(item.id, { status: "in_progress", startedAt: new Date().toISOString() });
+  try {
+    const { migrationId } = await startRepoMigration({
+      source: item.source,
+      sourceOrg: item.sourceOrg,
+      repoName: item.repoName,
+      targetOrg: item.targetOrg,
+      targetRepoName: item.targetRepoName,
+      ghesApiUrl: item.ghesApiUrl,
+      targetHost: item.targetHost,
+      adoProject: item.adoProject,
+      batchId: item.batchId,
+    }, sessionId);
+    state.updateQueueItem(item.id, { migrationId, migrationState: "QUEUED" });
+  } catch (err: unknown) {
+    // A failed start only fails this repo — the rest of the wave carries on
+    state.updateQueueItem(item.id, {
+      status: "failed",
+      error: err instanceof Error ? err.message : String(err),
+      completedAt: new Date().toISOString(),
+    });
+  }
+}
+
+async function pollItem(item: state.QueueItem, sessionId?: string): Promise<void> {
+  if (!item.migrationId) return;
+  try {
+    const status = await github.getMigrationStatus(item.migrationId, item.targetHost, sessionId);
+    if (!status) throw new Error(`Migration not found: ${item.migrationId}`);
+    pollFailures.delete(item.id);
+    state.updateMigrationState(item.migrationId, status.state);
+
+    if (status.state === TERMINAL_SUCCESS) {
+      state.updateQueueItem(item.id, {
+        status: "succeeded",
+        migrationState: status.state,
+        completedAt: new Date().toISOString(),
+      });
+    } else if (TERMINAL_FAILURE.includes(status.state)) {
+      state.updateQueueItem(item.id, {
+        status: "failed",
+        migrationState: status.state,
+        error: status.failureReason || `Migration ended in state ${status.state}`,
+        completedAt: new Date().toISOString(),
+      });
+    } else {
+      state.updateQueueItem(item.id, { migrationState: status.state });
+    }
+  } catch (err: unknown) {
+    // Transient status errors keep the item in flight for the next round; anything
+    // else (missing credentials, a revoked PAT, an unknown migration) won't recover
+    const failures = (pollFailures.get(item.id) ?? 0) + 1;
+    if (isTransientError(err) && failures < MAX_POLL_FAILURES) {
+      pollFailures.set(item.id, failures);
+      return;
+    }
+    pollFailures.delete(item.id);
+    const message = err instanceof Error ? err.message : String(err);
+    state.updateQueueItem(item.id, {
+      status: "failed",
+      error: `Could not read migration status: ${message}` +
+        (failures >= MAX_POLL_FAILURES ? ` (${failures} attempts)` : ""),
+      completedAt: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Network failures, rate limits and 5xx responses. Octokit reports a failed
+ * fetch as a RequestError with status 500.
+ */
+function isTransientError(err: unknown): boolean {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === "number" && (status >= 500 || status === 429);
+}
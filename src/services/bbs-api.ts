@@ -0,0 +1,208 @@
+/**
+ * Bitbucket Server / Data Center REST API service.
+ * Inventory (projects, repos, sizes, last commit) and migration archive export.
+ */
+import { getBBSCredentials } from "./session.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BBSProject {
+  id: number;
+  key: string;
+  name: string;
+  description?: string;
+}
+
+export interface BBSRepository {
+  id: number;
+  slug: string;
+  name: string;
+  project: { key: string; name: string };
+  archived?: boolean;
+  links?: { clone?: { href: string; name: string }[] };
+}
+
+export interface DetailedBBSRepository extends BBSRepository {
+  /** Repository size in bytes (git data) */
+  size: number;
+  /** Attachment size in bytes */
+  attachmentsSize: number;
+  lastCommitDate?: string;
+  defaultBranch?: string;
+}
+
+export interface BBSExport {
+  id: number;
+  state: string;   // INITIALISING | IN_PROGRESS | COMPLETED | FAILED | ABORTED ...
+  progress?: { percentage: number; message?: string };
+}
+
+// ─── API Helpers ─────────────────────────────────────────────────────────────
+
+function baseUrl(serverUrl: string): string {
+  return serverUrl.replace(/\/+$/, "");
+}
+
+function authHeader(sessionId?: string): { Authorization: string } {
+  const { username, password } = getBBSCredentials(sessionId);
+  return { Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}` };
+}
+
+async function bbsGet<T>(url: string, sessionId?: string): Promise<T> {
+  const response = await fetch(url, { headers: authHeader(sessionId) });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Bitbucket Server API error ${response.status}: ${text}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+async function bbsPost<T>(url: string, body: object, sessionId?: string): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { ...authHeader(sessionId), "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Bitbucket Server API error ${response.status}: ${text}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/** Paginated helper that follows `nextPageStart` until `isLastPage` */
+async function bbsGetAll<T>(url: string, sessionId?: string): Promise<T[]> {
+  const items: T[] = [];
+  const sep = url.includes("?") ? "&" : "?";
+  let start = 0;
+  while (true) {
+    const page: any = await bbsGet(`${url}${sep}limit=100&start=${start}`, sessionId);
+    items.push(...(page.values ?? []));
+    if (page.isLastPage || page.nextPageStart === undefined) break;
+    start = page.nextPageStart;
+  }
+  return items;
+}
+
+// ─── Inventory ───────────────────────────────────────────────────────────────
+
+export async function getProjects(serverUrl: string, sessionId?: string): Promise<BBSProject[]> {
+  return bbsGetAll<BBSProject>(`${baseUrl(serverUrl)}/rest/api/1.0/projects`, sessionId);
+}
+
+export async function getRepos(serverUrl: string, projectKey?: string, sessionId?: string): Promise<BBSRepository[]> {
+  const url = projectKey
+    ? `${baseUrl(serverUrl)}/rest/api/1.0/projects/${encodeURIComponent(projectKey)}/repos`
+    : `${baseUrl(serverUrl)}/rest/api/1.0/repos`;
+  return bbsGetAll<BBSRepository>(url, sessionId);
+}
+
+export async function getReposDetailed(serverUrl: string, projectKey?: string, sessionId?: string): Promise<DetailedBBSRepository[]> {
+  const repos = await getRepos(serverUrl, projectKey, sessionId);
+  const detailed: DetailedBBSRepository[] = [];
+
+  for (const repo of repos) {
+    const repoPath = `projects/${encodeURIComponent(repo.project.key)}/repos/${encodeURIComponent(repo.slug)}`;
+    let size = 0;
+    let attachmentsSize = 0;
+    let lastCommitDate: string | undefined;
+    let defaultBranch: string | undefined;
+
+    try {
+      // Sizes live outside /rest — this is the endpoint the repo settings page uses
+      const sizes: any = await bbsGet(`${baseUrl(serverUrl)}/${repoPath}/sizes`, sessionId);
+      size = sizes.repository ?? 0;
+      attachmentsSize = sizes.attachments ?? 0;
+    } catch {
+      // Size unavailable — leave as 0
+    }
+
+    try {
+      const commits: any = await bbsGet(`${baseUrl(serverUrl)}/rest/api/1.0/${repoPath}/commits?limit=1`, sessionId);
+      const latest = commits.values?.[0];
+      if (latest?.committerTimestamp) {
+        lastCommitDate = new Date(latest.committerTimestamp).toISOString();
+      }
+    } catch {
+      // Empty repos have no commits
+    }
+
+    try {
+      const branch: any = await bbsGet(`${baseUrl(serverUrl)}/rest/api/1.0/${repoPath}/default-branch`, sessionId);
+      defaultBranch = branch.displayId;
+    } catch {
+      // No default branch on empty repos
+    }
+
+    detailed.push({ ...repo, size, attachmentsSize, lastCommitDate, defaultBranch });
+  }
+
+  return detailed;
+}
+
+export async function getDetailedInventory(serverUrl: string, sessionId?: string): Promise<{
+  projects: BBSProject[];
+  repositories: DetailedBBSRepository[];
+  summary: {
+    totalProjects: number;
+    totalRepos: number;
+    totalSizeMB: number;
+    reposByProject: Record<string, number>;
+  };
+}> {
+  const projects = await getProjects(serverUrl, sessionId);
+  const repositories: DetailedBBSRepository[] = [];
+  const reposByProject: Record<string, number> = {};
+
+  for (const project of projects) {
+    const projectRepos = await getReposDetailed(serverUrl, project.key, sessionId);
+    repositories.push(...projectRepos);
+    reposByProject[project.key] = projectRepos.length;
+  }
+
+  const totalSizeMB = repositories.reduce((sum, r) => sum + r.size, 0) / (1024 * 1024);
+
+  return {
+    projects,
+    repositories,
+    summary: {
+      totalProjects: projects.length,
+      totalRepos: repositories.length,
+      totalSizeMB: Math.round(totalSizeMB * 100) / 100,
+      reposByProject
+    }
+  };
+}
+
+// ─── Migration archive export ────────────────────────────────────────────────
+
+/**
+ * Trigger a migration export for a single repository.
+ * The archive is written to the Bitbucket shared home on the server.
+ */
+export async function startExport(
+  serverUrl: string,
+  projectKey: string,
+  repoSlug: string,
+  sessionId?: string
+): Promise<BBSExport> {
+  return bbsPost<BBSExport>(
+    `${baseUrl(serverUrl)}/rest/api/1.0/migration/exports`,
+    { repositoriesRequest: { includes: [{ projectKey, slug: repoSlug }] } },
+    sessionId
+  );
+}
+
+export async function getExport(serverUrl: string, exportId: number, sessionId?: string): Promise<BBSExport> {
+  return bbsGet<BBSExport>(`${baseUrl(serverUrl)}/rest/api/1.0/migration/exports/${exportId}`, sessionId);
+}
+
+/** Location of a finished export archive, relative to $BITBUCKET_SHARED_HOME */
+export function exportArchivePath(exportId: number): string {
+  return `data/migration/export/Bitbucket_export_${exportId}.tar`;
+}
+
+/** Repository URL GEI expects as `sourceRepositoryUrl` for Bitbucket Server migrations */
+export function repoUrl(serverUrl: string, projectKey: string, repoSlug: string): string {
+  return `${baseUrl(serverUrl)}/projects/${encodeURIComponent(projectKey)}/repos/${encodeURIComponent(repoSlug)}/browse`;
+}
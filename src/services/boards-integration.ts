@@ -0,0 +1,105 @@
+/**
+ * Azure Boards ↔ GitHub integration for repos migrated out of ADO Repos —
+ * the equivalent of `gh ado2gh integrate-boards`.  Reuses the project's
+ * Boards GitHub connection when one exists, otherwise creates the service
+ * endpoint and connection, then adds the migrated repos to it.
+ */
+import * as ado from "./ado-api.js";
+import * as github from "./github-api.js";
+import * as state from "./state.js";
+import { getGitHubTargetPAT } from "./session.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BoardsIntegrationResult {
+  connectionCreated: boolean;
+  serviceEndpointId: string;
+  added: string[];
+  alreadyConnected: string[];
+  failed: { repo: string; error: string }[];
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * GitHub repos migrated from an ADO project, taken from the migration history.
+ */
+export function migratedReposForProject(adoOrg: string, adoProject: string, targetOrg?: string): string[] {
+  const repos = state.getMigrationHistory()
+    .filter(m =>
+      m.source === "ado" &&
+      m.state === "SUCCEEDED" &&
+      m.sourceOrg === adoOrg &&
+      m.adoProject === adoProject &&
+      (!targetOrg || m.targetOrg === targetOrg)
+    )
+    .map(m => `${m.targetOrg}/${m.repoName}`);
+  return [...new Set(repos)];
+}
+
+/**
+ * Connect `repos` (owner/repo) to Azure Boards in an ADO project.
+ */
+export async function integrateBoards(
+  adoOrg: string,
+  adoProject: string,
+  repos: string[],
+  sessionId?: string
+): Promise<BoardsIntegrationResult> {
+  const projectId = await ado.getProjectId(adoOrg, adoProject, sessionId);
+  const connection = await ado.getBoardsGithubConnection(adoOrg, adoProject, sessionId);
+
+  let serviceEndpointId: string;
+  if (connection) {
+    serviceEndpointId = connection.serviceEndpointId;
+  } else {
+    const handle = await github.getViewerLogin(undefined, sessionId);
+    serviceEndpointId = await ado.createBoardsGithubEndpoint(
+      adoOrg,
+      projectId,
+      getGitHubTargetPAT(sessionId),
+      handle,
+      `GitHub Boards ${Date.now()}`,
+      sessionId
+    );
+  }
+
+  const result: BoardsIntegrationResult = {
+    connectionCreated: !connection,
+    serviceEndpointId,
+    added: [],
+    alreadyConnected: [],
+    failed: [],
+  };
+
+  const existingIds = new Set(connection?.repoIds ?? []);
+  const newIds: string[] = [];
+  for (const fullName of repos) {
+    const [owner, repo] = fullName.split("/");
+    try {
+      const repoId = await ado.getBoardsGithubRepoId(adoOrg, adoProject, projectId, serviceEndpointId, owner, repo, sessionId);
+      if (existingIds.has(repoId) || newIds.includes(repoId)) {
+        result.alreadyConnected.push(fullName);
+      } else {
+        newIds.push(repoId);
+        result.added.push(fullName);
+      }
+    } catch (err: unknown) {
+      result.failed.push({ repo: fullName, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  if (newIds.length > 0) {
+    // The save provider replaces the connection's repo list, so send the full set
+    await ado.saveBoardsGithubConnection(
+      adoOrg,
+      adoProject,
+      serviceEndpointId,
+      [...existingIds, ...newIds],
+      connection ? { id: connection.id, name: connection.name } : undefined,
+      sessionId
+    );
+  }
+
+  return result;
+}
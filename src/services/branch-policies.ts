@@ -0,0 +1,373 @@
+/**
+ * Branch policy migration — Azure Repos branch policies → GitHub repository
+ * rulesets.  Policies are grouped by the branch pattern they apply to and
+ * each group becomes one ruleset.  Build-validation policies become required
+ * status checks named after the jobs the pipeline converter generates for
+ * the validating pipeline.  Anything without a ruleset equivalent is
+ * reported rather than dropped.
+ */
+import YAML from "yaml";
+import * as ado from "./ado-api.js";
+import * as adoPipelines from "./ado-pipelines.js";
+import * as converter from "./pipeline-converter.js";
+import { getGitHubTargetPAT } from "./session.js";
+import { resolveTargetHost, targetApiUrl } from "./github-api.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RulesetPlan {
+  name: string;
+  /** `ref_name.include` patterns for the ruleset */
+  include: string[];
+  /** Ruleset body as sent to the rulesets API */
+  ruleset: Record<string, unknown>;
+  /** ADO policies folded into this ruleset */
+  sourcePolicies: string[];
+}
+
+export interface StatusCheckMapping {
+  policyId: number;
+  buildDefinitionId: number;
+  pipelineName?: string;
+  workflowFile?: string;
+  contexts: string[];
+  warnings: string[];
+}
+
+export interface UnmappedPolicy {
+  policyId: number;
+  type: string;
+  scope: string;
+  reason: string;
+}
+
+export interface BranchPolicyMigrationResult {
+  source: string;
+  target: string;
+  dryRun: boolean;
+  rulesets: (RulesetPlan & { status: "planned" | "created" | "updated" | "failed"; id?: number; error?: string })[];
+  statusChecks: StatusCheckMapping[];
+  unmapped: UnmappedPolicy[];
+}
+
+/** Rules accumulated for one branch pattern before rendering the ruleset */
+interface RuleGroup {
+  include: string;
+  sourcePolicies: string[];
+  pullRequest: {
+    required_approving_review_count: number;
+    dismiss_stale_reviews_on_push: boolean;
+    require_code_owner_review: boolean;
+    require_last_push_approval: boolean;
+    required_review_thread_resolution: boolean;
+    allowed_merge_methods?: string[];
+  };
+  contexts: Set<string>;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** ADO policy type IDs */
+const POLICY_TYPES = {
+  minimumReviewers: "fa4e907d-c16b-4a4c-9dfa-4906e5d171dd",
+  build: "0609b952-1397-4640-95ec-e00a01b2c241",
+  commentRequirements: "c6a1889d-b943-4856-b76f-9e46bb6b0df2",
+  mergeStrategy: "fa4e907d-c16b-4a4c-9dfa-4916e5d171ab",
+  status: "cbdc66da-9728-4af8-aada-9a5a32e4a226",
+  requiredReviewers: "fd2167ab-b0be-447a-8ec8-39368250530e",
+  workItemLinking: "40e92b44-2fe1-4dd6-b3d8-74a9c21d0c6e",
+  fileSize: "2e26e725-8201-4edd-8bf5-978563c34a80",
+};
+
+/** Why the policy types with no ruleset equivalent can't be carried over */
+const UNMAPPED_REASONS: Record<string, string> = {
+  [POLICY_TYPES.requiredReviewers]:
+    "Rulesets can't require specific reviewers per path — add a CODEOWNERS file and enable require_code_owner_review",
+  [POLICY_TYPES.workItemLinking]:
+    "GitHub has no linked-work-item requirement — enforce AB#<id> references with a workflow check if needed",
+  [POLICY_TYPES.fileSize]:
+    "File size limits are push rules, which apply only to private and internal repos in organization rulesets",
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+async function ghRest(method: "GET" | "POST" | "PUT", url: string, token: string, body?: object): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: "application/vnd.github+json",
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    ...(body ? { body: JSON.stringify(body) } : {}),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`GitHub REST API error: ${response.status} ${text}`);
+  }
+  return response.json();
+}
+
+/** Translate an ADO policy scope entry to a ruleset ref pattern */
+function scopePattern(scope: { refName?: string; matchKind?: string }): string {
+  if (scope.matchKind === "DefaultBranch") return "~DEFAULT_BRANCH";
+  if (!scope.refName) return "~ALL";
+  if (scope.matchKind === "Prefix") return `${scope.refName.replace(/\/+$/, "")}/**`;
+  return scope.refName;
+}
+
+function policyLabel(policy: ado.ADOPolicyConfiguration): string {
+  return `${policy.type.displayName} (#${policy.id})`;
+}
+
+/**
+ * Check names the converted workflow's jobs report under — the job `name`
+ * when set, otherwise the job id.
+ */
+async function statusCheckContexts(
+  adoOrg: string,
+  adoProject: string,
+  policy: ado.ADOPolicyConfiguration,
+  sessionId?: string
+): Promise<StatusCheckMapping> {
+  const buildDefinitionId: number = policy.settings.buildDefinitionId;
+  const mapping: StatusCheckMapping = { policyId: policy.id, buildDefinitionId, contexts: [], warnings: [] };
+
+  const def = await adoPipelines.getBuildDefinition(adoOrg, adoProject, buildDefinitionId, "inline", sessionId);
+  const conversion = converter.convertBuildPipeline(def);
+  mapping.pipelineName = def.name;
+  mapping.workflowFile = `.github/workflows/${conversion.suggestedFilename}`;
+
+  let workflow: any;
+  try {
+    workflow = YAML.parse(conversion.workflowYaml);
+  } catch {
+    workflow = null;
+  }
+  const jobs: Record<string, any> = workflow?.jobs ?? {};
+  mapping.contexts = Object.entries(jobs).map(([id, job]) => String(job?.name ?? id));
+
+  if (mapping.contexts.length === 0) {
+    mapping.warnings.push(`Could not read job names from the converted '${def.name}' workflow — add its checks manually`);
+  }
+  if (!workflow?.on || (typeof workflow.on === "object" && !("pull_request" in workflow.on))) {
+    mapping.warnings.push(
+      `Build validation queued '${def.name}' on PRs; add a pull_request trigger to ${mapping.workflowFile} so the required checks run`
+    );
+  }
+  if (policy.settings.filenamePatterns?.length) {
+    mapping.warnings.push(
+      `Path filters (${policy.settings.filenamePatterns.join(", ")}) can't scope a required check — a skipped workflow will block merging`
+    );
+  }
+  return mapping;
+}
+
+function renderRuleset(group: RuleGroup): RulesetPlan {
+  const rules: Record<string, unknown>[] = [{ type: "pull_request", parameters: group.pullRequest }];
+  if (group.contexts.size > 0) {
+    rules.push({
+      type: "required_status_checks",
+      parameters: {
+        strict_required_status_checks_policy: false,
+        required_status_checks: [...group.contexts].sort().map(context => ({ context })),
+      },
+    });
+  }
+
+  const name = `ado-policies: ${group.include}`;
+  return {
+    name,
+    include: [group.include],
+    sourcePolicies: group.sourcePolicies,
+    ruleset: {
+      name,
+      target: "branch",
+      enforcement: "active",
+      conditions: { ref_name: { include: [group.include], exclude: [] } },
+      rules,
+    },
+  };
+}
+
+// ─── Translation ─────────────────────────────────────────────────────────────
+
+/**
+ * Read an ADO repo's branch policies and translate them into ruleset bodies,
+ * without touching GitHub.
+ */
+export async function planBranchPolicies(
+  adoOrg: string,
+  adoProject: string,
+  adoRepo: string,
+  sessionId?: string
+): Promise<{ rulesets: RulesetPlan[]; statusChecks: StatusCheckMapping[]; unmapped: UnmappedPolicy[] }> {
+  const { repositoryId, policies } = await ado.getRepoPolicyConfigurations(adoOrg, adoProject, adoRepo, sessionId);
+  const groups = new Map<string, RuleGroup>();
+  const statusChecks: StatusCheckMapping[] = [];
+  const unmapped: UnmappedPolicy[] = [];
+  // Several build policies can validate with the same pipeline
+  const checksByDefinition = new Map<number, StatusCheckMapping>();
+
+  const groupFor = (include: string): RuleGroup => {
+    if (!groups.has(include)) {
+      groups.set(include, {
+        include,
+        sourcePolicies: [],
+        pullRequest: {
+          required_approving_review_count: 0,
+          dismiss_stale_reviews_on_push: false,
+          require_code_owner_review: false,
+          require_last_push_approval: false,
+          required_review_thread_resolution: false,
+        },
+        contexts: new Set(),
+      });
+    }
+    return groups.get(include)!;
+  };
+
+  for (const policy of policies) {
+    const scopes = (policy.settings.scope ?? [{ repositoryId: null }])
+      .filter(s => !s.repositoryId || s.repositoryId === repositoryId);
+    if (!policy.isEnabled || scopes.length === 0) continue;
+
+    const patterns = [...new Set(scopes.map(scopePattern))];
+    const report = (reason: string) => {
+      for (const scope of patterns) {
+        unmapped.push({ policyId: policy.id, type: policy.type.displayName, scope, reason });
+      }
+    };
+
+    if (!policy.isBlocking) {
+      report("Optional (non-blocking) policy — rulesets only enforce required rules");
+      continue;
+    }
+
+    const typeId = policy.type.id;
+    let checks: StatusCheckMapping | undefined;
+    if (typeId === POLICY_TYPES.build) {
+      const definitionId: number = policy.settings.buildDefinitionId;
+      checks = checksByDefinition.get(definitionId);
+      if (!checks) {
+        try {
+          checks = await statusCheckContexts(adoOrg, adoProject, policy, sessionId);
+        } catch (err: unknown) {
+          report(`Could not convert build definition ${definitionId}: ${err instanceof Error ? err.message : String(err)}`);
+          continue;
+        }
+        checksByDefinition.set(definitionId, checks);
+        statusChecks.push(checks);
+      }
+    } else if (
+      typeId !== POLICY_TYPES.minimumReviewers &&
+      typeId !== POLICY_TYPES.commentRequirements &&
+      typeId !== POLICY_TYPES.mergeStrategy &&
+      typeId !== POLICY_TYPES.status
+    ) {
+      report(UNMAPPED_REASONS[typeId] ?? "No GitHub ruleset equivalent");
+      continue;
+    }
+
+    for (const pattern of patterns) {
+      const group = groupFor(pattern);
+      const pr = group.pullRequest;
+      const settings = policy.settings;
+      group.sourcePolicies.push(policyLabel(policy));
+
+      switch (typeId) {
+        case POLICY_TYPES.minimumReviewers:
+          pr.required_approving_review_count = Math.max(pr.required_approving_review_count, settings.minimumApproverCount ?? 1);
+          pr.dismiss_stale_reviews_on_push ||= !!settings.resetOnSourcePush;
+          pr.require_last_push_approval ||= !!settings.blockLastPusherVote || !!settings.requireVoteOnLastIteration;
+          if (settings.creatorVoteCounts) {
+            unmapped.push({
+              policyId: policy.id,
+              type: policy.type.displayName,
+              scope: pattern,
+              reason: "'Allow requestors to approve their own changes' has no equivalent — GitHub never counts the author's approval",
+            });
+          }
+          break;
+        case POLICY_TYPES.commentRequirements:
+          pr.required_review_thread_resolution = true;
+          break;
+        case POLICY_TYPES.mergeStrategy: {
+          const methods: string[] = [];
+          if (settings.allowNoFastForward) methods.push("merge");
+          if (settings.allowSquash || settings.useSquashMerge) methods.push("squash");
+          if (settings.allowRebase || settings.allowRebaseMerge) methods.push("rebase");
+          if (methods.length > 0) pr.allowed_merge_methods = methods;
+          if (settings.allowRebaseMerge && !settings.allowRebase) {
+            unmapped.push({
+              policyId: policy.id,
+              type: policy.type.displayName,
+              scope: pattern,
+              reason: "Semi-linear merge (rebase then merge commit) is mapped to rebase merging",
+            });
+          }
+          break;
+        }
+        case POLICY_TYPES.status:
+          // The external service has to start posting this status to GitHub
+          group.contexts.add(settings.statusGenre ? `${settings.statusGenre}/${settings.statusName}` : settings.statusName);
+          break;
+        case POLICY_TYPES.build:
+          for (const context of checks!.contexts) group.contexts.add(context);
+          break;
+      }
+    }
+  }
+
+  return { rulesets: [...groups.values()].map(renderRuleset), statusChecks, unmapped };
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Translate an ADO repo's branch policies into rulesets on the migrated
+ * GitHub repo. Rulesets are matched by name, so re-running updates them.
+ */
+export async function migrateBranchPolicies(
+  adoOrg: string,
+  adoProject: string,
+  adoRepo: string,
+  targetOrg: string,
+  targetRepo: string,
+  dryRun = false,
+  targetHost?: string,
+  sessionId?: string
+): Promise<BranchPolicyMigrationResult> {
+  const plan = await planBranchPolicies(adoOrg, adoProject, adoRepo, sessionId);
+  const result: BranchPolicyMigrationResult = {
+    source: `${adoOrg}/${adoProject}/${adoRepo}`,
+    target: `${targetOrg}/${targetRepo}`,
+    dryRun,
+    rulesets: [],
+    statusChecks: plan.statusChecks,
+    unmapped: plan.unmapped,
+  };
+
+  if (dryRun) {
+    result.rulesets = plan.rulesets.map(r => ({ ...r, status: "planned" as const }));
+    return result;
+  }
+
+  const token = getGitHubTargetPAT(sessionId);
+  const rulesetsUrl = `${targetApiUrl(resolveTargetHost(targetHost, sessionId))}/repos/${targetOrg}/${targetRepo}/rulesets`;
+  const existing: { id: number; name: string }[] = await ghRest("GET", `${rulesetsUrl}?includes_parents=false&per_page=100`, token);
+
+  for (const r of plan.rulesets) {
+    const match = existing.find(e => e.name === r.name);
+    try {
+      const saved = match
+        ? await ghRest("PUT", `${rulesetsUrl}/${match.id}`, token, r.ruleset)
+        : await ghRest("POST", rulesetsUrl, token, r.ruleset);
+      result.rulesets.push({ ...r, status: match ? "updated" : "created", id: saved.id });
+    } catch (err: unknown) {
+      result.rulesets.push({ ...r, status: "failed", error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return result;
+}
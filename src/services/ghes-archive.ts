@@ -0,0 +1,169 @@
+/**
+ * GitHub Enterprise Server archive generation.
+ *
+ * GEI cannot pull directly from GHES, so — like `gh gei migrate-repo
+ * --ghes-api-url` — we export a git archive and a metadata archive through
+ * the GHES organization migrations REST API.  With blob storage configured on
+ * the instance (GHES 3.8+), the archive download URLs point at blob storage
+ * and can be handed straight to `startRepositoryMigration`.
+ */
+import { getGitHubSourcePAT } from "./session.js";
+import type { MigrationArchiveUrls } from "./github-api.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface OrgMigration {
+  id: number;
+  state: string;   // pending | exporting | exported | failed
+}
+
+export interface GhesArchives extends MigrationArchiveUrls {
+  /** Org migration that holds the source lock (when lockSource was requested) */
+  lockMigrationId?: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const POLL_INTERVAL_MS = 10_000;
+const EXPORT_TIMEOUT_MS = 6 * 60 * 60 * 1000; // large repos can take hours to export
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function apiRoot(apiUrl: string): string {
+  return apiUrl.replace(/\/+$/, "");
+}
+
+async function ghesRequest(url: string, token: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(url, {
+    ...init,
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: "application/vnd.github.v3+json",
+      "Content-Type": "application/json",
+      ...(init.headers as Record<string, string> | undefined),
+    },
+  });
+}
+
+async function startOrgMigration(
+  apiUrl: string,
+  org: string,
+  repo: string,
+  kind: "git" | "metadata",
+  lock: boolean,
+  token: string
+): Promise<OrgMigration> {
+  const response = await ghesRequest(`${apiRoot(apiUrl)}/orgs/${org}/migrations`, token, {
+    method: "POST",
+    body: JSON.stringify({
+      repositories: [repo],
+      lock_repositories: lock,
+      exclude_git_data: kind === "metadata",
+      exclude_metadata: kind === "git",
+      exclude_releases: false,
+      exclude_owner_projects: true,
+    }),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`GHES migrations API error ${response.status}: ${text}`);
+  }
+  return response.json() as Promise<OrgMigration>;
+}
+
+async function getOrgMigration(apiUrl: string, org: string, id: number, token: string): Promise<OrgMigration> {
+  const response = await ghesRequest(`${apiRoot(apiUrl)}/orgs/${org}/migrations/${id}`, token);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`GHES migrations API error ${response.status}: ${text}`);
+  }
+  return response.json() as Promise<OrgMigration>;
+}
+
+/** The archive endpoint redirects to the storage URL — capture it rather than downloading */
+async function getArchiveUrl(apiUrl: string, org: string, id: number, token: string): Promise<string> {
+  const response = await ghesRequest(`${apiRoot(apiUrl)}/orgs/${org}/migrations/${id}/archive`, token, {
+    redirect: "manual",
+  });
+  const location = response.headers.get("location");
+  if (response.status >= 300 && response.status < 400 && location) {
+    return location;
+  }
+  throw new Error(
+    `GHES did not return an archive URL for migration ${id} (status ${response.status}). ` +
+    "Configure blob storage for migrations on the GHES instance (3.8+)."
+  );
+}
+
+async function waitForExport(apiUrl: string, org: string, id: number, token: string): Promise<void> {
+  const startTime = Date.now();
+  while (Date.now() - startTime < EXPORT_TIMEOUT_MS) {
+    const migration = await getOrgMigration(apiUrl, org, id, token);
+    if (migration.state === "exported") return;
+    if (migration.state === "failed") {
+      throw new Error(`GHES archive export ${id} failed`);
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  throw new Error(`GHES archive export ${id} timed out`);
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Generate git + metadata archives for a GHES repository and return the
+ * storage URLs GEI should import from.  With `lockSource` the metadata export
+ * locks the repository, matching `gh gei migrate-repo --lock-source-repo`.
+ */
+export async function generateArchives(
+  apiUrl: string,
+  org: string,
+  repo: string,
+  lockSource: boolean = false,
+  sessionId?: string
+): Promise<GhesArchives> {
+  const token = getGitHubSourcePAT(sessionId);
+
+  const [gitExport, metadataExport] = await Promise.all([
+    startOrgMigration(apiUrl, org, repo, "git", false, token),
+    startOrgMigration(apiUrl, org, repo, "metadata", lockSource, token),
+  ]);
+
+  await Promise.all([
+    waitForExport(apiUrl, org, gitExport.id, token),
+    waitForExport(apiUrl, org, metadataExport.id, token),
+  ]);
+
+  const [gitArchiveUrl, metadataArchiveUrl] = await Promise.all([
+    getArchiveUrl(apiUrl, org, gitExport.id, token),
+    getArchiveUrl(apiUrl, org, metadataExport.id, token),
+  ]);
+
+  return {
+    gitArchiveUrl,
+    metadataArchiveUrl,
+    ...(lockSource ? { lockMigrationId: metadataExport.id } : {}),
+  };
+}
+
+/**
+ * Unlock a repository locked by an org migration export.
+ */
+export async function unlockRepo(
+  apiUrl: string,
+  org: string,
+  migrationId: number,
+  repo: string,
+  sessionId?: string
+): Promise<void> {
+  const token = getGitHubSourcePAT(sessionId);
+  const response = await ghesRequest(
+    `${apiRoot(apiUrl)}/orgs/${org}/migrations/${migrationId}/repos/${repo}/lock`,
+    token,
+    { method: "DELETE" }
+  );
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`GHES migrations API error ${response.status}: ${text}`);
+  }
+}
@@ -1,5 +1,5 @@
 import { graphql } from "@octokit/graphql";
-import { getGitHubSourcePAT, getGitHubTargetPAT } from "./session.js";
+import { getGitHubSourcePAT, getGitHubTargetPAT, getGitHubTargetHost } from "./session.js";
 
 interface Repository {
   name: string;
@@ -24,11 +24,93 @@ interface Migration {
   repositoryName: string;
   createdAt: string;
   failureReason?: string;
+  migrationLogUrl?: string | null;
 }
 
-export async function getRepos(org: string, sessionId?: string): Promise<Repository[]> {
+/** Public GitHub REST/GraphQL API root */
+export const GITHUB_API_URL = "https://api.github.com";
+
+/** Default migration target host */
+export const GITHUB_HOST = "github.com";
+
+/**
+ * Resolve the migration target host: an explicit per-call value wins, then the
+ * session/env setting, then github.com.  Accepts bare hosts or URLs
+ * (e.g. "octocorp.ghe.com" or "https://octocorp.ghe.com/").
+ */
+export function resolveTargetHost(targetHost?: string, sessionId?: string): string {
+  const host = targetHost || getGitHubTargetHost(sessionId) || GITHUB_HOST;
+  return host.trim().replace(/^https?:\/\//i, "").replace(/\/.*$/, "").toLowerCase();
+}
+
+/**
+ * API root for a target host. GHE.com data-residency tenants serve their API
+ * from api.<tenant>.ghe.com rather than under /api/v3.
+ */
+export function targetApiUrl(host: string): string {
+  return host === GITHUB_HOST ? GITHUB_API_URL : `https://api.${host}`;
+}
+
+/** Web URL for a target host, used to build repo URLs */
+export function targetWebUrl(host: string): string {
+  return `https://${host}`;
+}
+
+/** Issuer of the Actions OIDC tokens minted on a target host */
+export function targetOidcIssuer(host: string): string {
+  return host === GITHUB_HOST ? "https://token.actions.githubusercontent.com" : `https://token.actions.${host}`;
+}
+
+/**
+ * Derive the web URL of a GitHub Enterprise Server instance from its API URL
+ * (e.g. https://ghes.example.com/api/v3 → https://ghes.example.com).
+ */
+export function ghesWebUrl(apiUrl: string): string {
+  return apiUrl.replace(/\/+$/, "").replace(/\/api\/v3$/, "");
+}
+
+export type MigrationSourceType = "GITHUB_ARCHIVE" | "AZURE_DEVOPS" | "BITBUCKET_SERVER";
+
+/** Pre-uploaded archives for sources GEI cannot pull from directly */
+export interface MigrationArchiveUrls {
+  gitArchiveUrl: string;
+  metadataArchiveUrl: string;
+}
+
+/** Object counts used to validate a migrated repository */
+export interface RepoStats {
+  branches: number;
+  tags: number;
+  defaultBranch: string | null;
+  defaultBranchCommits: number;
+  pullRequests: number;
+  issues: number;
+  releases: number;
+}
+
+export interface Mannequin {
+  id: string;
+  login: string;
+  email: string | null;
+  createdAt: string;
+  claimant: { login: string } | null;
+}
+
+/** GraphQL client (and token) for the migration target */
+function targetGraphql(targetHost?: string, sessionId?: string) {
+  const token = getGitHubTargetPAT(sessionId);
+  return {
+    token,
+    gql: graphql.defaults({
+      baseUrl: targetApiUrl(resolveTargetHost(targetHost, sessionId)),
+      headers: { authorization: `token ${token}` },
+    }),
+  };
+}
+
+export async function getRepos(org: string, apiUrl?: string, sessionId?: string): Promise<Repository[]> {
   const token = getGitHubSourcePAT(sessionId);
-  const gql = graphql.defaults({ headers: { authorization: `token ${token}` } });
+  const gql = graphql.defaults({ baseUrl: apiUrl || GITHUB_API_URL, headers: { authorization: `token ${token}` } });
   
   const repos: Repository[] = [];
   let cursor: string | null = null;
@@ -62,9 +144,9 @@ export async function getRepos(org: string, sessionId?: string): Promise<Reposit
   return repos;
 }
 
-export async function getReposDetailed(org: string, sessionId?: string): Promise<DetailedRepository[]> {
+export async function getReposDetailed(org: string, apiUrl?: string, sessionId?: string): Promise<DetailedRepository[]> {
   const token = getGitHubSourcePAT(sessionId);
-  const gql = graphql.defaults({ headers: { authorization: `token ${token}` } });
+  const gql = graphql.defaults({ baseUrl: apiUrl || GITHUB_API_URL, headers: { authorization: `token ${token}` } });
   
   const repos: DetailedRepository[] = [];
   let cursor: string | null = null;
@@ -105,11 +187,11 @@ export async function getReposDetailed(org: string, sessionId?: string): Promise
 export async function createMigrationSource(
   targetOrgId: string,
   sourceOrgUrl: string,
-  type: "GITHUB_ARCHIVE" | "AZURE_DEVOPS",
+  type: MigrationSourceType,
+  targetHost?: string,
   sessionId?: string
 ): Promise<string> {
-  const token = getGitHubTargetPAT(sessionId);
-  const gql = graphql.defaults({ headers: { authorization: `token ${token}` } });
+  const { gql } = targetGraphql(targetHost, sessionId);
   
   const response: any = await gql(`
     mutation($ownerId: ID!, $name: String!, $sourceUrl: String!, $sourceType: MigrationSourceType!) {
@@ -132,9 +214,8 @@ export async function createMigrationSource(
   return response.createMigrationSource.migrationSource.id;
 }
 
-export async function getOrganizationId(org: string, sessionId?: string): Promise<string> {
-  const token = getGitHubTargetPAT(sessionId);
-  const gql = graphql.defaults({ headers: { authorization: `token ${token}` } });
+export async function getOrganizationId(org: string, targetHost?: string, sessionId?: string): Promise<string> {
+  const { gql } = targetGraphql(targetHost, sessionId);
   
   const response: any = await gql(`
     query($org: String!) {
@@ -152,13 +233,15 @@ export async function startRepositoryMigration(
   sourceRepoUrl: string,
   targetRepoName: string,
   accessToken: string,
+  archiveUrls?: MigrationArchiveUrls,
+  lockSource: boolean = false,
+  targetHost?: string,
   sessionId?: string
 ): Promise<string> {
-  const token = getGitHubTargetPAT(sessionId);
-  const gql = graphql.defaults({ headers: { authorization: `token ${token}` } });
+  const { token, gql } = targetGraphql(targetHost, sessionId);
   
   const response: any = await gql(`
-    mutation($sourceId: ID!, $ownerId: ID!, $sourceRepoUrl: URI!, $repoName: String!, $accessToken: String!, $githubPat: String!) {
+    mutation($sourceId: ID!, $ownerId: ID!, $sourceRepoUrl: URI!, $repoName: String!, $accessToken: String!, $githubPat: String!, $gitArchiveUrl: String, $metadataArchiveUrl: String, $lockSource: Boolean) {
       startRepositoryMigration(input: {
         sourceId: $sourceId
         ownerId: $ownerId
@@ -166,6 +249,9 @@ export async function startRepositoryMigration(
         repositoryName: $repoName
         accessToken: $accessToken
         githubPat: $githubPat
+        gitArchiveUrl: $gitArchiveUrl
+        metadataArchiveUrl: $metadataArchiveUrl
+        lockSource: $lockSource
         continueOnError: true
       }) {
         repositoryMigration { id state }
@@ -177,15 +263,17 @@ export async function startRepositoryMigration(
     sourceRepoUrl,
     repoName: targetRepoName,
     accessToken,
-    githubPat: token
+    githubPat: token,
+    gitArchiveUrl: archiveUrls?.gitArchiveUrl,
+    metadataArchiveUrl: archiveUrls?.metadataArchiveUrl,
+    lockSource
   });
   
   return response.startRepositoryMigration.repositoryMigration.id;
 }
 
-export async function getMigrationStatus(migrationId: string, sessionId?: string): Promise<Migration> {
-  const token = getGitHubTargetPAT(sessionId);
-  const gql = graphql.defaults({ headers: { authorization: `token ${token}` } });
+export async function getMigrationStatus(migrationId: string, targetHost?: string, sessionId?: string): Promise<Migration> {
+  const { gql } = targetGraphql(targetHost, sessionId);
   
   const response: any = await gql(`
     query($id: ID!) {
@@ -196,6 +284,7 @@ export async function getMigrationStatus(migrationId: string, sessionId?: string
           repositoryName
           createdAt
           failureReason
+          migrationLogUrl
         }
       }
     }
@@ -204,9 +293,8 @@ export async function getMigrationStatus(migrationId: string, sessionId?: string
   return response.node;
 }
 
-export async function abortMigration(migrationId: string, sessionId?: string): Promise<boolean> {
-  const token = getGitHubTargetPAT(sessionId);
-  const gql = graphql.defaults({ headers: { authorization: `token ${token}` } });
+export async function abortMigration(migrationId: string, targetHost?: string, sessionId?: string): Promise<boolean> {
+  const { gql } = targetGraphql(targetHost, sessionId);
   
   await gql(`
     mutation($id: ID!) {
@@ -219,11 +307,18 @@ export async function abortMigration(migrationId: string, sessionId?: string): P
   return true;
 }
 
+/** Login of the user that owns the target token */
+export async function getViewerLogin(targetHost?: string, sessionId?: string): Promise<string> {
+  const { gql } = targetGraphql(targetHost, sessionId);
+  
+  const response: any = await gql(`query { viewer { login } }`);
+  return response.viewer.login;
+}
+
 export async function grantMigratorRole(org: string, actor: string, actorType: "USER" | "TEAM", sessionId?: string): Promise<boolean> {
-  const token = getGitHubTargetPAT(sessionId);
-  const gql = graphql.defaults({ headers: { authorization: `token ${token}` } });
+  const { gql } = targetGraphql(undefined, sessionId);
   
-  const orgId = await getOrganizationId(org, sessionId);
+  const orgId = await getOrganizationId(org, undefined, sessionId);
   
   await gql(`
     mutation($orgId: ID!, $actor: String!, $actorType: ActorType!) {
@@ -239,3 +334,172 @@ export async function grantMigratorRole(org: string, actor: string, actorType: "
   
   return true;
 }
+
+export async function getMannequins(org: string, sessionId?: string): Promise<Mannequin[]> {
+  const { gql } = targetGraphql(undefined, sessionId);
+  
+  const mannequins: Mannequin[] = [];
+  let cursor: string | null = null;
+  
+  do {
+    const response: any = await gql(`
+      query($org: String!, $cursor: String) {
+        organization(login: $org) {
+          mannequins(first: 100, after: $cursor) {
+            pageInfo { hasNextPage endCursor }
+            nodes {
+              id
+              login
+              email
+              createdAt
+              claimant { login }
+            }
+          }
+        }
+      }
+    `, { org, cursor });
+    
+    mannequins.push(...response.organization.mannequins.nodes);
+    cursor = response.organization.mannequins.pageInfo.hasNextPage 
+      ? response.organization.mannequins.pageInfo.endCursor 
+      : null;
+  } while (cursor);
+  
+  return mannequins;
+}
+
+export async function getUserId(login: string, sessionId?: string): Promise<string> {
+  const { gql } = targetGraphql(undefined, sessionId);
+  
+  const response: any = await gql(`
+    query($login: String!) {
+      user(login: $login) { id }
+    }
+  `, { login });
+  
+  if (!response.user) {
+    throw new Error(`GitHub user not found: ${login}`);
+  }
+  return response.user.id;
+}
+
+export async function createAttributionInvitation(
+  orgId: string,
+  mannequinId: string,
+  targetUserId: string,
+  sessionId?: string
+): Promise<boolean> {
+  const { gql } = targetGraphql(undefined, sessionId);
+  
+  await gql(`
+    mutation($ownerId: ID!, $sourceId: ID!, $targetId: ID!) {
+      createAttributionInvitation(input: {
+        ownerId: $ownerId
+        sourceId: $sourceId
+        targetId: $targetId
+      }) {
+        source { ... on Mannequin { id login } }
+        target { ... on User { id login } }
+      }
+    }
+  `, { ownerId: orgId, sourceId: mannequinId, targetId: targetUserId });
+  
+  return true;
+}
+
+export async function reattributeMannequinToUser(
+  orgId: string,
+  mannequinId: string,
+  targetUserId: string,
+  sessionId?: string
+): Promise<boolean> {
+  const { gql } = targetGraphql(undefined, sessionId);
+  
+  await gql(`
+    mutation($ownerId: ID!, $sourceId: ID!, $targetId: ID!) {
+      reattributeMannequinToUser(input: {
+        ownerId: $ownerId
+        sourceId: $sourceId
+        targetId: $targetId
+      }) {
+        source { ... on Mannequin { id login } }
+        target { ... on User { id login } }
+      }
+    }
+  `, { ownerId: orgId, sourceId: mannequinId, targetId: targetUserId });
+  
+  return true;
+}
+
+/** Archive (or unarchive) a source repository (github.com or GHES via `apiUrl`) */
+export async function setSourceRepoArchived(
+  org: string,
+  repo: string,
+  archived: boolean,
+  apiUrl?: string,
+  sessionId?: string
+): Promise<void> {
+  const token = getGitHubSourcePAT(sessionId);
+  const gql = graphql.defaults({ baseUrl: apiUrl || GITHUB_API_URL, headers: { authorization: `token ${token}` } });
+  
+  const response: any = await gql(`
+    query($owner: String!, $name: String!) {
+      repository(owner: $owner, name: $name) { id }
+    }
+  `, { owner: org, name: repo });
+  
+  const mutation = archived ? "archiveRepository" : "unarchiveRepository";
+  await gql(`
+    mutation($id: ID!) {
+      ${mutation}(input: { repositoryId: $id }) {
+        repository { isArchived }
+      }
+    }
+  `, { id: response.repository.id });
+}
+
+const REPO_STATS_QUERY = `
+  query($owner: String!, $name: String!) {
+    repository(owner: $owner, name: $name) {
+      branches: refs(refPrefix: "refs/heads/") { totalCount }
+      tags: refs(refPrefix: "refs/tags/") { totalCount }
+      defaultBranchRef {
+        name
+        target { ... on Commit { history { totalCount } } }
+      }
+      pullRequests { totalCount }
+      issues { totalCount }
+      releases { totalCount }
+    }
+  }
+`;
+
+function toRepoStats(repository: any): RepoStats | null {
+  if (!repository) return null;
+  return {
+    branches: repository.branches.totalCount,
+    tags: repository.tags.totalCount,
+    defaultBranch: repository.defaultBranchRef?.name ?? null,
+    defaultBranchCommits: repository.defaultBranchRef?.target?.history?.totalCount ?? 0,
+    pullRequests: repository.pullRequests.totalCount,
+    issues: repository.issues.totalCount,
+    releases: repository.releases.totalCount,
+  };
+}
+
+/** Object counts for a source repository (github.com or GHES via `apiUrl`) */
+export async function getSourceRepoStats(org: string, repo: string, apiUrl?: string, sessionId?: string): Promise<RepoStats | null> {
+  const token = getGitHubSourcePAT(sessionId);
+  const gql = graphql.defaults({ baseUrl: apiUrl || GITHUB_API_URL, headers: { authorization: `token ${token}` } });
+  
+  const response: any = await gql(REPO_STATS_QUERY, { owner: org, name: repo });
+  return toRepoStats(response.repository);
+}
+
+/** Object counts for a migrated repository on the target */
+export async function getTargetRepoStats(org: string, repo: string, targetHost?: string, sessionId?: string): Promise<RepoStats | null> {
+  const { gql } = targetGraphql(targetHost, sessionId);
+  
+  const response: any = await gql(REPO_STATS_QUERY, { owner: org, name: repo });
+  return toRepoStats(response.repository);
+}
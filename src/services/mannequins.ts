@@ -0,0 +1,183 @@
+/**
+ * Mannequin reclaim — map placeholder users created by GEI to real GitHub
+ * accounts.  The CSV layout matches `gh gei generate-mannequin-csv` so files
+ * can be exchanged with the official CLI.
+ */
+import * as github from "./github-api.js";
+import * as state from "./state.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface MannequinMapping {
+  mannequinLogin: string;
+  mannequinId: string;
+  targetUser: string;
+}
+
+export interface ReclaimResult {
+  mannequinLogin: string;
+  mannequinId: string;
+  targetUser: string;
+  status: state.ReclaimStatus | "skipped";
+  message?: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const CSV_HEADER = "mannequin-user,mannequin-id,target-user";
+
+// ─── CSV helpers ─────────────────────────────────────────────────────────────
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Build a CSV mapping template for the mannequins in an org.
+ * The `target-user` column is left empty for the user to fill in.
+ */
+export function generateMappingCsv(mannequins: github.Mannequin[], includeClaimed = false): string {
+  const rows = mannequins
+    .filter(m => includeClaimed || !m.claimant)
+    .map(m => [m.login, m.id, m.claimant?.login ?? ""].map(csvField).join(","));
+  return [CSV_HEADER, ...rows].join("\n");
+}
+
+/**
+ * Parse an edited mapping CSV. Rows without a target user are ignored.
+ */
+export function parseMappingCsv(csv: string): MannequinMapping[] {
+  const lines = csv.split(/\r?\n/).filter(l => l.trim());
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  if (header.join(",") !== CSV_HEADER) {
+    throw new Error(`Invalid mannequin CSV header. Expected: ${CSV_HEADER}`);
+  }
+
+  return lines.slice(1)
+    .map(splitCsvLine)
+    .filter(([, , target]) => !!target)
+    .map(([mannequinLogin, mannequinId, targetUser]) => ({ mannequinLogin, mannequinId, targetUser }));
+}
+
+/**
+ * Reclaim mannequins from a mapping CSV. Each mapping is handled on its own
+ * so one bad row does not stop the rest; every attempt is recorded in state.
+ */
+export async function reclaimMannequins(
+  org: string,
+  csv: string,
+  skipInvitation = false,
+  sessionId?: string
+): Promise<ReclaimResult[]> {
+  const mappings = parseMappingCsv(csv);
+  if (mappings.length === 0) return [];
+
+  const orgId = await github.getOrganizationId(org, undefined, sessionId);
+  const mannequins = await github.getMannequins(org, sessionId);
+  const userIds = new Map<string, string>();
+  const results: ReclaimResult[] = [];
+
+  for (const mapping of mappings) {
+    const mannequin = mannequins.find(m => m.id === mapping.mannequinId)
+      ?? mannequins.find(m => m.login === mapping.mannequinLogin);
+
+    if (!mannequin) {
+      results.push({ ...mapping, status: "failed", message: "Mannequin not found in org" });
+      continue;
+    }
+    if (mannequin.claimant) {
+      results.push({
+        ...mapping,
+        mannequinId: mannequin.id,
+        status: "skipped",
+        message: `Already claimed by ${mannequin.claimant.login}`,
+      });
+      continue;
+    }
+
+    const now = new Date().toISOString();
+    const record: state.MannequinReclaim = {
+      org,
+      mannequinId: mannequin.id,
+      mannequinLogin: mannequin.login,
+      targetUser: mapping.targetUser,
+      status: "invited",
+      requestedAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      let userId = userIds.get(mapping.targetUser);
+      if (!userId) {
+        userId = await github.getUserId(mapping.targetUser, sessionId);
+        userIds.set(mapping.targetUser, userId);
+      }
+
+      if (skipInvitation) {
+        await github.reattributeMannequinToUser(orgId, mannequin.id, userId, sessionId);
+        record.status = "reattributed";
+      } else {
+        await github.createAttributionInvitation(orgId, mannequin.id, userId, sessionId);
+      }
+      state.saveMannequinReclaim(record);
+      results.push({ ...mapping, mannequinId: mannequin.id, status: record.status });
+    } catch (err: unknown) {
+      record.status = "failed";
+      record.error = err instanceof Error ? err.message : String(err);
+      state.saveMannequinReclaim(record);
+      results.push({ ...mapping, mannequinId: mannequin.id, status: "failed", message: record.error });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Refresh pending invitations against the org's mannequins: an invitation
+ * whose mannequin now has the expected claimant is marked as claimed.
+ */
+export async function refreshReclaimStatus(org: string, sessionId?: string): Promise<state.MannequinReclaim[]> {
+  const mannequins = await github.getMannequins(org, sessionId);
+
+  for (const reclaim of state.getMannequinReclaims(org)) {
+    if (reclaim.status !== "invited") continue;
+    const mannequin = mannequins.find(m => m.id === reclaim.mannequinId);
+    if (mannequin?.claimant?.login.toLowerCase() === reclaim.targetUser.toLowerCase()) {
+      state.saveMannequinReclaim({ ...reclaim, status: "claimed", updatedAt: new Date().toISOString() });
+    }
+  }
+
+  return state.getMannequinReclaims(org);
+}
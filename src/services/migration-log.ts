@@ -0,0 +1,105 @@
+/**
+ * GEI migration log download and parsing.
+ * The log is fetched from the migration's pre-signed `migrationLogUrl`,
+ * stored under ~/.gei-mcp/logs and parsed into structured warnings.
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as github from "./github-api.js";
+import * as state from "./state.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface MigrationLogResult {
+  migrationId: string;
+  repositoryName: string;
+  logPath: string;
+  warnings: state.MigrationWarning[];
+  summary: Record<state.MigrationWarningKind, number>;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const LOG_DIR = path.join(state.STATE_DIR, "logs");
+
+/** GEI log lines look like: `[2024-01-01T00:00:00Z] WARN -- message` */
+const LOG_LINE_RE = /^\[([^\]]+)\]\s+(WARN|WARNING|ERROR)\s+(?:--\s+)?(.*)$/i;
+
+const WARNING_PATTERNS: { kind: state.MigrationWarningKind; pattern: RegExp }[] = [
+  { kind: "skipped_pr_comment", pattern: /(pull request|review).*comment|comment.*(pull request|review)/i },
+  { kind: "truncated_attachment", pattern: /attachment|truncat|file size|too large/i },
+  { kind: "failed_release", pattern: /release/i },
+];
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Extract WARN/ERROR entries from a GEI migration log and classify them.
+ */
+export function parseMigrationLog(log: string): state.MigrationWarning[] {
+  const warnings: state.MigrationWarning[] = [];
+
+  for (const line of log.split(/\r?\n/)) {
+    const match = line.trim().match(LOG_LINE_RE);
+    if (!match) continue;
+
+    const [, timestamp, , message] = match;
+    const kind = WARNING_PATTERNS.find(p => p.pattern.test(message))?.kind ?? "other";
+    warnings.push({ kind, message: message.trim(), timestamp });
+  }
+
+  return warnings;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Download the log for a migration, store it locally and attach the parsed
+ * warnings to the migration record in state.
+ */
+export async function fetchMigrationLog(
+  migrationId: string,
+  targetHost?: string,
+  sessionId?: string
+): Promise<MigrationLogResult> {
+  const host = targetHost || state.getMigrationRecord(migrationId)?.targetHost;
+  const migration = await github.getMigrationStatus(migrationId, host, sessionId);
+  if (!migration) {
+    throw new Error(`Migration not found: ${migrationId}`);
+  }
+  if (!migration.migrationLogUrl) {
+    throw new Error(
+      `No migration log available for ${migrationId} (state: ${migration.state}). Logs are published once the migration finishes.`
+    );
+  }
+
+  // The log URL is pre-signed — sending the GitHub token would be rejected by blob storage
+  const response = await fetch(migration.migrationLogUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download migration log: ${response.status} ${response.statusText}`);
+  }
+  const log = await response.text();
+
+  fs.mkdirSync(LOG_DIR, { recursive: true });
+  const logPath = path.join(LOG_DIR, `${migration.repositoryName}-${migrationId}.log`);
+  fs.writeFileSync(logPath, log);
+
+  const warnings = parseMigrationLog(log);
+  state.updateMigrationRecord(migrationId, { logPath, warnings });
+
+  const summary: Record<state.MigrationWarningKind, number> = {
+    skipped_pr_comment: 0,
+    truncated_attachment: 0,
+    failed_release: 0,
+    other: 0,
+  };
+  for (const w of warnings) summary[w.kind]++;
+
+  return {
+    migrationId,
+    repositoryName: migration.repositoryName,
+    logPath,
+    warnings,
+    summary,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Post-migration validation.
+ * Compares object counts (branches, tags, default-branch commits, PRs,
+ * issues, releases) between the source repository and the migrated target
+ * repository, and stores the report on the migration record.
+ */
+import * as github from "./github-api.js";
+import * as ado from "./ado-api.js";
+import * as state from "./state.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ValidationTarget {
+  source: "github" | "ado";
+  sourceOrg: string;
+  sourceRepo: string;
+  /** ADO project name (required for ADO source) */
+  adoProject?: string;
+  ghesApiUrl?: string;
+  targetOrg: string;
+  targetRepo: string;
+  targetHost?: string;
+}
+
+type SourceCounts = Record<state.ValidationMetricName, number | null>;
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const METRICS: state.ValidationMetricName[] = [
+  "branches",
+  "tags",
+  "defaultBranchCommits",
+  "pullRequests",
+  "issues",
+  "releases",
+];
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+async function getSourceCounts(target: ValidationTarget, sessionId?: string): Promise<SourceCounts> {
+  if (target.source === "github") {
+    const stats = await github.getSourceRepoStats(target.sourceOrg, target.sourceRepo, target.ghesApiUrl, sessionId);
+    if (!stats) {
+      throw new Error(`Source repository not found: ${target.sourceOrg}/${target.sourceRepo}`);
+    }
+    return stats;
+  }
+
+  if (!target.adoProject) {
+    throw new Error("adoProject is required to validate an Azure DevOps migration");
+  }
+  const stats = await ado.getRepoStats(target.sourceOrg, target.adoProject, target.sourceRepo, sessionId);
+  // Work items and releases aren't part of a GEI repo migration from ADO
+  return { ...stats, issues: null, releases: null };
+}
+
+/**
+ * Resolve validation coordinates from a recorded migration.
+ */
+export function targetFromRecord(record: state.MigrationRecord): ValidationTarget {
+  if (record.source === "bbs") {
+    throw new Error("Validation is not supported for Bitbucket Server migrations");
+  }
+  return {
+    source: record.source,
+    sourceOrg: record.sourceOrg,
+    sourceRepo: record.sourceRepoName || record.repoName,
+    adoProject: record.adoProject,
+    ghesApiUrl: record.ghesApiUrl,
+    targetOrg: record.targetOrg,
+    targetRepo: record.repoName,
+    targetHost: record.targetHost,
+  };
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Diff source and target counts. When `migrationId` is given the report is
+ * stored on that migration's record.
+ */
+export async function validateMigration(
+  target: ValidationTarget,
+  migrationId?: string,
+  sessionId?: string
+): Promise<state.MigrationValidation> {
+  const [sourceCounts, targetStats] = await Promise.all([
+    getSourceCounts(target, sessionId),
+    github.getTargetRepoStats(target.targetOrg, target.targetRepo, target.targetHost, sessionId),
+  ]);
+  if (!targetStats) {
+    throw new Error(`Target repository not found: ${target.targetOrg}/${target.targetRepo}`);
+  }
+
+  const metrics: state.ValidationMetric[] = METRICS.map(name => {
+    const source = sourceCounts[name];
+    // ADO sources have no issues/releases, so the target side isn't meaningful either
+    const targetCount = source === null ? null : targetStats[name];
+    return { name, source, target: targetCount, match: source === null ? null : source === targetCount };
+  });
+
+  const discrepancies = metrics
+    .filter(m => m.match === false)
+    .map(m => `${m.name}: source ${m.source}, target ${m.target}`);
+
+  const sourceLabel = target.source === "ado"
+    ? `${target.sourceOrg}/${target.adoProject}/${target.sourceRepo}`
+    : `${target.sourceOrg}/${target.sourceRepo}`;
+  const report: state.MigrationValidation = {
+    validatedAt: new Date().toISOString(),
+    source: sourceLabel,
+    target: `${target.targetOrg}/${target.targetRepo}`,
+    metrics,
+    discrepancies,
+    passed: discrepancies.length === 0,
+  };
+
+  if (migrationId) {
+    state.updateMigrationRecord(migrationId, { validation: report });
+  }
+  return report;
+}
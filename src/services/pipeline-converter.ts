@@ -15,6 +15,10 @@ import type {
   ADOReleaseTask,
   ADOTrigger,
 } from "./ado-pipelines.js";
+import type { SharedTemplate } from "./template-resolver.js";
+import { translateAdoCondition, type ConditionOptions, type JobOutputReference } from "./ado-expressions.js";
+import { formatFinding, validateCompositeAction, validateWorkflow } from "./workflow-validator.js";
+import { applyTaskMapping, findTaskMapping, type AppliedTaskMapping, type CustomTaskMapping } from "./task-mappings.js";
 
 // ─── Public types ────────────────────────────────────────────────────────────
 
@@ -29,6 +33,10 @@ export interface ConversionResult {
   unsupported: string[];
   /** Manual steps the user must perform after migration */
   manualSteps: string[];
+  /** Composite actions and reusable workflows the workflow calls (shared template mode) */
+  additionalFiles?: { path: string; content: string }[];
+  /** Validation errors that make the workflow (or an additional file) invalid; PRs are not opened while any remain */
+  validationErrors?: string[];
 }
 
 export interface AuditEntry {
@@ -57,6 +65,9 @@ interface ActionMapping {
   uses?: string;
   run?: string;
   with?: Record<string, string>;
+  shell?: string;
+  "working-directory"?: string;
+  env?: Record<string, string>;
   /** Function to build `with` from ADO task inputs */
   mapInputs?: (inputs: Record<string, string>) => Record<string, string>;
   warnings?: string[];
@@ -76,10 +87,8 @@ const TASK_MAP: Record<string, (inputs: Record<string, string>) => ActionMapping
     // NuGetCommand
     run: `nuget ${inputs.command || "restore"} ${inputs.restoreSolution || ""}`.trim(),
   }),
-  "71a9a2d3-a98a-4caa-96ab-affca411ecda": () => ({
-    // CmdLine
-    run: "# Inline script — review and adapt",
-  }),
+  "71a9a2d3-a98a-4caa-96ab-affca411ecda": vsBuildTask, // VSBuild
+  "c6c4c611-aa2e-4a33-b606-5eaba2196824": msbuildTask, // MSBuild
 
   // ── Node / JS ──────────────────────────────────────────────────────────────
   "31c75bbb-bcdf-4706-8d7c-4da6106f6514": (inputs) => ({
@@ -204,6 +213,42 @@ const TASK_MAP: Record<string, (inputs: Record<string, string>) => ActionMapping
     },
     warnings: ["Review and migrate Azure App Service settings manually."],
   }),
+
+  // ── Test results / coverage ────────────────────────────────────────────────
+  "ef087383-ee5e-42c7-9a53-ab56c98420f9": vsTestTask, // VSTest
+  "0b0f01ed-7dde-43ff-9cbb-e48954daf9b1": publishTestResultsTask, // PublishTestResults
+  "2a7ebc54-c13e-490e-81a5-d7561ab7cd97": publishCodeCoverageTask, // PublishCodeCoverageResults
+
+  // ── Archives ───────────────────────────────────────────────────────────────
+  "d8b84976-e99a-4b86-b885-4849694435b0": archiveFilesTask, // ArchiveFiles
+  "5e1e3830-fbfb-11e5-aab1-090c92bc4988": extractFilesTask, // ExtractFiles
+
+  // ── Azure ──────────────────────────────────────────────────────────────────
+  "501dd25d-1785-43e4-b4e5-a5c78ccc0573": azureFunctionAppTask, // AzureFunctionApp
+  "1e244d32-2dd4-4165-96fb-b7441ca9331e": azureKeyVaultTask, // AzureKeyVault
+  "18aad896-e191-4720-88d6-8ced4806941a": azureStaticWebAppTask, // AzureStaticWebApp
+
+  // ── Kubernetes / Helm / Terraform ──────────────────────────────────────────
+  "dee316a2-586f-4def-be79-488a1f503dfe": kubernetesManifestTask, // KubernetesManifest
+  "afa7d54d-537b-4dc8-b60a-e0eeea2c9a87": helmDeployTask, // HelmDeploy
+  "cbc316a2-586f-4def-be79-488a1f503564": kubernetesTask, // Kubernetes
+  "fe504acc-6115-40cb-89ff-191386b5e7bf": terraformTask, // TerraformTaskV2-V4
+
+  // ── Caching / package feeds ────────────────────────────────────────────────
+  "d53ccab4-555e-4494-9d06-11db043fb4a9": cacheTask, // Cache
+  "f5fd8599-ccfa-4d6e-b965-4d14bed7097b": nugetAuthenticateTask, // NuGetAuthenticate
+  "ad884ca2-732e-4b85-b2d3-ed71bcbd2788": npmAuthenticateTask, // npmAuthenticate
+
+  // ── Docker Compose ─────────────────────────────────────────────────────────
+  "6975e2d1-96d3-4afc-8a41-498b5d34ea19": dockerComposeTask, // DockerCompose
+
+  // ── SonarQube ──────────────────────────────────────────────────────────────
+  "15b84ca1-b62f-4a2a-a403-89b77a063157": sonarQubePrepareTask, // SonarQubePrepare
+  "6d01813a-9589-4b15-8491-8164aeb38055": sonarQubeAnalyzeTask, // SonarQubeAnalyze
+  "291ed61f-1ee4-45d3-b1b0-bf822d9095ef": sonarQubePublishTask, // SonarQubePublish
+
+  // ── GitHub Release ─────────────────────────────────────────────────────────
+  "7b5a6198-adf8-4b16-9939-7addf85708b2": gitHubReleaseTask, // GitHubRelease
 };
 
 // helper for DotNetCoreCLI
@@ -214,6 +259,713 @@ function buildDotnetCommand(inputs: Record<string, string>): string {
   return `dotnet ${cmd} ${projects} ${args}`.trim();
 }
 
+// ─── Marketplace task conversions ────────────────────────────────────────────
+// Shared by TASK_MAP and ADO_YAML_TASK_MAP. Classic definitions store inputs
+// under their canonical names while YAML often uses aliases, so inputs are
+// looked up by every known name, case-insensitively.
+
+/** First non-empty input among `names` */
+function taskInput(inputs: Record<string, string>, ...names: string[]): string {
+  for (const name of names) {
+    const key = Object.keys(inputs).find(k => k.toLowerCase() === name.toLowerCase());
+    const value = key !== undefined ? String(inputs[key] ?? "").trim() : "";
+    if (value) return value;
+  }
+  return "";
+}
+
+/** Drops empty entries so optional inputs don't become empty `with:` keys */
+function nonEmpty(values: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(values).filter(([, v]) => v !== ""));
+}
+
+function isTrue(value: string): boolean {
+  return value.toLowerCase() === "true";
+}
+
+/** Multi-line or comma-separated input → entries */
+function inputList(value: string): string[] {
+  return value.split(/\r?\n|,/).map(s => s.trim()).filter(Boolean);
+}
+
+function msbuildCommand(project: string, inputs: Record<string, string>, argsInput: string): string {
+  const configuration = taskInput(inputs, "configuration");
+  const platform = taskInput(inputs, "platform");
+  return [
+    "msbuild",
+    `"${project}"`,
+    isTrue(taskInput(inputs, "clean")) ? "/t:Clean,Build" : "",
+    configuration ? `/p:Configuration="${configuration}"` : "",
+    platform ? `/p:Platform="${platform}"` : "",
+    isTrue(taskInput(inputs, "maximumCpuCount")) ? "/m" : "",
+    taskInput(inputs, argsInput),
+  ].filter(Boolean).join(" ");
+}
+
+function msbuildMapping(project: string, inputs: Record<string, string>, argsInput: string): ActionMapping {
+  return {
+    run: msbuildCommand(project, inputs, argsInput),
+    shell: "pwsh",
+    warnings: [
+      "MSBuild needs a Windows runner and microsoft/setup-msbuild@v2 before this step.",
+      ...(project.includes("*") ? [`msbuild does not expand '${project}' — point it at the solution or project file.`] : []),
+    ],
+  };
+}
+
+function vsBuildTask(inputs: Record<string, string>): ActionMapping {
+  return msbuildMapping(taskInput(inputs, "solution") || "**\\*.sln", inputs, "msbuildArgs");
+}
+
+function msbuildTask(inputs: Record<string, string>): ActionMapping {
+  return msbuildMapping(taskInput(inputs, "solution", "project") || "**/*.sln", inputs, "msbuildArguments");
+}
+
+/** ADO minimatch pattern → PowerShell -like pattern over full paths */
+function likePattern(pattern: string): string {
+  const p = pattern.replace(/\//g, "\\").replace(/\*\*\\/g, "*\\").replace(/\\\*\*$/, "\\*");
+  return p.startsWith("*") ? p : `*\\${p}`;
+}
+
+function vsTestTask(inputs: Record<string, string>): ActionMapping {
+  const warnings = [
+    "VSTest needs a Windows runner with vstest.console.exe on the PATH (e.g. darenm/setup-vstest@v1).",
+    "VSTest published test results automatically — publish TestResults/*.trx with a test reporter step.",
+  ];
+  const selector = taskInput(inputs, "testSelector") || "testAssemblies";
+  if (selector !== "testAssemblies") {
+    warnings.push(`VSTest selection '${selector}' (test plan / test run) has no GitHub equivalent — tests are selected by assembly.`);
+  }
+
+  const patterns = inputList(taskInput(inputs, "testAssemblyVer2", "testAssemblies") || "**\\*test*.dll\n!**\\*TestAdapter.dll\n!**\\obj\\**");
+  const include = patterns.filter(p => !p.startsWith("!")).map(p => `'${likePattern(p)}'`);
+  const exclude = patterns.filter(p => p.startsWith("!")).map(p => `'${likePattern(p.slice(1))}'`);
+  const searchFolder = taskInput(inputs, "searchFolder") || "${{ github.workspace }}";
+  const filter = taskInput(inputs, "testFiltercriteria", "testCaseFilter");
+  const settings = taskInput(inputs, "runSettingsFile");
+  const options = [
+    filter ? `/TestCaseFilter:"${filter}"` : "",
+    settings ? `/Settings:"${settings}"` : "",
+    isTrue(taskInput(inputs, "codeCoverageEnabled")) ? "/EnableCodeCoverage" : "",
+    isTrue(taskInput(inputs, "runInParallel")) ? "/Parallel" : "",
+    "/Logger:trx",
+    taskInput(inputs, "otherConsoleOptions"),
+  ].filter(Boolean).join(" ");
+
+  return {
+    run: [
+      `$include = @(${include.join(", ")})`,
+      `$exclude = @(${exclude.join(", ")})`,
+      `$assemblies = Get-ChildItem -Path "${searchFolder}" -Recurse -File | Where-Object {`,
+      "  $path = $_.FullName",
+      "  ($include | Where-Object { $path -like $_ }) -and -not ($exclude | Where-Object { $path -like $_ })",
+      "} | ForEach-Object { $_.FullName }",
+      `vstest.console.exe $assemblies ${options}`,
+    ].join("\n"),
+    shell: "pwsh",
+    warnings,
+  };
+}
+
+/** ADO test result formats → dorny/test-reporter reporters */
+const TEST_REPORTERS: Record<string, string> = {
+  junit: "java-junit",
+  vstest: "dotnet-trx",
+  nunit: "dotnet-nunit",
+  xunit: "java-junit",
+  ctest: "java-junit",
+};
+
+function publishTestResultsTask(inputs: Record<string, string>): ActionMapping {
+  const format = (taskInput(inputs, "testResultsFormat", "testRunner") || "JUnit").toLowerCase();
+  const files = inputList(taskInput(inputs, "testResultsFiles") || "**/TEST-*.xml").filter(f => !f.startsWith("!"));
+  const searchFolder = taskInput(inputs, "searchFolder");
+  const warnings = ["dorny/test-reporter needs 'checks: write' permission; pull requests from forks need a separate workflow_run workflow."];
+  if (format === "xunit" || format === "ctest") {
+    warnings.push(`${format === "xunit" ? "xUnit" : "CTest"} results are read as JUnit — produce JUnit XML (e.g. ${format === "xunit" ? "the JunitXml.TestLogger" : "ctest --output-junit"}) or TRX.`);
+  }
+  if (taskInput(inputs, "mergeTestResults")) warnings.push("mergeTestResults has no equivalent — each file is reported separately.");
+
+  return {
+    uses: "dorny/test-reporter@v1",
+    with: {
+      name: taskInput(inputs, "testRunTitle") || "Test results",
+      path: files.join(","),
+      reporter: TEST_REPORTERS[format] ?? "java-junit",
+      ...(searchFolder && !/DefaultWorkingDirectory|github\.workspace/i.test(searchFolder) ? { "working-directory": searchFolder } : {}),
+      "fail-on-error": isTrue(taskInput(inputs, "failTaskOnFailedTests")) ? "true" : "false",
+      "fail-on-empty": isTrue(taskInput(inputs, "failTaskOnMissingResultsFile")) ? "true" : "false",
+    },
+    warnings,
+  };
+}
+
+function publishCodeCoverageTask(inputs: Record<string, string>): ActionMapping {
+  const summary = taskInput(inputs, "summaryFileLocation", "summaryFile");
+  const reportDirectory = taskInput(inputs, "reportDirectory");
+  return {
+    uses: "actions/upload-artifact@v4",
+    with: {
+      name: "code-coverage",
+      path: [summary || "**/coverage.cobertura.xml", reportDirectory].filter(Boolean).join("\n"),
+    },
+    warnings: ["Code coverage is uploaded as an artifact — GitHub has no coverage tab; add a summary action (e.g. irongut/CodeCoverageSummary) to report it on runs or PRs."],
+  };
+}
+
+/** tar compression flag per ADO tarCompression */
+const TAR_FLAGS: Record<string, string> = { gz: "z", bz2: "j", xz: "J", none: "" };
+
+function archiveFilesTask(inputs: Record<string, string>): ActionMapping {
+  const root = taskInput(inputs, "rootFolderOrFile", "rootFolder") || "${{ github.workspace }}";
+  const type = (taskInput(inputs, "archiveType") || "zip").toLowerCase();
+  const includeRoot = taskInput(inputs, "includeRootFolder") !== "false";
+  const defaultName = type === "tar" ? "archive.tar.gz" : `archive.${type}`;
+  const lines = [
+    `archive="$(realpath -m "${taskInput(inputs, "archiveFile") || defaultName}")"`,
+    'mkdir -p "$(dirname "$archive")"',
+    ...(taskInput(inputs, "replaceExistingArchive") !== "false" ? ['rm -f "$archive"'] : []),
+  ];
+
+  if (type === "tar") {
+    const flag = TAR_FLAGS[(taskInput(inputs, "tarCompression") || "gz").toLowerCase()] ?? "z";
+    lines.push(includeRoot
+      ? `tar -c${flag}f "$archive" -C "$(dirname "${root}")" "$(basename "${root}")"`
+      : `tar -c${flag}f "$archive" -C "${root}" .`);
+  } else {
+    const tool = type === "zip" ? "zip -r" : "7z a";
+    lines.push(includeRoot
+      ? `(cd "$(dirname "${root}")" && ${tool} "$archive" "$(basename "${root}")")`
+      : `(cd "${root}" && ${tool} "$archive" .)`);
+  }
+  return { run: lines.join("\n"), shell: "bash" };
+}
+
+function extractFilesTask(inputs: Record<string, string>): ActionMapping {
+  const patterns = inputList(taskInput(inputs, "archiveFilePatterns") || "**/*.zip");
+  const destination = taskInput(inputs, "destinationFolder") || ".";
+  return {
+    run: [
+      "shopt -s globstar nullglob",
+      ...(isTrue(taskInput(inputs, "cleanDestinationFolder")) ? [`rm -rf "${destination}"`] : []),
+      `mkdir -p "${destination}"`,
+      `for archive in ${patterns.filter(p => !p.startsWith("!")).join(" ")}; do`,
+      '  case "$archive" in',
+      `    *.zip|*.jar|*.war|*.ear) unzip -o "$archive" -d "${destination}" ;;`,
+      `    *.tar|*.tar.gz|*.tgz|*.tar.bz2|*.tar.xz) tar -xf "$archive" -C "${destination}" ;;`,
+      `    *) 7z x -y -o"${destination}" "$archive" ;;`,
+      "  esac",
+      "done",
+    ].join("\n"),
+    shell: "bash",
+  };
+}
+
+function azureFunctionAppTask(inputs: Record<string, string>): ActionMapping {
+  const slot = isTrue(taskInput(inputs, "deployToSlotOrASE")) ? taskInput(inputs, "slotName") : "";
+  return {
+    uses: "Azure/functions-action@v1",
+    with: {
+      "app-name": taskInput(inputs, "appName"),
+      package: taskInput(inputs, "package") || ".",
+      ...(slot && slot.toLowerCase() !== "production" ? { "slot-name": slot } : {}),
+    },
+    warnings: [
+      "Azure Functions deploy requires azure/login@v2 setup step.",
+      ...(taskInput(inputs, "appSettings") ? ["Function app settings are not applied by Azure/functions-action — set them with azure/appservice-settings@v1."] : []),
+    ],
+  };
+}
+
+function azureKeyVaultTask(inputs: Record<string, string>): ActionMapping {
+  const vault = taskInput(inputs, "KeyVaultName");
+  const filter = taskInput(inputs, "SecretsFilter") || "*";
+  const names = filter === "*"
+    ? `$(az keyvault secret list --vault-name "${vault}" --query "[].name" -o tsv)`
+    : inputList(filter).join(" ");
+  return {
+    run: [
+      `for name in ${names}; do`,
+      `  value="$(az keyvault secret show --vault-name "${vault}" --name "$name" --query value -o tsv)"`,
+      '  echo "::add-mask::$value"',
+      '  echo "$name=$value" >> "$GITHUB_ENV"',
+      "done",
+    ].join("\n"),
+    shell: "bash",
+    warnings: [
+      "Azure Key Vault requires azure/login@v2 setup step; secrets are exported to later steps as environment variables.",
+      "Multi-line Key Vault secrets need a heredoc delimiter in $GITHUB_ENV — review if any are used.",
+    ],
+  };
+}
+
+const KUBE_CONTEXT_WARNING = "Kubernetes steps need azure/setup-kubectl@v4 and azure/k8s-set-context@v4 (cluster credentials) first.";
+
+function kubernetesManifestTask(inputs: Record<string, string>): ActionMapping {
+  const action = (taskInput(inputs, "action") || "deploy").toLowerCase();
+  const namespace = taskInput(inputs, "namespace");
+  const ns = namespace ? ` -n "${namespace}"` : "";
+
+  switch (action) {
+    case "deploy":
+    case "promote":
+    case "reject": {
+      const strategy = (taskInput(inputs, "strategy") || "none").toLowerCase();
+      return {
+        uses: "Azure/k8s-deploy@v5",
+        with: nonEmpty({
+          action,
+          manifests: taskInput(inputs, "manifests"),
+          images: taskInput(inputs, "containers"),
+          imagepullsecrets: taskInput(inputs, "imagePullSecrets"),
+          namespace,
+          ...(strategy !== "none" ? {
+            strategy,
+            percentage: taskInput(inputs, "percentage"),
+            "traffic-split-method": taskInput(inputs, "trafficSplitMethod"),
+            "baseline-and-canary-replicas": taskInput(inputs, "baselineAndCanaryReplicas"),
+          } : {}),
+        }),
+        warnings: [KUBE_CONTEXT_WARNING],
+      };
+    }
+    case "bake":
+      return {
+        uses: "Azure/k8s-bake@v3",
+        with: nonEmpty({
+          renderEngine: (taskInput(inputs, "renderType") || "helm").replace(/^helm2$/, "helm"),
+          helmChart: taskInput(inputs, "helmChart"),
+          releaseName: taskInput(inputs, "releaseName"),
+          overrideFiles: taskInput(inputs, "overrideFiles"),
+          overrides: taskInput(inputs, "overrides"),
+          kustomizationPath: taskInput(inputs, "kustomizationPath"),
+          dockerComposeFile: taskInput(inputs, "dockerComposeFile"),
+        }),
+        warnings: ["Baked manifests are a step output — give this step an id and use steps.<id>.outputs.manifestsBundle in the deploy step."],
+      };
+    case "createsecret": {
+      const dockerRegistry = (taskInput(inputs, "secretType") || "dockerRegistry") === "dockerRegistry";
+      return {
+        uses: "Azure/k8s-create-secret@v4",
+        with: nonEmpty({
+          namespace,
+          "secret-name": taskInput(inputs, "secretName"),
+          "secret-type": dockerRegistry ? "docker-registry" : "generic",
+          arguments: dockerRegistry ? "" : taskInput(inputs, "secretArguments"),
+        }),
+        warnings: [
+          KUBE_CONTEXT_WARNING,
+          ...(dockerRegistry ? ["Registry secrets need container-registry-url, -username and -password from GitHub secrets (the ADO registry service connection does not carry over)."] : []),
+        ],
+      };
+    }
+    case "patch": {
+      const resource = taskInput(inputs, "resourceToPatch") === "file"
+        ? `-f "${taskInput(inputs, "resourceFileToPatch")}"`
+        : `${taskInput(inputs, "kind")} ${taskInput(inputs, "name")}`;
+      return {
+        run: `kubectl patch ${resource}${ns} --type ${taskInput(inputs, "mergeStrategy") || "strategic"} -p '${taskInput(inputs, "patch")}'`,
+        warnings: [KUBE_CONTEXT_WARNING],
+      };
+    }
+    case "scale":
+      return {
+        run: `kubectl scale ${taskInput(inputs, "kind")}/${taskInput(inputs, "name")} --replicas=${taskInput(inputs, "replicas")}${ns}`,
+        warnings: [KUBE_CONTEXT_WARNING],
+      };
+    default:
+      return {
+        run: `kubectl ${action} ${taskInput(inputs, "arguments")}${ns}`.replace(/\s+$/, ""),
+        warnings: [KUBE_CONTEXT_WARNING],
+      };
+  }
+}
+
+function helmDeployTask(inputs: Record<string, string>): ActionMapping {
+  const command = (taskInput(inputs, "command") || "ls").toLowerCase();
+  const warnings = ["Helm steps need azure/setup-helm@v4 and cluster credentials (azure/k8s-set-context@v4) first."];
+  if (command === "init") {
+    warnings.push("'helm init' does not exist in Helm 3 — step kept as a no-op.");
+    return { run: "# helm init is not needed with Helm 3", warnings };
+  }
+  if (command === "login" || command === "logout") {
+    warnings.push("Cluster login is handled by azure/k8s-set-context@v4.");
+    return { run: `# helm ${command}: handled by azure/k8s-set-context`, warnings };
+  }
+
+  const chart = (taskInput(inputs, "chartType") || "Name").toLowerCase() === "filepath"
+    ? taskInput(inputs, "chartPath")
+    : taskInput(inputs, "chartName");
+  const release = taskInput(inputs, "releaseName");
+  const namespace = taskInput(inputs, "namespace");
+  const installing = command === "install" || command === "upgrade";
+  const parts = ["helm", command];
+
+  if (installing) {
+    if (command === "upgrade" && taskInput(inputs, "install") !== "false") parts.push("--install");
+    parts.push(release ? `"${release}"` : "--generate-name", `"${chart}"`);
+    const version = taskInput(inputs, "chartVersion", "version");
+    if (version) parts.push("--version", version);
+    for (const file of inputList(taskInput(inputs, "valueFile"))) parts.push("-f", `"${file}"`);
+    const overrides = inputList(taskInput(inputs, "overrideValues"));
+    if (overrides.length > 0) parts.push("--set", `"${overrides.join(",")}"`);
+    if (taskInput(inputs, "waitForExecution") !== "false") parts.push("--wait");
+  } else if (command === "package") {
+    parts.push(`"${taskInput(inputs, "chartPath")}"`);
+    const destination = taskInput(inputs, "destination");
+    if (destination) parts.push("--destination", `"${destination}"`);
+  } else if (command === "lint") {
+    parts.push(`"${taskInput(inputs, "chartPath") || chart}"`);
+  }
+  if (namespace && command !== "package") parts.push("--namespace", `"${namespace}"`);
+  const args = taskInput(inputs, "arguments");
+  if (args) parts.push(args);
+
+  return { run: parts.join(" "), warnings };
+}
+
+function kubernetesTask(inputs: Record<string, string>): ActionMapping {
+  const command = (taskInput(inputs, "command") || "apply").toLowerCase();
+  if (command === "login" || command === "logout") {
+    return {
+      run: `# kubectl ${command}: handled by azure/k8s-set-context`,
+      warnings: [KUBE_CONTEXT_WARNING],
+    };
+  }
+  const namespace = taskInput(inputs, "namespace");
+  const configuration = isTrue(taskInput(inputs, "useConfigurationFile")) ? taskInput(inputs, "configuration") : "";
+  return {
+    run: [
+      "kubectl",
+      command,
+      configuration ? `-f "${configuration}"` : "",
+      namespace ? `-n "${namespace}"` : "",
+      taskInput(inputs, "arguments"),
+    ].filter(Boolean).join(" "),
+    warnings: [
+      KUBE_CONTEXT_WARNING,
+      ...(taskInput(inputs, "secretType") || taskInput(inputs, "secretName") ? ["kubectl task secrets are not converted — create them with Azure/k8s-create-secret@v4."] : []),
+    ],
+  };
+}
+
+/** terraform init -backend-config per provider: task input → backend key */
+const TERRAFORM_BACKEND: Record<string, Record<string, string>> = {
+  azurerm: {
+    backendAzureRmResourceGroupName: "resource_group_name",
+    backendAzureRmStorageAccountName: "storage_account_name",
+    backendAzureRmContainerName: "container_name",
+    backendAzureRmKey: "key",
+  },
+  aws: { backendAWSBucketName: "bucket", backendAWSKey: "key" },
+  gcp: { backendGCSBucketName: "bucket", backendGCSPrefix: "prefix" },
+};
+
+function terraformTask(inputs: Record<string, string>): ActionMapping {
+  const provider = (taskInput(inputs, "provider") || "azurerm").toLowerCase();
+  const command = taskInput(inputs, "command") || "init";
+  const options = taskInput(inputs, "commandOptions");
+  const parts = ["terraform", command === "custom" ? taskInput(inputs, "customCommand") : command];
+
+  if (command === "init") {
+    for (const [input, key] of Object.entries(TERRAFORM_BACKEND[provider] ?? {})) {
+      const value = taskInput(inputs, input);
+      if (value) parts.push(`-backend-config="${key}=${value}"`);
+    }
+  }
+  if ((command === "apply" || command === "destroy") && !options.includes("-auto-approve")) parts.push("-auto-approve");
+  if (options) parts.push(options);
+
+  const workingDirectory = taskInput(inputs, "workingDirectory");
+  return {
+    run: parts.join(" "),
+    ...(workingDirectory ? { "working-directory": workingDirectory } : {}),
+    ...(provider === "azurerm" ? {
+      env: {
+        ARM_USE_OIDC: "true",
+        ARM_CLIENT_ID: "${{ secrets.AZURE_CLIENT_ID }}",
+        ARM_TENANT_ID: "${{ secrets.AZURE_TENANT_ID }}",
+        ARM_SUBSCRIPTION_ID: "${{ secrets.AZURE_SUBSCRIPTION_ID }}",
+      },
+    } : {}),
+    warnings: [
+      "Add hashicorp/setup-terraform@v3 before the first Terraform step.",
+      provider === "azurerm"
+        ? "Terraform authenticates with OIDC through ARM_* variables — needs 'id-token: write' permission and a federated credential for the repo."
+        : `Terraform ${provider} credentials come from an ADO service connection — provide them as GitHub secrets.`,
+    ],
+  };
+}
+
+function azureStaticWebAppTask(inputs: Record<string, string>): ActionMapping {
+  const token = taskInput(inputs, "azure_static_web_apps_api_token");
+  const withBlock: Record<string, string> = {
+    azure_static_web_apps_api_token: token || "${{ secrets.AZURE_STATIC_WEB_APPS_API_TOKEN }}",
+    action: "upload",
+  };
+  for (const key of [
+    "app_location", "api_location", "output_location", "app_build_command", "api_build_command",
+    "skip_app_build", "skip_api_build", "deployment_environment", "production_branch",
+  ]) {
+    const value = taskInput(inputs, key);
+    if (value) withBlock[key] = value;
+  }
+  return {
+    uses: "Azure/static-web-apps-deploy@v1",
+    with: withBlock,
+    warnings: [token
+      ? "Make sure the Static Web Apps deployment token is read from a GitHub secret."
+      : "Store the Static Web Apps deployment token as the AZURE_STATIC_WEB_APPS_API_TOKEN secret."],
+  };
+}
+
+/** ADO cache key (`npm | "$(Agent.OS)" | package-lock.json`) → actions/cache key */
+function cacheKey(key: string): string {
+  return key.split("|").map(s => s.trim()).filter(Boolean).map(segment => {
+    const value = segment
+      .replace(/\$\(Agent\.OS\)|\$\{\{ env\.Agent\.OS \}\}/gi, "${{ runner.os }}")
+      .replace(/^"(.*)"$/, "$1");
+    if (value !== segment || value.includes("${{")) return value;
+    // Unquoted segments with a path or extension are files to hash
+    return /[\\/*]|\.[A-Za-z0-9]+$/.test(value) ? `\${{ hashFiles('${value}') }}` : value;
+  }).join("-");
+}
+
+function cacheTask(inputs: Record<string, string>): ActionMapping {
+  const restoreKeys = inputList(taskInput(inputs, "restoreKeys").replace(/,/g, "\n")).map(cacheKey);
+  const hitVariable = taskInput(inputs, "cacheHitVar");
+  return {
+    uses: "actions/cache@v4",
+    with: {
+      key: cacheKey(taskInput(inputs, "key")),
+      path: taskInput(inputs, "path"),
+      ...(restoreKeys.length > 0 ? { "restore-keys": restoreKeys.join("\n") } : {}),
+    },
+    warnings: hitVariable
+      ? [`Cache hit variable '${hitVariable}' → give this step an id and use steps.<id>.outputs.cache-hit.`]
+      : [],
+  };
+}
+
+function nugetAuthenticateTask(inputs: Record<string, string>): ActionMapping {
+  return {
+    run: [
+      'sh -c "$(curl -fsSL https://aka.ms/install-artifacts-credprovider.sh)"',
+      `echo 'VSS_NUGET_EXTERNAL_FEED_ENDPOINTS={"endpointCredentials":[{"endpoint":"TODO-feed-url","password":"'"$AZURE_ARTIFACTS_PAT"'"}]}' >> "$GITHUB_ENV"`,
+    ].join("\n"),
+    shell: "bash",
+    env: { AZURE_ARTIFACTS_PAT: "${{ secrets.AZURE_ARTIFACTS_PAT }}" },
+    warnings: [
+      "NuGetAuthenticate: replace TODO-feed-url with the Azure Artifacts feed URL and store a PAT with Packaging (read) scope as AZURE_ARTIFACTS_PAT.",
+      ...(taskInput(inputs, "nuGetServiceConnections") ? ["External NuGet feed service connections need their own credentials in GitHub secrets."] : []),
+    ],
+  };
+}
+
+function npmAuthenticateTask(inputs: Record<string, string>): ActionMapping {
+  const npmrc = taskInput(inputs, "workingFile") || ".npmrc";
+  return {
+    run: [
+      `npmrc="${npmrc}"`,
+      'password="$(printf %s "$AZURE_ARTIFACTS_PAT" | base64 -w0)"',
+      "for registry in $(grep -oE '^[^#]*registry=https?://[^ ]+' \"$npmrc\" | sed -E 's/.*registry=https?://'); do",
+      '  printf \'%s:username=ado\\n%s:_password=%s\\n%s:email=npm@example.com\\n\' "$registry" "$registry" "$password" "$registry" >> "$npmrc"',
+      "done",
+    ].join("\n"),
+    shell: "bash",
+    env: { AZURE_ARTIFACTS_PAT: "${{ secrets.AZURE_ARTIFACTS_PAT }}" },
+    warnings: [
+      "npmAuthenticate: store a PAT with Packaging (read) scope as AZURE_ARTIFACTS_PAT.",
+      ...(taskInput(inputs, "customEndpoint") ? ["External npm registry service connections need their own tokens in GitHub secrets."] : []),
+    ],
+  };
+}
+
+function dockerComposeTask(inputs: Record<string, string>): ActionMapping {
+  const warnings: string[] = [];
+  let file = taskInput(inputs, "dockerComposeFile") || "docker-compose.yml";
+  if (file.includes("*")) {
+    warnings.push(`docker compose does not expand '${file}' — using docker-compose.yml; adjust the path if needed.`);
+    file = "docker-compose.yml";
+  }
+  const project = taskInput(inputs, "projectName");
+  const base = [
+    "docker compose",
+    `-f "${file}"`,
+    ...inputList(taskInput(inputs, "additionalDockerComposeFiles")).map(f => `-f "${f}"`),
+    project ? `-p "${project}"` : "",
+  ].filter(Boolean).join(" ");
+  const detached = taskInput(inputs, "detached") !== "false";
+  const action = (taskInput(inputs, "action") || "Run a Docker Compose command").toLowerCase();
+
+  let command: string;
+  switch (action) {
+    case "build services":
+      command = "build";
+      break;
+    case "push services":
+      command = "push";
+      warnings.push("Log in to the registry with docker/login-action@v3 before pushing.");
+      break;
+    case "run services":
+      command = ["up", detached ? "-d" : "", taskInput(inputs, "buildImages") !== "false" ? "--build" : ""].filter(Boolean).join(" ");
+      break;
+    case "run a specific service":
+      command = ["run", detached ? "-d" : "", taskInput(inputs, "serviceName"), taskInput(inputs, "containerCommand")].filter(Boolean).join(" ");
+      break;
+    case "combine configuration":
+      command = `config > "${taskInput(inputs, "outputDockerComposeFile") || "docker-compose.combined.yml"}"`;
+      break;
+    case "lock services":
+    case "write service image digests":
+      command = "config";
+      warnings.push(`Docker Compose '${action}' has no docker compose equivalent — pin image digests manually.`);
+      break;
+    default:
+      command = taskInput(inputs, "dockerComposeCommand") || "up -d";
+  }
+  const args = taskInput(inputs, "arguments");
+  return { run: `${base} ${command}${args ? ` ${args}` : ""}`, ...(warnings.length > 0 ? { warnings } : {}) };
+}
+
+const SONAR_ENV = {
+  SONAR_TOKEN: "${{ secrets.SONAR_TOKEN }}",
+  SONAR_HOST_URL: "${{ secrets.SONAR_HOST_URL }}",
+};
+const SONAR_SECRETS_WARNING = "SonarQube steps read the SONAR_TOKEN and SONAR_HOST_URL secrets (the ADO service connection does not carry over).";
+
+/** Extra properties (`sonar.x=y` lines) → key/value pairs */
+function sonarProperties(inputs: Record<string, string>): [string, string][] {
+  return taskInput(inputs, "extraProperties").split(/\r?\n/)
+    .map(l => l.trim())
+    .filter(l => l && !l.startsWith("#") && l.includes("="))
+    .map(l => [l.slice(0, l.indexOf("=")).trim(), l.slice(l.indexOf("=") + 1).trim()]);
+}
+
+function sonarQubePrepareTask(inputs: Record<string, string>): ActionMapping {
+  const mode = (taskInput(inputs, "scannerMode") || "CLI").toLowerCase();
+
+  if (mode === "msbuild" || mode === "dotnet") {
+    const name = taskInput(inputs, "projectName");
+    const version = taskInput(inputs, "projectVersion");
+    const properties = sonarProperties(inputs).map(([k, v]) => `/d:${k}="${v}"`);
+    return {
+      run: [
+        "dotnet tool install --global dotnet-sonarscanner",
+        [
+          "dotnet sonarscanner begin",
+          `/k:"${taskInput(inputs, "projectKey")}"`,
+          name ? `/n:"${name}"` : "",
+          version ? `/v:"${version}"` : "",
+          '/d:sonar.host.url="$SONAR_HOST_URL"',
+          '/d:sonar.token="$SONAR_TOKEN"',
+          ...properties,
+        ].filter(Boolean).join(" "),
+      ].join("\n"),
+      shell: "bash",
+      env: SONAR_ENV,
+      warnings: [SONAR_SECRETS_WARNING],
+    };
+  }
+
+  if (mode === "other") {
+    return {
+      run: "# SonarQube analysis runs in the Maven/Gradle build (sonar goal/task)",
+      warnings: [SONAR_SECRETS_WARNING, "SonarQube 'other' scanner mode: run the Maven/Gradle sonar goal with SONAR_TOKEN and SONAR_HOST_URL set."],
+    };
+  }
+
+  if ((taskInput(inputs, "configMode") || "file").toLowerCase() !== "manual") {
+    const configFile = taskInput(inputs, "configFile");
+    return {
+      run: configFile && configFile !== "sonar-project.properties"
+        ? `cp "${configFile}" sonar-project.properties`
+        : "# sonar-project.properties is read by the SonarQube scan step",
+      warnings: [SONAR_SECRETS_WARNING],
+    };
+  }
+
+  const properties: [string, string][] = [
+    ["sonar.projectKey", taskInput(inputs, "cliProjectKey")],
+    ["sonar.projectName", taskInput(inputs, "cliProjectName")],
+    ["sonar.projectVersion", taskInput(inputs, "cliProjectVersion")],
+    ["sonar.sources", taskInput(inputs, "cliSources") || "."],
+    ...sonarProperties(inputs),
+  ];
+  return {
+    run: [
+      "cat > sonar-project.properties <<'EOF'",
+      ...properties.filter(([, v]) => v).map(([k, v]) => `${k}=${v}`),
+      "EOF",
+    ].join("\n"),
+    shell: "bash",
+    warnings: [SONAR_SECRETS_WARNING],
+  };
+}
+
+function sonarQubeAnalyzeTask(): ActionMapping {
+  return {
+    uses: "SonarSource/sonarqube-scan-action@v5",
+    env: SONAR_ENV,
+    warnings: ["If SonarQubePrepare used the .NET scanner, replace this step with 'dotnet sonarscanner end /d:sonar.token=\"$SONAR_TOKEN\"'."],
+  };
+}
+
+function sonarQubePublishTask(inputs: Record<string, string>): ActionMapping {
+  const timeout = parseInt(taskInput(inputs, "pollingTimeoutSec"), 10);
+  return {
+    uses: "SonarSource/sonarqube-quality-gate-action@v1",
+    env: SONAR_ENV,
+    warnings: [
+      "The quality-gate action fails the job when the gate fails; ADO only published the result.",
+      ...(timeout ? [`Set 'timeout-minutes: ${Math.ceil(timeout / 60)}' on the quality-gate step to keep the ADO polling timeout.`] : []),
+    ],
+  };
+}
+
+function gitHubReleaseTask(inputs: Record<string, string>): ActionMapping {
+  const action = (taskInput(inputs, "action") || "create").toLowerCase();
+  const tag = taskInput(inputs, "tagSource") === "userSpecifiedTag"
+    ? taskInput(inputs, "tag")
+    : "${{ github.ref_name }}";
+  const repository = taskInput(inputs, "repositoryName");
+  const otherRepo = repository && !/Build\.Repository\.Name|github\.repository/i.test(repository);
+  const warnings = ["GitHub releases need 'contents: write' permission."];
+  if (otherRepo) warnings.push(`Releasing to ${repository} needs a token with access to that repository instead of GITHUB_TOKEN.`);
+  if (taskInput(inputs, "tagSource") === "gitTag" || !taskInput(inputs, "tagSource")) {
+    warnings.push("Release tag is taken from the triggering ref — run this workflow on tag pushes.");
+  }
+
+  if (action === "delete") {
+    return {
+      run: `gh release delete "${tag}" --yes${otherRepo ? ` --repo "${repository}"` : ""}`,
+      env: { GH_TOKEN: "${{ github.token }}" },
+      warnings,
+    };
+  }
+
+  const notesFromFile = (taskInput(inputs, "releaseNotesSource") || "filePath").toLowerCase() === "filepath";
+  const notes = notesFromFile ? taskInput(inputs, "releaseNotesFilePath", "releaseNotesFile") : taskInput(inputs, "releaseNotesInline", "releaseNotes");
+  const target = taskInput(inputs, "target");
+  return {
+    uses: "softprops/action-gh-release@v2",
+    with: {
+      tag_name: tag,
+      ...(taskInput(inputs, "title") ? { name: taskInput(inputs, "title") } : {}),
+      ...(notes ? { [notesFromFile ? "body_path" : "body"]: notes } : {}),
+      ...(taskInput(inputs, "assets") ? { files: taskInput(inputs, "assets") } : {}),
+      ...(target && !/Build\.SourceVersion|github\.sha/i.test(target) ? { target_commitish: target } : {}),
+      ...(otherRepo ? { repository } : {}),
+      draft: isTrue(taskInput(inputs, "isDraft")) ? "true" : "false",
+      prerelease: isTrue(taskInput(inputs, "isPreRelease")) ? "true" : "false",
+      generate_release_notes: taskInput(inputs, "addChangeLog") !== "false" ? "true" : "false",
+    },
+    warnings: action === "edit"
+      ? [...warnings, "The release action updates the existing release for the tag; asset replacement rules differ from ADO's assetUploadMode."]
+      : warnings,
+  };
+}
+
 // ─── Pool / runs-on mapping ──────────────────────────────────────────────────
 
 function mapPool(pool: any): string {
@@ -281,16 +1033,33 @@ function mapTriggers(triggers: ADOTrigger[] | undefined): Record<string, any> {
 
 // ─── Condition mapping ───────────────────────────────────────────────────────
 
-function mapCondition(adoCondition: string): string | undefined {
-  if (!adoCondition || adoCondition === "succeeded()") return undefined;
-  // Map common ADO conditions
-  return adoCondition
-    .replace(/succeeded\(\)/g, "success()")
-    .replace(/failed\(\)/g, "failure()")
-    .replace(/always\(\)/g, "always()")
-    .replace(/canceled\(\)/g, "cancelled()")
-    .replace(/eq\(variables\['(.+?)'\],\s*'(.+?)'\)/g, "env.$1 == '$2'")
-    .replace(/ne\(variables\['(.+?)'\],\s*'(.+?)'\)/g, "env.$1 != '$2'");
+/**
+ * Translate an ADO condition to an `if:` expression ("" for the default),
+ * reporting caveats as warnings and untranslatable parts as unsupported.
+ * Job outputs the expression reads are added to `outputs`.
+ */
+function mapCondition(
+  condition: string | undefined,
+  label: string,
+  options: ConditionOptions,
+  warnings: string[],
+  unsupported: string[],
+  outputs?: JobOutputReference[]
+): string {
+  if (!condition) return "";
+  const translated = translateAdoCondition(condition, options);
+  for (const note of translated.notes) warnings.push(`${label} condition: ${note}`);
+  for (const part of translated.untranslatable) {
+    unsupported.push(`${label} condition: ${part} — kept as-is in 'if:'; rewrite it by hand.`);
+  }
+  outputs?.push(...translated.outputs);
+  return translated.expression;
+}
+
+/** Both conditions must hold */
+function andConditions(a: string, b: string): string {
+  const wrap = (c: string) => (c.includes("||") ? `(${c})` : c);
+  return a && b ? `${wrap(a)} && ${wrap(b)}` : a || b;
 }
 
 // ─── Variable mapping ────────────────────────────────────────────────────────
@@ -306,7 +1075,7 @@ function mapVariables(
   for (const [key, val] of Object.entries(vars)) {
     if (val.isSecret) {
       secrets.push(key);
-      env[key] = `\${{ secrets.${key.toUpperCase().replace(/[^A-Z0-9_]/g, "_")} }}`;
+      env[key] = `\${{ secrets.${toGitHubSecretName(key)} }}`;
     } else {
       env[key] = val.value;
     }
@@ -314,6 +1083,166 @@ function mapVariables(
   return { env, secrets };
 }
 
+// ─── Matrix / parallel strategy mapping ──────────────────────────────────────
+
+interface MatrixConversion {
+  /** GitHub `strategy:` block */
+  strategy: Record<string, any>;
+  /** ADO variable name → GitHub expression that replaces references to it */
+  refs: Record<string, string>;
+  /** Job env exposing the matrix values to scripts, as ADO does */
+  env: Record<string, string>;
+  /** runs-on when the pool image comes from the matrix */
+  runsOn?: string;
+}
+
+/** Matrix keys can't contain dots — `matrix.python.version` would read a nested value */
+function matrixKey(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+/** `parallel: N` / multi-agent phases → a slice matrix */
+function sliceMatrix(count: number, label: string, warnings: string[]): MatrixConversion {
+  warnings.push(
+    `${label} runs ${count} parallel slices. GitHub has no built-in test slicing — ` +
+    "matrix.slice replaces System.JobPositionInPhase; split the work across slices in your scripts."
+  );
+  return {
+    strategy: { "fail-fast": false, matrix: { slice: Array.from({ length: count }, (_, i) => i + 1) } },
+    refs: { "System.JobPositionInPhase": "matrix.slice", "System.TotalJobsInPhase": String(count) },
+    env: { SYSTEM_JOBPOSITIONINPHASE: "${{ matrix.slice }}", SYSTEM_TOTALJOBSINPHASE: String(count) },
+  };
+}
+
+/** Convert a YAML job's `strategy: matrix:` / `parallel:` */
+function convertYamlStrategy(job: Record<string, any>, label: string, warnings: string[]): MatrixConversion | null {
+  const strategy = job.strategy;
+  if (!strategy || typeof strategy !== "object") return null;
+  const maxParallel = strategy.maxParallel ? { "max-parallel": Number(strategy.maxParallel) } : {};
+
+  if (strategy.parallel !== undefined) {
+    const count = Number(strategy.parallel);
+    if (!Number.isInteger(count) || count < 1) {
+      warnings.push(`${label} sets parallel: ${strategy.parallel} — set strategy.matrix manually.`);
+      return null;
+    }
+    const slices = sliceMatrix(count, label, warnings);
+    return { ...slices, strategy: { ...slices.strategy, ...maxParallel } };
+  }
+
+  if (!strategy.matrix) return null;
+  if (typeof strategy.matrix === "string") {
+    warnings.push(
+      `${label} builds its matrix at runtime (${strategy.matrix}) — output it as JSON from a previous job and use fromJSON() in strategy.matrix.`
+    );
+    return null;
+  }
+
+  // Each ADO leg becomes an include entry; the leg name keeps jobs distinguishable
+  const names = [...new Set(Object.values<any>(strategy.matrix).flatMap(leg => Object.keys(leg ?? {})))];
+  const legKey = names.some(n => matrixKey(n) === "leg") ? "matrix_leg" : "leg";
+  const poolVar = String(job.pool?.vmImage ?? "").match(/^\$\(([^)]+)\)$/)?.[1];
+
+  const include = Object.entries<any>(strategy.matrix).map(([leg, vars]) => {
+    const entry: Record<string, string> = { [legKey]: leg };
+    for (const [name, value] of Object.entries(vars ?? {})) {
+      entry[matrixKey(name)] = name === poolVar ? mapPool({ vmImage: String(value) }) : String(value);
+    }
+    return entry;
+  });
+
+  const refs: Record<string, string> = {};
+  const env: Record<string, string> = {};
+  for (const name of names) {
+    refs[name] = `matrix.${matrixKey(name)}`;
+    env[toGitHubSecretName(name)] = `\${{ matrix.${matrixKey(name)} }}`;
+  }
+
+  return {
+    // ADO keeps running the other legs when one fails
+    strategy: { "fail-fast": false, ...maxParallel, matrix: { include } },
+    refs,
+    env,
+    ...(poolVar && names.includes(poolVar) ? { runsOn: `\${{ matrix.${matrixKey(poolVar)} }}` } : {}),
+  };
+}
+
+/** Convert a classic phase's multi-configuration (multipliers) or multi-agent option */
+function convertClassicStrategy(
+  phase: ADOClassicPhase,
+  vars: Record<string, { value: string; isSecret?: boolean }> | undefined,
+  warnings: string[]
+): MatrixConversion | null {
+  const options = phase.target?.executionOptions;
+  const label = `Phase "${phase.name}"`;
+  const maxParallel = options?.maxConcurrency > 0 ? { "max-parallel": Number(options.maxConcurrency) } : {};
+
+  if (options?.type === 2) {
+    return sliceMatrix(Math.max(1, Number(options.maxConcurrency) || 1), label, warnings);
+  }
+  if (options?.type !== 1 || !options.multipliers) return null;
+
+  const matrix: Record<string, string[]> = {};
+  const refs: Record<string, string> = {};
+  const env: Record<string, string> = {};
+  for (const name of String(options.multipliers).split(/[,;]/).map((m: string) => m.trim()).filter(Boolean)) {
+    const variable = Object.entries(vars ?? {}).find(([k]) => k.toLowerCase() === name.toLowerCase());
+    if (!variable) {
+      warnings.push(`${label} multiplies by '${name}', which is not a pipeline variable — add it to strategy.matrix manually.`);
+      continue;
+    }
+    matrix[matrixKey(variable[0])] = variable[1].value.split(",").map(v => v.trim()).filter(Boolean);
+    refs[variable[0]] = `matrix.${matrixKey(variable[0])}`;
+    env[variable[0]] = `\${{ matrix.${matrixKey(variable[0])} }}`;
+  }
+  if (Object.keys(matrix).length === 0) return null;
+
+  return {
+    strategy: { ...(options.continueOnError ? { "fail-fast": false } : {}), ...maxParallel, matrix },
+    refs,
+    env,
+  };
+}
+
+/** Point `$(var)`, `${{ env.var }}` and `env.var` at the matrix value */
+function rewriteMatrixRefs<T>(node: T, refs: Record<string, string>): T {
+  if (typeof node === "string") {
+    let result: string = node;
+    for (const [name, expr] of Object.entries(refs)) {
+      const n = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      // Literal values (slice counts) are substituted as is
+      const value = /^[0-9]+$/.test(expr) ? expr : `\${{ ${expr} }}`;
+      result = result
+        .replace(new RegExp(`\\$\\(${n}\\)`, "gi"), value)
+        .replace(new RegExp(`\\$\\{\\{\\s*env\\.${n}\\s*\\}\\}`, "gi"), value)
+        .replace(new RegExp(`\\benv\\.${n}\\b`, "gi"), expr);
+    }
+    return result as T;
+  }
+  if (Array.isArray(node)) return node.map(item => rewriteMatrixRefs(item, refs)) as T;
+  if (node && typeof node === "object") {
+    return Object.fromEntries(Object.entries(node).map(([k, v]) => [k, rewriteMatrixRefs(v, refs)])) as T;
+  }
+  return node;
+}
+
+/** Add a converted strategy to a YAML-converted job, keeping steps last */
+function applyMatrix(ghJob: Record<string, any>, matrix: MatrixConversion, warnings: string[]): Record<string, any> {
+  const { env, steps, ...rest } = ghJob;
+  const condition = rest.if ? rewriteMatrixRefs(rest.if, matrix.refs) : undefined;
+  if (condition?.includes("matrix.")) {
+    warnings.push(`Job "${ghJob.name}" condition uses matrix values, which job-level if: can't read — move it to the steps.`);
+  }
+  return {
+    ...rest,
+    ...(matrix.runsOn ? { "runs-on": matrix.runsOn } : {}),
+    ...(condition ? { if: condition } : {}),
+    strategy: matrix.strategy,
+    env: { ...env, ...matrix.env },
+    steps: rewriteMatrixRefs(steps, matrix.refs),
+  };
+}
+
 // ─── Step conversion ─────────────────────────────────────────────────────────
 
 interface GHStep {
@@ -327,10 +1256,17 @@ interface GHStep {
   "working-directory"?: string;
 }
 
+/** Major version of a classic or release task ("2.*" → 2) */
+function classicTaskVersion(step: ADOClassicStep | ADOReleaseTask): number | undefined {
+  const major = parseInt(("task" in step ? step.task.versionSpec : step.version) ?? "", 10);
+  return Number.isNaN(major) ? undefined : major;
+}
+
 function convertStep(
   step: ADOClassicStep | ADOReleaseTask,
   warnings: string[],
-  unsupported: string[]
+  unsupported: string[],
+  customTasks?: CustomTaskMapping[]
 ): GHStep | null {
   if ("enabled" in step && !step.enabled) return null;
 
@@ -352,23 +1288,29 @@ function convertStep(
     if (isPowerShell && inputs.targetType === "inline") ghStep.shell = "pwsh";
     if (inputs.workingDirectory) ghStep["working-directory"] = inputs.workingDirectory;
     if (step.environment && Object.keys(step.environment).length > 0) ghStep.env = step.environment;
-    const cond = mapCondition(step.condition);
+    const cond = mapCondition(step.condition, `Task "${displayName}"`, { scope: "step" }, warnings, unsupported);
     if (cond) ghStep.if = cond;
     return ghStep;
   }
 
-  // Look up the task in our mapping table
+  // Look up the task in the user's mappings, then our mapping table
+  const version = classicTaskVersion(step);
+  const custom = findTaskMapping(customTasks, { id: taskId, version });
   const mapper = TASK_MAP[taskId];
-  if (mapper) {
-    const mapping = mapper(inputs);
+  if (custom || mapper) {
+    // Same $(var) conversion as YAML task inputs
+    const converted: Record<string, string> = {};
+    for (const [k, v] of Object.entries(inputs)) converted[k] = convertAdoVariableRefs(String(v ?? ""));
+    const mapping: AppliedTaskMapping = custom ? applyTaskMapping(custom, converted, version) : mapper(converted);
     const ghStep: GHStep = { name: displayName };
     if (mapping.uses) ghStep.uses = mapping.uses;
     if (mapping.run) ghStep.run = mapping.run;
     if (mapping.with) ghStep.with = mapping.with;
-    if ((mapping as any).shell) ghStep.shell = (mapping as any).shell;
-    if ((mapping as any)["working-directory"]) ghStep["working-directory"] = (mapping as any)["working-directory"];
+    if (mapping.shell) ghStep.shell = mapping.shell;
+    if (mapping["working-directory"]) ghStep["working-directory"] = mapping["working-directory"];
     if (step.environment && Object.keys(step.environment).length > 0) ghStep.env = step.environment;
-    const cond = mapCondition(step.condition);
+    if (mapping.env) ghStep.env = { ...mapping.env, ...ghStep.env };
+    const cond = mapCondition(step.condition, `Task "${displayName}"`, { scope: "step" }, warnings, unsupported);
     if (cond) ghStep.if = cond;
     if (mapping.warnings) warnings.push(...mapping.warnings);
     return ghStep;
@@ -403,6 +1345,13 @@ function yamlValue(v: unknown): string {
   return s;
 }
 
+/** `key: value` lines, with multi-line values as a block scalar indented under the key */
+function yamlEntry(pfx: string, key: string, v: unknown): string[] {
+  if (typeof v !== "string" || !v.includes("\n")) return [`${pfx}${key}: ${yamlValue(v)}`];
+  const lines = v.replace(/\n$/, "").split("\n").map(l => (l ? `${pfx}  ${l}` : ""));
+  return [`${pfx}${key}: ${v.endsWith("\n") ? "|" : "|-"}`, ...lines];
+}
+
 function renderSteps(steps: (GHStep | null)[], lvl: number): string {
   const lines: string[] = [];
   for (const step of steps) {
@@ -426,13 +1375,13 @@ function renderSteps(steps: (GHStep | null)[], lvl: number): string {
     if (step.with && Object.keys(step.with).length > 0) {
       lines.push(`${pfx}  with:`);
       for (const [k, v] of Object.entries(step.with)) {
-        lines.push(`${pfx}    ${k}: ${yamlValue(v)}`);
+        lines.push(...yamlEntry(`${pfx}    `, k, v));
       }
     }
     if (step.env && Object.keys(step.env).length > 0) {
       lines.push(`${pfx}  env:`);
       for (const [k, v] of Object.entries(step.env)) {
-        lines.push(`${pfx}    ${k}: ${yamlValue(v)}`);
+        lines.push(...yamlEntry(`${pfx}    `, k, v));
       }
     }
   }
@@ -587,6 +1536,31 @@ const ADO_YAML_TASK_MAP: Record<string, (inputs: Record<string, string>, version
     uses: "actions/dependency-review-action@v4",
     warnings: ["ADO Dependency Scanning replaced with dependency-review-action. Only runs on PRs by default."],
   }),
+  // ── Marketplace tasks (shared with TASK_MAP) ───────────────────────────────
+  vsbuild: vsBuildTask,
+  msbuild: msbuildTask,
+  vstest: vsTestTask,
+  publishtestresults: publishTestResultsTask,
+  publishcodecoverageresults: publishCodeCoverageTask,
+  archivefiles: archiveFilesTask,
+  extractfiles: extractFilesTask,
+  azurefunctionapp: azureFunctionAppTask,
+  azurekeyvault: azureKeyVaultTask,
+  azurestaticwebapp: azureStaticWebAppTask,
+  kubernetesmanifest: kubernetesManifestTask,
+  helmdeploy: helmDeployTask,
+  kubernetes: kubernetesTask,
+  terraformtaskv2: terraformTask,
+  terraformtaskv3: terraformTask,
+  terraformtaskv4: terraformTask,
+  cache: cacheTask,
+  nugetauthenticate: nugetAuthenticateTask,
+  npmauthenticate: npmAuthenticateTask,
+  dockercompose: dockerComposeTask,
+  sonarqubeprepare: sonarQubePrepareTask,
+  sonarqubeanalyze: sonarQubeAnalyzeTask,
+  sonarqubepublish: sonarQubePublishTask,
+  githubrelease: gitHubReleaseTask,
 };
 
 /**
@@ -612,51 +1586,40 @@ function convertAdoVariableRefs(value: string, secretNames?: Set<string>): strin
   if (typeof value !== "string") return String(value ?? "");
 
   const predefinedMap: Record<string, string> = {
-    "Build.SourceBranch": "github.ref",
-    "Build.SourceBranchName": "github.ref_name",
-    "Build.Repository.Name": "github.repository",
-    "Build.BuildId": "github.run_id",
-    "Build.BuildNumber": "github.run_number",
-    "Build.SourceVersion": "github.sha",
-    "Build.Reason": "github.event_name",
-    "System.PullRequest.PullRequestId": "github.event.pull_request.number",
-    "System.TeamProject": "github.repository",
-    "Agent.BuildDirectory": "github.workspace",
-    "Build.ArtifactStagingDirectory": "github.workspace/artifacts",
-    "Build.SourcesDirectory": "github.workspace",
-    "build.artifactstagingdirectory": "github.workspace/artifacts",
+    "Build.SourceBranch": "${{ github.ref }}",
+    "Build.SourceBranchName": "${{ github.ref_name }}",
+    "Build.Repository.Name": "${{ github.repository }}",
+    "Build.BuildId": "${{ github.run_id }}",
+    "Build.BuildNumber": "${{ github.run_number }}",
+    "Build.SourceVersion": "${{ github.sha }}",
+    "Build.Reason": "${{ github.event_name }}",
+    "System.PullRequest.PullRequestId": "${{ github.event.pull_request.number }}",
+    "System.TeamProject": "${{ github.repository }}",
+    "Agent.BuildDirectory": "${{ github.workspace }}",
+    "Build.ArtifactStagingDirectory": "${{ github.workspace }}/artifacts",
+    "Build.SourcesDirectory": "${{ github.workspace }}",
+    "System.DefaultWorkingDirectory": "${{ github.workspace }}",
+    "Pipeline.Workspace": "${{ github.workspace }}",
+    "Agent.OS": "${{ runner.os }}",
+    "Agent.TempDirectory": "${{ runner.temp }}",
+    "build.artifactstagingdirectory": "${{ github.workspace }}/artifacts",
   };
 
   let result = value;
-  for (const [adoVar, ghVar] of Object.entries(predefinedMap)) {
+  for (const [adoVar, ghExpr] of Object.entries(predefinedMap)) {
     const re = new RegExp(`\\$\\(${adoVar.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\)`, "gi");
-    result = result.replace(re, `\${{ ${ghVar} }}`);
+    result = result.replace(re, ghExpr);
   }
   // Remaining $(VarName) → ${{ secrets.X }} if known secret, else ${{ env.VarName }}
   result = result.replace(/\$\(([^)]+)\)/g, (_m, v) => {
     if (secretNames?.has(v)) {
-      return `\${{ secrets.${v.toUpperCase().replace(/[^A-Z0-9_]/g, "_")} }}`;
+      return `\${{ secrets.${toGitHubSecretName(v)} }}`;
     }
     return `\${{ env.${v} }}`;
   });
   return result;
 }
 
-/** Convert an ADO YAML condition to a GH Actions `if:` expression. */
-function convertAdoYamlCondition(cond: string): string {
-  if (!cond || cond === "succeeded()") return "";
-  return cond
-    .replace(/succeeded\(\)/g, "success()")
-    .replace(/failed\(\)/g, "failure()")
-    .replace(/always\(\)/g, "always()")
-    .replace(/canceled\(\)/g, "cancelled()")
-    .replace(/succeededOrFailed\(\)/g, "always()")
-    .replace(/variables\['Build\.Reason'\]/g, "github.event_name")
-    .replace(/'PullRequest'/g, "'pull_request'")
-    .replace(/variables\['([^']+)'\]/g, "env.$1")
-    .replace(/variables\.([a-zA-Z_][a-zA-Z0-9_.]*)/g, "env.$1");
-}
-
 /** Convert an ADO pool spec to runs-on. */
 function convertPoolSpec(pool: any): string {
   if (!pool) return "ubuntu-latest";
@@ -670,7 +1633,8 @@ function convertPoolSpec(pool: any): string {
 function convertAdoYamlStep(
   step: Record<string, any>,
   warnings: string[],
-  unsupportedItems: string[]
+  unsupportedItems: string[],
+  context: ConversionContext = {}
 ): Record<string, any> | null {
   // checkout:
   if ("checkout" in step) {
@@ -708,7 +1672,7 @@ function convertAdoYamlStep(
     const converted: Record<string, string> = {};
     for (const [k, v] of Object.entries(step.env as Record<string, any>)) {
       if (stepSecrets.has(k)) {
-        converted[k] = `\${{ secrets.${k.toUpperCase().replace(/[^A-Z0-9_]/g, "_")} }}`;
+        converted[k] = `\${{ secrets.${toGitHubSecretName(k)} }}`;
       } else {
         converted[k] = convertAdoVariableRefs(String(v), stepSecrets);
       }
@@ -754,6 +1718,8 @@ function convertAdoYamlStep(
 
   // template:
   if ("template" in step) {
+    const converted = context.shared?.get(step.template);
+    if (converted) return sharedStepCall(converted, step.parameters);
     warnings.push(`Step template "${step.template}" used — convert to composite action or reusable workflow.`);
     return {
       name: step.displayName || `Template: ${step.template}`,
@@ -771,9 +1737,14 @@ function convertAdoYamlStep(
       }
     }
 
+    // User-supplied mappings win over the built-in ones
+    const custom = findTaskMapping(context.customTasks, {
+      name: step.task,
+      version: step.task.includes("@") ? version : undefined,
+    });
     const mapper = ADO_YAML_TASK_MAP[key];
-    if (mapper) {
-      const mapping = mapper(inputs, version);
+    if (custom || mapper) {
+      const mapping: AppliedTaskMapping = custom ? applyTaskMapping(custom, inputs, version) : mapper(inputs, version);
       const ghStep: Record<string, any> = {};
       if (step.displayName) ghStep.name = step.displayName;
       if (mapping.uses) ghStep.uses = mapping.uses;
@@ -781,21 +1752,18 @@ function convertAdoYamlStep(
       if (mapping.with) ghStep.with = mapping.with;
       if (mapping.shell) ghStep.shell = mapping.shell;
       if (mapping["working-directory"]) ghStep["working-directory"] = mapping["working-directory"];
-      if (step.condition) {
-        const c = convertAdoYamlCondition(step.condition);
-        if (c) ghStep.if = c;
-      }
       if (step.env) {
         const converted: Record<string, string> = {};
         for (const [k, v] of Object.entries(step.env as Record<string, any>)) {
           if (stepSecrets.has(k)) {
-            converted[k] = `\${{ secrets.${k.toUpperCase().replace(/[^A-Z0-9_]/g, "_")} }}`;
+            converted[k] = `\${{ secrets.${toGitHubSecretName(k)} }}`;
           } else {
             converted[k] = convertAdoVariableRefs(String(v), stepSecrets);
           }
         }
         ghStep.env = converted;
       }
+      if (mapping.env) ghStep.env = { ...mapping.env, ...ghStep.env };
       if (mapping.warnings) warnings.push(...mapping.warnings);
       return ghStep;
     }
@@ -805,7 +1773,6 @@ function convertAdoYamlStep(
     return {
       name: `${step.displayName || step.task} (UNSUPPORTED — manual conversion required)`,
       run: `echo "TODO: Convert ADO task '${step.task}'"`,
-      ...(step.condition ? { if: convertAdoYamlCondition(step.condition) } : {}),
     };
   }
 
@@ -832,7 +1799,7 @@ function convertAdoYamlVariables(vars: any): { env: Record<string, string>; secr
       if (item.name && item.value !== undefined) {
         if (item.isSecret) {
           secrets.push(item.name);
-          env[item.name] = `\${{ secrets.${item.name.toUpperCase().replace(/[^A-Z0-9_]/g, "_")} }}`;
+          env[item.name] = `\${{ secrets.${toGitHubSecretName(item.name)} }}`;
         } else {
           env[item.name] = convertAdoVariableRefs(String(item.value));
         }
@@ -888,7 +1855,8 @@ function convertAdoYamlPipeline(
   def: ADOBuildDefinitionDetail,
   warnings: string[],
   unsupported: string[],
-  manualSteps: string[]
+  manualSteps: string[],
+  customTasks?: CustomTaskMapping[]
 ): ConversionResult {
   let parsed: Record<string, any>;
   try {
@@ -910,6 +1878,9 @@ function convertAdoYamlPipeline(
     };
   }
 
+  // Templates are expanded when the definition is fetched; report what wasn't
+  warnings.push(...(def.templateWarnings ?? []));
+
   // ── Handle `extends:` — flatten template parameters into main body ─────────
   if (parsed.extends) {
     const tmpl = parsed.extends.template;
@@ -950,18 +1921,26 @@ function convertAdoYamlPipeline(
     warnings.push("Pipeline uses resource containers — map to GitHub Actions service containers.");
   }
 
+  // ── Shared templates ───────────────────────────────────────────────────────
+  const suggestedFilename = sanitizeFilename(def.name) + ".yml";
+  const shared: SharedTemplateIndex = new Map();
+  const context: ConversionContext = { shared, customTasks };
+  for (const template of def.sharedTemplates ?? []) {
+    shared.set(template.ref, convertSharedTemplate(template, context, suggestedFilename, warnings, unsupported, manualSteps));
+  }
+
   // ── Build jobs ─────────────────────────────────────────────────────────────
   const ghJobs: Record<string, any> = {};
 
   if (parsed.stages) {
-    convertStages(parsed.stages, ghJobs, defaultRunsOn, allEnv, warnings, unsupported, manualSteps);
+    convertStages(parsed.stages, ghJobs, defaultRunsOn, allEnv, warnings, unsupported, manualSteps, context);
   } else if (parsed.jobs) {
-    convertYamlJobs(parsed.jobs, ghJobs, defaultRunsOn, allEnv, warnings, unsupported);
+    convertYamlJobs(parsed.jobs, ghJobs, defaultRunsOn, allEnv, warnings, unsupported, context);
   } else if (parsed.steps) {
-    const steps = convertStepsList(parsed.steps, warnings, unsupported);
+    const steps = convertStepsList(parsed.steps, warnings, unsupported, context);
+    // Variables go in the workflow-level env below
     ghJobs.build = {
       "runs-on": defaultRunsOn,
-      ...(Object.keys(allEnv).length > 0 ? { env: allEnv } : {}),
       steps: [{ uses: "actions/checkout@v4" }, ...steps],
     };
   } else {
@@ -978,6 +1957,7 @@ function convertAdoYamlPipeline(
     workflow.env = allEnv;
   }
   workflow.jobs = ghJobs;
+  templateCallManualSteps(shared, manualSteps);
 
   const workflowYaml =
     `# Converted from ADO YAML pipeline: ${def.name} (ID: ${def.id})\n` +
@@ -985,11 +1965,185 @@ function convertAdoYamlPipeline(
 
   return {
     workflowYaml,
-    suggestedFilename: sanitizeFilename(def.name) + ".yml",
+    suggestedFilename,
     warnings, unsupported, manualSteps,
+    ...(shared.size > 0
+      ? { additionalFiles: [...shared.values()].map(c => ({ path: c.path, content: c.content })) }
+      : {}),
   };
 }
 
+// ─── Deployment strategies ───────────────────────────────────────────────────
+
+/** Lifecycle hooks in the order ADO runs them */
+const LIFECYCLE_HOOKS = ["preDeploy", "deploy", "routeTraffic", "postRouteTraffic"] as const;
+
+/** Converted deployment hook steps, grouped by when ADO runs them */
+interface DeploymentHooks {
+  /** preDeploy — once, before the first iteration */
+  preDeploy: Record<string, any>[];
+  /** deploy, routeTraffic and postRouteTraffic — once per iteration (each canary increment) */
+  iteration: Record<string, any>[];
+  /** `on: failure` / `on: success` — once, after the last iteration */
+  outcome: Record<string, any>[];
+}
+
+/**
+ * Steps of a deployment strategy: each lifecycle hook in order, then the
+ * `on: failure` / `on: success` hooks guarded by failure() / success().
+ */
+function deploymentHookSteps(
+  block: Record<string, any>,
+  label: string,
+  warnings: string[],
+  unsupported: string[],
+  context: ConversionContext = {}
+): DeploymentHooks {
+  const hooks: DeploymentHooks = { preDeploy: [], iteration: [], outcome: [] };
+  const hookSteps = (hook: any, name: string) => {
+    if (hook.pool) {
+      warnings.push(`${label}: the ${name} hook runs on its own pool in ADO — it runs in the deployment job here.`);
+    }
+    return convertStepsList(hook.steps, warnings, unsupported, context);
+  };
+
+  for (const name of LIFECYCLE_HOOKS) {
+    if (block[name]) (name === "preDeploy" ? hooks.preDeploy : hooks.iteration).push(...hookSteps(block[name], name));
+  }
+  if (block.deploy && !(block.deploy.steps ?? []).some((s: any) => "download" in s)) {
+    warnings.push(`${label}: ADO downloads pipeline artifacts automatically in the deploy hook — add actions/download-artifact if the job needs them.`);
+  }
+
+  for (const [outcome, fn] of [["failure", "failure()"], ["success", "success()"]] as const) {
+    if (!block.on?.[outcome]) continue;
+    for (const { name, if: cond, ...rest } of hookSteps(block.on[outcome], `on.${outcome}`)) {
+      hooks.outcome.push({ ...(name ? { name } : {}), if: cond ? `${fn} && (${cond})` : fn, ...rest });
+    }
+  }
+  return hooks;
+}
+
+/** All hook steps of a deployment that runs once */
+function allHookSteps(hooks: DeploymentHooks): Record<string, any>[] {
+  return [...hooks.preDeploy, ...hooks.iteration, ...hooks.outcome];
+}
+
+/** Strategy block of a deployment job (runOnce, rolling or canary) */
+function deploymentStrategy(job: Record<string, any>): Record<string, any> | undefined {
+  return job.strategy?.runOnce ?? job.strategy?.rolling ?? job.strategy?.canary;
+}
+
+/**
+ * Jobs for a converted deployment job. runOnce stays one job; rolling becomes
+ * a matrix scaffold over the environment's targets and canary one scaffold
+ * job per increment, chained with needs. preDeploy runs only in the first
+ * increment and the on: success / on: failure hooks only in the last.
+ */
+function deploymentJobs(
+  ghJob: Record<string, any>,
+  jobId: string,
+  job: Record<string, any>,
+  hooks: DeploymentHooks | undefined,
+  label: string,
+  warnings: string[],
+  unsupported: string[]
+): Record<string, Record<string, any>> {
+  const { steps, ...rest } = ghJob;
+
+  if (job.strategy?.rolling) {
+    const maxParallel = job.strategy.rolling.maxParallel;
+    unsupported.push(
+      `${label} uses a rolling deployment to environment VMs. GitHub has no VM resource targets — ` +
+      "the job is a scaffold with one matrix entry per target."
+    );
+    if (typeof maxParallel === "string" && maxParallel.endsWith("%")) {
+      warnings.push(`${label}: rolling maxParallel ${maxParallel} is a percentage — set max-parallel to a target count.`);
+    }
+    return {
+      [jobId]: {
+        ...rest,
+        strategy: {
+          ...(Number(maxParallel) > 0 ? { "max-parallel": Number(maxParallel) } : {}),
+          matrix: { target: ["TODO-target"] },
+        },
+        steps: [
+          { name: "TODO: rolling deployment", run: 'echo "TODO: deploy to ${{ matrix.target }} — list the environment targets in strategy.matrix"' },
+          ...steps,
+        ],
+      },
+    };
+  }
+
+  if (job.strategy?.canary && hooks) {
+    const increments: number[] = (job.strategy.canary.increments ?? []).map(Number).filter((n: number) => n > 0);
+    if (increments.length === 0) {
+      warnings.push(`${label}: canary strategy has no increments — converted as a single deployment.`);
+      return { [jobId]: ghJob };
+    }
+    unsupported.push(
+      `${label} uses a canary deployment — one scaffold job per increment (${increments.join("%, ")}%); ` +
+      "add the traffic split for your platform."
+    );
+
+    if (hooks.outcome.length > 0 && increments.length > 1) {
+      warnings.push(`${label}: the on: success / on: failure hooks run in the last canary increment — a failure in an earlier increment skips them.`);
+    }
+    // Steps the caller put ahead of the hooks (the checkout)
+    const lead = steps.slice(0, steps.length - allHookSteps(hooks).length);
+    const jobs: Record<string, Record<string, any>> = {};
+    let needs = rest.needs;
+    increments.forEach((increment, i) => {
+      const id = `${jobId}_canary_${increment}`;
+      jobs[id] = {
+        ...rest,
+        name: `${rest.name} (canary ${increment}%)`,
+        ...(needs ? { needs } : {}),
+        env: { ...rest.env, CANARY_INCREMENT: String(increment) },
+        steps: rewriteMatrixRefs([
+          ...lead,
+          ...(i === 0 ? hooks.preDeploy : []),
+          { name: `TODO: canary increment ${increment}%`, run: `echo "TODO: route ${increment}% of traffic to the new version"` },
+          ...hooks.iteration,
+          ...(i === increments.length - 1 ? hooks.outcome : []),
+        ], { "strategy.increment": String(increment) }),
+      };
+      needs = [id];
+    });
+    return jobs;
+  }
+
+  return { [jobId]: ghJob };
+}
+
+/** Point `needs` at the last job of an expanded deployment (e.g. the final canary increment) */
+function renameNeeds(ghJobs: Record<string, any>, renamed: Map<string, string>): void {
+  for (const ghJob of Object.values(ghJobs)) {
+    if (Array.isArray(ghJob.needs)) ghJob.needs = ghJob.needs.map((id: string) => renamed.get(id) ?? id);
+  }
+}
+
+/**
+ * Declare the job outputs that conditions read through needs.<job>.outputs,
+ * mapped from the step that sets them.
+ */
+function declareJobOutputs(ghJobs: Record<string, any>, outputs: JobOutputReference[], warnings: string[]): void {
+  for (const { job, step, name } of outputs) {
+    const ghJob = ghJobs[job];
+    // Reusable workflow calls get their outputs from the called workflow
+    if (!ghJob || ghJob.uses || ghJob.outputs?.[name]) continue;
+    const { steps, ...rest } = ghJob;
+    ghJobs[job] = {
+      ...rest,
+      outputs: { ...rest.outputs, [name]: `\${{ steps.${step}.outputs.${name} }}` },
+      ...(steps ? { steps } : {}),
+    };
+    warnings.push(
+      `Job "${job}" exposes output "${name}" from step "${step}" — the step must write it with ` +
+      `echo "${name}=…" >> "$GITHUB_OUTPUT" instead of ##vso[task.setvariable variable=${name};isOutput=true].`
+    );
+  }
+}
+
 /** Convert ADO stages[] to GH jobs (flattened — one job per stage/job). */
 function convertStages(
   stages: any[],
@@ -998,13 +2152,40 @@ function convertStages(
   globalEnv: Record<string, string>,
   warnings: string[],
   unsupported: string[],
-  manualSteps: string[]
+  manualSteps: string[],
+  context: ConversionContext = {}
 ): void {
   let prevStageJobIds: string[] = [];
+  const renamed = new Map<string, string>();
+  const outputs: JobOutputReference[] = [];
 
   for (const stage of stages) {
+    // Stage template kept as a reference → one job calling the reusable workflow
+    if (stage.template) {
+      const converted = context.shared?.get(stage.template);
+      if (!converted) {
+        warnings.push(`Stage template "${stage.template}" could not be converted — add its jobs manually.`);
+        continue;
+      }
+      const jobId = templateCallId(converted.template.name, stage.parameters, isRepeatedTemplate(stages, stage.template), ghJobs);
+      ghJobs[jobId] = {
+        ...(prevStageJobIds.length > 0 ? { needs: prevStageJobIds } : {}),
+        ...sharedJobCall(converted, stage.parameters, warnings),
+      };
+      prevStageJobIds = [jobId];
+      continue;
+    }
+
     const stageName = stage.stage || stage.displayName || "stage";
-    const stageCondition = stage.condition ? convertAdoYamlCondition(stage.condition) : "";
+    const stageJob = (depStage: string, depJob: string): string => {
+      const id = sanitizeJobId(`${depStage}_${depJob}`);
+      return renamed.get(id) ?? id;
+    };
+    const stageCondition = mapCondition(stage.condition, `Stage "${stageName}"`, {
+      scope: "stage",
+      resolveStage: depStage => Object.keys(ghJobs).filter(id => id.startsWith(sanitizeJobId(depStage) + "_")),
+      resolveStageJob: (depStage, depJob) => (ghJobs[stageJob(depStage, depJob)] ? stageJob(depStage, depJob) : undefined),
+    }, warnings, unsupported, outputs);
     const stageRunsOn = stage.pool ? convertPoolSpec(stage.pool) : defaultRunsOn;
     const stageVars = convertAdoYamlVariables(stage.variables);
     const stageEnv = { ...globalEnv, ...stageVars.env };
@@ -1017,16 +2198,18 @@ function convertStages(
     }
 
     for (const job of jobs) {
+      const converted = job.template ? context.shared?.get(job.template) : undefined;
+      if (job.template && !converted) {
+        warnings.push(`Job template "${job.template}" could not be converted — add its jobs manually.`);
+        continue;
+      }
       const isDeployment = "deployment" in job;
-      const jobName = job.job || job.deployment || "job";
-      const jobId = sanitizeJobId(`${stageName}_${jobName}`);
+      const jobName = job.job || job.deployment || converted?.template.name || "job";
+      const jobId = converted
+        ? templateCallId(`${stageName}_${jobName}`, job.parameters, isRepeatedTemplate(jobs, job.template), ghJobs)
+        : sanitizeJobId(`${stageName}_${jobName}`);
       currentStageJobIds.push(jobId);
 
-      const ghJob: Record<string, any> = {
-        name: job.displayName || `${stageName} - ${jobName}`,
-        "runs-on": job.pool ? convertPoolSpec(job.pool) : stageRunsOn,
-      };
-
       // Dependencies
       const needsList: string[] = [];
       if (stage.dependsOn) {
@@ -1045,14 +2228,31 @@ function convertStages(
           if (!needsList.includes(depId)) needsList.push(depId);
         }
       }
+
+      // Job template kept as a reference → call the reusable workflow
+      if (converted) {
+        ghJobs[jobId] = {
+          ...(needsList.length > 0 ? { needs: needsList } : {}),
+          ...(stageCondition ? { if: stageCondition } : {}),
+          ...sharedJobCall(converted, job.parameters, warnings),
+        };
+        continue;
+      }
+
+      const ghJob: Record<string, any> = {
+        name: job.displayName || `${stageName} - ${jobName}`,
+        "runs-on": job.pool ? convertPoolSpec(job.pool) : stageRunsOn,
+      };
       if (needsList.length > 0) ghJob.needs = needsList;
 
       // Conditions
-      if (stageCondition) ghJob.if = stageCondition;
-      if (job.condition) {
-        const jc = convertAdoYamlCondition(job.condition);
-        if (jc) ghJob.if = ghJob.if ? `${ghJob.if} && ${jc}` : jc;
-      }
+      const jobCondition = mapCondition(job.condition, `Job "${stageName}.${jobName}"`, {
+        scope: "job",
+        resolveJob: dep => (jobs.some(j => (j.job || j.deployment) === dep) ? stageJob(stageName, dep) : undefined),
+        resolveStageJob: (depStage, depJob) => (ghJobs[stageJob(depStage, depJob)] ? stageJob(depStage, depJob) : undefined),
+      }, warnings, unsupported, outputs);
+      const condition = andConditions(stageCondition, jobCondition);
+      if (condition) ghJob.if = condition;
 
       // Environment (deployment jobs)
       if (isDeployment) {
@@ -1063,30 +2263,34 @@ function convertStages(
 
       if (Object.keys(stageEnv).length > 0) ghJob.env = { ...stageEnv };
 
-      // Steps
-      let rawSteps: any[] = [];
-      if (isDeployment) {
-        rawSteps = job.strategy?.runOnce?.deploy?.steps
-          || job.strategy?.rolling?.deploy?.steps
-          || job.strategy?.canary?.deploy?.steps
-          || [];
-      } else {
-        rawSteps = job.steps || [];
-      }
-
-      const convertedSteps = convertStepsList(rawSteps, warnings, unsupported);
+      // Steps — deployment jobs run their lifecycle hooks in order
+      const label = `Job "${stageName}.${jobName}"`;
+      const strategyBlock = isDeployment ? deploymentStrategy(job) : undefined;
+      const hooks = strategyBlock ? deploymentHookSteps(strategyBlock, label, warnings, unsupported, context) : undefined;
+      const convertedSteps = hooks ? allHookSteps(hooks) : convertStepsList(job.steps || [], warnings, unsupported, context);
       const hasCheckout = convertedSteps.some((s: any) => s.uses?.startsWith("actions/checkout"));
-      if (!hasCheckout && !isDeployment) {
+      // Local composite actions need the repo checked out, even in deployment jobs
+      if (!hasCheckout && (!isDeployment || usesLocalAction(convertedSteps))) {
         ghJob.steps = [{ uses: "actions/checkout@v4" }, ...convertedSteps];
       } else {
         ghJob.steps = convertedSteps;
       }
 
-      ghJobs[jobId] = ghJob;
+      if (isDeployment) {
+        const jobs = deploymentJobs(ghJob, jobId, job, hooks, label, warnings, unsupported);
+        Object.assign(ghJobs, jobs);
+        currentStageJobIds.splice(currentStageJobIds.indexOf(jobId), 1, ...Object.keys(jobs));
+        if (!jobs[jobId]) renamed.set(jobId, Object.keys(jobs).pop()!);
+        continue;
+      }
+      const matrix = convertYamlStrategy(job, label, warnings);
+      ghJobs[jobId] = matrix ? applyMatrix(ghJob, matrix, warnings) : ghJob;
     }
 
     prevStageJobIds = currentStageJobIds;
   }
+  renameNeeds(ghJobs, renamed);
+  declareJobOutputs(ghJobs, outputs, warnings);
 }
 
 /** Convert ADO jobs[] (no stages) to GH jobs. */
@@ -1096,9 +2300,24 @@ function convertYamlJobs(
   defaultRunsOn: string,
   globalEnv: Record<string, string>,
   warnings: string[],
-  unsupported: string[]
+  unsupported: string[],
+  context: ConversionContext = {}
 ): void {
+  const renamed = new Map<string, string>();
+  const outputs: JobOutputReference[] = [];
   for (const job of jobs) {
+    // Job template kept as a reference → call the reusable workflow
+    if (job.template) {
+      const converted = context.shared?.get(job.template);
+      if (!converted) {
+        warnings.push(`Job template "${job.template}" could not be converted — add its jobs manually.`);
+        continue;
+      }
+      const jobId = templateCallId(converted.template.name, job.parameters, isRepeatedTemplate(jobs, job.template), ghJobs);
+      ghJobs[jobId] = sharedJobCall(converted, job.parameters, warnings);
+      continue;
+    }
+
     const isDeployment = "deployment" in job;
     const jobName = job.job || job.deployment || "job";
     const jobId = sanitizeJobId(jobName);
@@ -1110,33 +2329,317 @@ function convertYamlJobs(
     if (job.dependsOn) {
       ghJob.needs = (Array.isArray(job.dependsOn) ? job.dependsOn : [job.dependsOn]).map(sanitizeJobId);
     }
-    if (job.condition) {
-      const c = convertAdoYamlCondition(job.condition);
-      if (c) ghJob.if = c;
-    }
+    const condition = mapCondition(job.condition, `Job "${jobName}"`, {
+      scope: "job",
+      resolveJob: dep => {
+        const id = sanitizeJobId(dep);
+        return jobs.some(j => (j.job || j.deployment) === dep) ? renamed.get(id) ?? id : undefined;
+      },
+    }, warnings, unsupported, outputs);
+    if (condition) ghJob.if = condition;
     if (isDeployment && job.environment) {
       ghJob.environment = typeof job.environment === "string" ? job.environment : job.environment.name;
     }
     if (Object.keys(globalEnv).length > 0) ghJob.env = { ...globalEnv };
 
-    let rawSteps = job.steps || [];
-    if (isDeployment && job.strategy?.runOnce?.deploy?.steps) {
-      rawSteps = job.strategy.runOnce.deploy.steps;
+    const label = `Job "${jobName}"`;
+    const strategyBlock = isDeployment ? deploymentStrategy(job) : undefined;
+    const hooks = strategyBlock ? deploymentHookSteps(strategyBlock, label, warnings, unsupported, context) : undefined;
+    const convertedSteps = hooks ? allHookSteps(hooks) : convertStepsList(job.steps || [], warnings, unsupported, context);
+    const hasCheckout = convertedSteps.some((s: any) => s.uses?.startsWith("actions/checkout"));
+    ghJob.steps = usesLocalAction(convertedSteps) && !hasCheckout
+      ? [{ uses: "actions/checkout@v4" }, ...convertedSteps]
+      : convertedSteps;
+    if (isDeployment) {
+      const expanded = deploymentJobs(ghJob, jobId, job, hooks, label, warnings, unsupported);
+      Object.assign(ghJobs, expanded);
+      if (!expanded[jobId]) renamed.set(jobId, Object.keys(expanded).pop()!);
+      continue;
     }
-    ghJob.steps = convertStepsList(rawSteps, warnings, unsupported);
-    ghJobs[jobId] = ghJob;
+    const matrix = convertYamlStrategy(job, label, warnings);
+    ghJobs[jobId] = matrix ? applyMatrix(ghJob, matrix, warnings) : ghJob;
   }
+  renameNeeds(ghJobs, renamed);
+  declareJobOutputs(ghJobs, outputs, warnings);
 }
 
 /** Convert array of ADO YAML steps to GH Actions steps. */
-function convertStepsList(steps: any[], warnings: string[], unsupported: string[]): Record<string, any>[] {
+function convertStepsList(
+  steps: any[],
+  warnings: string[],
+  unsupported: string[],
+  context: ConversionContext = {}
+): Record<string, any>[] {
   if (!steps || !Array.isArray(steps)) return [];
-  return steps.map(s => convertAdoYamlStep(s, warnings, unsupported)).filter(Boolean) as Record<string, any>[];
+  const converted: Record<string, any>[] = [];
+  for (const step of steps) {
+    const ghStep = convertAdoYamlStep(step, warnings, unsupported, context);
+    if (!ghStep) continue;
+    // The step's reference name becomes its id, for steps.<id> and job outputs
+    const id = typeof step.name === "string" && /^[A-Za-z_][A-Za-z0-9_-]*$/.test(step.name) ? step.name : undefined;
+    const script = step.script ?? step.bash ?? step.pwsh ?? step.powershell;
+    const summary = typeof script === "string" ? script.trim().split("\n")[0].slice(0, 60) : Object.keys(step)[0];
+    const label = `Step "${step.displayName || step.name || step.task || summary}"`;
+    const condition = mapCondition(step.condition, label, { scope: "step" }, warnings, unsupported);
+    const { name, ...rest } = ghStep;
+    converted.push({
+      ...(name !== undefined ? { name } : {}),
+      ...(id ? { id } : {}),
+      ...(condition ? { if: condition } : {}),
+      ...rest,
+    });
+  }
+  return converted;
+}
+
+// ─── Shared templates → composite actions / reusable workflows ──────────────
+
+/** A converted shared template */
+interface ConvertedTemplate {
+  template: SharedTemplate;
+  /** Repo path of the action.yml or reusable workflow */
+  path: string;
+  content: string;
+  /** Secrets a composite action takes as inputs (composite actions can't read `secrets`) */
+  secretInputs: string[];
+  /** Manual steps that name an input (an environment), filled in from each call */
+  inputManualSteps: string[];
+  /** `with:` values of each call to the template */
+  calls: Record<string, any>[];
+}
+
+/** Converted shared templates by their `template:` reference */
+type SharedTemplateIndex = Map<string, ConvertedTemplate>;
+
+/** Per-conversion lookups threaded through the YAML converters */
+interface ConversionContext {
+  shared?: SharedTemplateIndex;
+  /** User-supplied task mappings, checked before the built-in ones */
+  customTasks?: CustomTaskMapping[];
+}
+
+/** `${{ parameters.x }}` → `${{ inputs.x }}` throughout a template body */
+function parametersToInputs(node: any): any {
+  if (typeof node === "string") {
+    return node.replace(/\$\{\{\s*parameters\.([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/g, "${{ inputs.$1 }}");
+  }
+  if (Array.isArray(node)) return node.map(parametersToInputs);
+  if (node && typeof node === "object") {
+    return Object.fromEntries(Object.entries(node).map(([k, v]) => [parametersToInputs(k), parametersToInputs(v)]));
+  }
+  return node;
+}
+
+function usesLocalAction(steps: Record<string, any>[]): boolean {
+  return steps.some(s => typeof s.uses === "string" && s.uses.startsWith("./"));
+}
+
+/** `with:` values for a template reference's parameters */
+function sharedInputs(args: any): Record<string, any> {
+  const inputs: Record<string, any> = {};
+  for (const [name, value] of Object.entries(args && typeof args === "object" ? args : {})) {
+    inputs[name] = typeof value === "boolean" || typeof value === "number"
+      ? value
+      : convertAdoVariableRefs(typeof value === "string" ? value : JSON.stringify(value));
+  }
+  return inputs;
+}
+
+function sharedStepCall(converted: ConvertedTemplate, args: any): Record<string, any> {
+  const inputs = sharedInputs(args);
+  converted.calls.push({ ...inputs });
+  for (const secret of converted.secretInputs) inputs[secret] = `\${{ secrets.${secret} }}`;
+  return {
+    name: `Run ${converted.template.name}`,
+    uses: `./${converted.path.replace(/\/action\.yml$/, "")}`,
+    ...(Object.keys(inputs).length > 0 ? { with: inputs } : {}),
+  };
+}
+
+function sharedJobCall(converted: ConvertedTemplate, args: any, warnings: string[]): Record<string, any> {
+  const inputs = sharedInputs(args);
+  converted.calls.push(inputs);
+  if (Object.values(inputs).some(v => typeof v === "string" && v.includes("env."))) {
+    warnings.push(`Inputs to ${converted.path} use the env context, which is not available when calling a reusable workflow — pass literals or vars instead.`);
+  }
+  return {
+    uses: `./${converted.path}`,
+    ...(Object.keys(inputs).length > 0 ? { with: inputs } : {}),
+    secrets: "inherit",
+  };
+}
+
+/**
+ * Job ID for a call to a job/stage template. A template called more than once
+ * gets a suffix from the first parameter value that tells the calls apart
+ * (deploy_prod), or else from its call number (build_2).
+ */
+function templateCallId(name: string, args: any, repeated: boolean, ghJobs: Record<string, any>): string {
+  const base = sanitizeJobId(name);
+  if (!repeated) return base;
+  const values = Object.values(args && typeof args === "object" ? args : {})
+    .filter(v => (typeof v === "string" && /^[\w.-]+$/.test(v)) || typeof v === "number");
+  for (const value of values) {
+    const id = sanitizeJobId(`${name}_${value}`);
+    if (!ghJobs[id]) return id;
+  }
+  for (let n = 1; ; n++) {
+    if (!ghJobs[`${base}_${n}`]) return `${base}_${n}`;
+  }
+}
+
+/** A `${{ inputs.x }}` reference in converted template output */
+const INPUT_REF = /\$\{\{\s*inputs\.([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/;
+
+/**
+ * Fill in the manual steps of shared templates from the values each call
+ * passes, e.g. one "Configure … protection rules" step per environment.
+ */
+function templateCallManualSteps(shared: SharedTemplateIndex, manualSteps: string[]): void {
+  for (const converted of shared.values()) {
+    for (const step of converted.inputManualSteps) {
+      const filled = converted.calls.map(inputs => step.replace(
+        new RegExp(INPUT_REF.source, "g"),
+        (ref, name) => (typeof inputs[name] === "string" || typeof inputs[name] === "number") && !String(inputs[name]).includes("${{")
+          ? String(inputs[name])
+          : ref
+      ));
+      const resolved = filled.filter(s => !INPUT_REF.test(s));
+      for (const s of resolved.length > 0 ? resolved : [`${step} — one per value the callers of ${converted.path} pass`]) {
+        if (!manualSteps.includes(s)) manualSteps.push(s);
+      }
+    }
+  }
+}
+
+/** Whether more than one entry calls the same template */
+function isRepeatedTemplate(entries: any[], template: string): boolean {
+  return entries.filter(e => e?.template === template).length > 1;
+}
+
+/**
+ * Convert a shared step template to a composite action, or a job/stage
+ * template to a `workflow_call` reusable workflow. Templates it uses must
+ * already be in `context.shared`.
+ */
+function convertSharedTemplate(
+  template: SharedTemplate,
+  context: ConversionContext,
+  reservedFilename: string,
+  warnings: string[],
+  unsupported: string[],
+  manualSteps: string[]
+): ConvertedTemplate {
+  const body = parametersToInputs(template.body);
+  // Steps like "Configure … for ${{ inputs.environment }}" only make sense per call
+  const ownSteps: string[] = [];
+  const inputManualSteps = () => {
+    const named = ownSteps.filter(step => INPUT_REF.test(step));
+    for (const step of ownSteps) {
+      if (!named.includes(step) && !manualSteps.includes(step)) manualSteps.push(step);
+    }
+    return named;
+  };
+  const yamlOptions = { lineWidth: 120, defaultStringType: "PLAIN", defaultKeyType: "PLAIN" } as const;
+
+  if (template.kind === "steps") {
+    const steps = convertStepsList(body.steps, warnings, unsupported, context)
+      .map(step => (step.run && !step.shell ? { ...step, shell: "bash" } : step));
+
+    // Composite actions have no secrets context — take secrets as inputs instead
+    const secretRef = /\$\{\{\s*secrets\.([A-Za-z0-9_]+)\s*\}\}/g;
+    const secretInputs = [...new Set([...JSON.stringify(steps).matchAll(secretRef)].map(m => m[1]))];
+    const actionSteps = JSON.parse(JSON.stringify(steps).replace(secretRef, "${{ inputs.$1 }}"));
+
+    const inputs: Record<string, any> = {};
+    for (const p of template.parameters) {
+      inputs[p.name] = {
+        description: `ADO template parameter '${p.name}'`,
+        required: p.required,
+        ...(p.default !== undefined ? { default: String(p.default) } : {}),
+      };
+    }
+    for (const secret of secretInputs) {
+      inputs[secret] = { description: `Value of the ${secret} secret`, required: true };
+    }
+
+    const action = {
+      name: template.name,
+      description: `Converted from ADO step template ${template.ref}`,
+      ...(Object.keys(inputs).length > 0 ? { inputs } : {}),
+      runs: { using: "composite", steps: actionSteps },
+    };
+    return {
+      template,
+      path: `.github/actions/${template.name}/action.yml`,
+      content: `# Converted from ADO step template: ${template.ref}\n` + YAML.stringify(action, yamlOptions),
+      secretInputs,
+      inputManualSteps: inputManualSteps(),
+      calls: [],
+    };
+  }
+
+  const ghJobs: Record<string, any> = {};
+  if (template.kind === "stages") {
+    convertStages(body.stages, ghJobs, "ubuntu-latest", {}, warnings, unsupported, ownSteps, context);
+  } else {
+    convertYamlJobs(body.jobs, ghJobs, "ubuntu-latest", {}, warnings, unsupported, context);
+  }
+
+  const inputs: Record<string, any> = {};
+  for (const p of template.parameters) {
+    inputs[p.name] = {
+      type: p.type,
+      required: p.required,
+      ...(p.default !== undefined ? { default: p.type === "string" ? String(p.default) : p.default } : {}),
+    };
+  }
+
+  const filename = `${template.name}.yml` === reservedFilename ? `${template.name}-template.yml` : `${template.name}.yml`;
+  const workflow = {
+    name: template.name,
+    on: { workflow_call: Object.keys(inputs).length > 0 ? { inputs } : null },
+    jobs: ghJobs,
+  };
+  return {
+    template,
+    path: `.github/workflows/${filename}`,
+    content: `# Converted from ADO ${template.kind === "stages" ? "stage" : "job"} template: ${template.ref}\n` +
+      YAML.stringify(workflow, { ...yamlOptions, nullStr: "" }),
+    secretInputs: [],
+    inputManualSteps: inputManualSteps(),
+    calls: [],
+  };
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+/**
+ * Validate the generated workflow and any additional files, reporting every
+ * finding as a warning and collecting the errors in `validationErrors`.
+ */
+function withValidation(result: ConversionResult): ConversionResult {
+  const files = [
+    { path: `.github/workflows/${result.suggestedFilename}`, content: result.workflowYaml },
+    ...(result.additionalFiles ?? []),
+  ];
+  const errors: string[] = [];
+  for (const file of files) {
+    const findings = file.path.endsWith("/action.yml")
+      ? validateCompositeAction(file.content)
+      : validateWorkflow(file.content);
+    for (const finding of findings) {
+      const message = formatFinding(file.path, finding);
+      result.warnings.push(`Workflow validation ${finding.severity}: ${message}`);
+      if (finding.severity === "error") errors.push(message);
+    }
+  }
+  return errors.length > 0 ? { ...result, validationErrors: errors } : result;
 }
 
 // ─── Build pipeline → workflow ───────────────────────────────────────────────
 
-export function convertBuildPipeline(def: ADOBuildDefinitionDetail): ConversionResult {
+export function convertBuildPipeline(def: ADOBuildDefinitionDetail, customTasks?: CustomTaskMapping[]): ConversionResult {
   const warnings: string[] = [];
   const unsupported: string[] = [];
   const manualSteps: string[] = [];
@@ -1147,7 +2650,7 @@ export function convertBuildPipeline(def: ADOBuildDefinitionDetail): ConversionR
   const isYaml = def.process?.type === 2;
 
   if (isYaml && def.yamlContent) {
-    return convertAdoYamlPipeline(def.yamlContent, def, warnings, unsupported, manualSteps);
+    return withValidation(convertAdoYamlPipeline(def.yamlContent, def, warnings, unsupported, manualSteps, customTasks));
   }
 
   // Classic (designer) pipeline conversion
@@ -1166,7 +2669,7 @@ export function convertBuildPipeline(def: ADOBuildDefinitionDetail): ConversionR
   const jobLines: string[] = [];
   if (phases.length === 0) {
     // Single-job pipeline from flat steps
-    const steps = (def.processSteps ?? []).map(s => convertStep(s, warnings, unsupported));
+    const steps = (def.processSteps ?? []).map(s => convertStep(s, warnings, unsupported, customTasks));
     jobLines.push("  build:");
     jobLines.push(`    runs-on: ${mapPool((def as any).queue?.pool)}`);
     if (Object.keys(envVars).length > 0) {
@@ -1182,18 +2685,35 @@ export function convertBuildPipeline(def: ADOBuildDefinitionDetail): ConversionR
     let prevJobId: string | undefined;
     for (const phase of phases) {
       const jobId = sanitizeJobId(phase.name || phase.refName || "job");
-      const phaseSteps = (phase.steps ?? []).map(s => convertStep(s, warnings, unsupported));
+      const matrix = convertClassicStrategy(phase, def.variables, warnings);
+      let phaseSteps = (phase.steps ?? []).map(s => convertStep(s, warnings, unsupported, customTasks));
       const pool = (phase.target as any)?.queue?.pool ?? (def as any).queue?.pool;
 
+      // Multiplier variables take one matrix value per job instead of the full list
+      let phaseEnv = envVars;
+      if (matrix) {
+        phaseSteps = rewriteMatrixRefs(phaseSteps, matrix.refs);
+        phaseEnv = { ...envVars, ...matrix.env };
+      }
+
       jobLines.push(`  ${jobId}:`);
       if (phase.name) jobLines.push(`    name: ${yamlValue(phase.name)}`);
       jobLines.push(`    runs-on: ${mapPool(pool)}`);
       if (prevJobId) jobLines.push(`    needs: ${prevJobId}`);
-      const cond = mapCondition(phase.condition);
+      const cond = mapCondition(phase.condition, `Phase "${phase.name || phase.refName}"`, {
+        scope: "job",
+        resolveJob: name => {
+          const dep = phases.find(p => p.refName === name || p.name === name);
+          return dep ? sanitizeJobId(dep.name || dep.refName || "job") : undefined;
+        },
+      }, warnings, unsupported);
       if (cond) jobLines.push(`    if: ${yamlValue(cond)}`);
-      if (Object.keys(envVars).length > 0) {
+      if (matrix) {
+        jobLines.push(indent(YAML.stringify({ strategy: matrix.strategy }).trimEnd(), 2));
+      }
+      if (Object.keys(phaseEnv).length > 0) {
         jobLines.push("    env:");
-        for (const [k, v] of Object.entries(envVars)) {
+        for (const [k, v] of Object.entries(phaseEnv)) {
           jobLines.push(`      ${k}: ${yamlValue(v)}`);
         }
       }
@@ -1227,6 +2747,14 @@ export function convertBuildPipeline(def: ADOBuildDefinitionDetail): ConversionR
           triggerLines.push(`    ${tk}: ${yamlValue(tv)}`);
         }
       }
+    } else if (Array.isArray(val)) {
+      // schedule: a list of { cron } entries
+      triggerLines.push(`  ${key}:`);
+      for (const item of val) {
+        const [first, ...rest] = Object.entries(item as Record<string, any>);
+        triggerLines.push(`    - ${first[0]}: ${yamlValue(first[1])}`);
+        for (const [ik, iv] of rest) triggerLines.push(`      ${ik}: ${yamlValue(iv)}`);
+      }
     } else {
       triggerLines.push(`  ${key}:`);
     }
@@ -1244,18 +2772,18 @@ export function convertBuildPipeline(def: ADOBuildDefinitionDetail): ConversionR
     "",
   ].join("\n");
 
-  return {
+  return withValidation({
     workflowYaml: yaml,
     suggestedFilename: sanitizeFilename(def.name) + ".yml",
     warnings,
     unsupported,
     manualSteps,
-  };
+  });
 }
 
 // ─── Release pipeline → workflow ─────────────────────────────────────────────
 
-export function convertReleasePipeline(def: ADOReleaseDefinition): ConversionResult {
+export function convertReleasePipeline(def: ADOReleaseDefinition, customTasks?: CustomTaskMapping[]): ConversionResult {
   const warnings: string[] = [];
   const unsupported: string[] = [];
   const manualSteps: string[] = [];
@@ -1325,7 +2853,7 @@ export function convertReleasePipeline(def: ADOReleaseDefinition): ConversionRes
 
     for (const phase of env.deployPhases) {
       for (const task of phase.workflowTasks) {
-        const step = convertStep(task, warnings, unsupported);
+        const step = convertStep(task, warnings, unsupported, customTasks);
         if (step) {
           jobLines.push(renderSteps([step], 3));
         }
@@ -1350,18 +2878,27 @@ export function convertReleasePipeline(def: ADOReleaseDefinition): ConversionRes
     "",
   ].join("\n");
 
-  return {
+  return withValidation({
     workflowYaml: yaml,
     suggestedFilename: sanitizeFilename(def.name) + ".yml",
     warnings,
     unsupported,
     manualSteps,
-  };
+  });
 }
 
 // ─── Audit (analysis only, no conversion) ────────────────────────────────────
 
-export function auditBuildPipeline(def: ADOBuildDefinitionDetail): AuditEntry {
+/** Whether a classic task has a built-in or custom mapping (or is a script task) */
+function isMappedTask(step: ADOClassicStep | ADOReleaseTask, customTasks?: CustomTaskMapping[]): boolean {
+  const taskId = "task" in step ? step.task.id : step.taskId;
+  const isCmdLine = taskId === "d9bafed4-0b18-4f58-968d-86655b4d2ce9";
+  const isBash = taskId === "6c731c3c-3c68-459a-a5c9-bde6e6595b5b";
+  return isCmdLine || isBash || !!TASK_MAP[taskId] ||
+    !!findTaskMapping(customTasks, { id: taskId, version: classicTaskVersion(step) });
+}
+
+export function auditBuildPipeline(def: ADOBuildDefinitionDetail, customTasks?: CustomTaskMapping[]): AuditEntry {
   const isYaml = def.process?.type === 2;
   const warnings: string[] = [];
   const unsupportedItems: string[] = [];
@@ -1385,12 +2922,9 @@ export function auditBuildPipeline(def: ADOBuildDefinitionDetail): AuditEntry {
   let unmapped = 0;
   for (const step of allSteps) {
     if (!step.enabled) continue;
-    const taskId = step.task.id;
-    const isCmdLine = taskId === "d9bafed4-0b18-4f58-968d-86655b4d2ce9";
-    const isBash = taskId === "6c731c3c-3c68-459a-a5c9-bde6e6595b5b";
-    if (!isCmdLine && !isBash && !TASK_MAP[taskId]) {
+    if (!isMappedTask(step, customTasks)) {
       unmapped++;
-      unsupportedItems.push(`Task "${step.displayName}" (${taskId})`);
+      unsupportedItems.push(`Task "${step.displayName}" (${step.task.id})`);
     }
   }
 
@@ -1410,7 +2944,7 @@ export function auditBuildPipeline(def: ADOBuildDefinitionDetail): AuditEntry {
   };
 }
 
-export function auditReleasePipeline(def: ADOReleaseDefinition): AuditEntry {
+export function auditReleasePipeline(def: ADOReleaseDefinition, customTasks?: CustomTaskMapping[]): AuditEntry {
   const unsupportedItems: string[] = [];
   const warnings: string[] = [];
 
@@ -1422,9 +2956,7 @@ export function auditReleasePipeline(def: ADOReleaseDefinition): AuditEntry {
       for (const task of phase.workflowTasks) {
         if (!task.enabled) continue;
         totalTasks++;
-        const isCmdLine = task.taskId === "d9bafed4-0b18-4f58-968d-86655b4d2ce9";
-        const isBash = task.taskId === "6c731c3c-3c68-459a-a5c9-bde6e6595b5b";
-        if (!isCmdLine && !isBash && !TASK_MAP[task.taskId]) {
+        if (!isMappedTask(task, customTasks)) {
           unmapped++;
           unsupportedItems.push(`Task "${task.name}" (${task.taskId})`);
         }
@@ -1454,6 +2986,11 @@ export function auditReleasePipeline(def: ADOReleaseDefinition): AuditEntry {
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
+/** GitHub secret/variable name the converted workflows use for an ADO variable */
+export function toGitHubSecretName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9_]/g, "_");
+}
+
 function sanitizeFilename(name: string): string {
   return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
 }
@@ -0,0 +1,182 @@
+/**
+ * ADO pipeline rewiring — the equivalent of `gh ado2gh rewire-pipeline`.
+ * Points an existing ADO build definition at the migrated GitHub repository
+ * through a GitHub service connection, so the pipeline keeps running during
+ * the transition.  The original repository block is kept in state so the
+ * rewire can be reverted.
+ */
+import * as adoPipelines from "./ado-pipelines.js";
+import * as github from "./github-api.js";
+import * as state from "./state.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RewireResult {
+  definitionId: number;
+  definitionName: string;
+  status: "rewired" | "skipped" | "failed";
+  githubRepo?: string;
+  message?: string;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Repository block for a GitHub repo, in the shape `ado2gh rewire-pipeline` writes */
+function githubRepositoryBlock(
+  owner: string,
+  repo: string,
+  serviceConnectionId: string,
+  defaultBranch: string,
+  previous: any,
+  targetHost: string
+): Record<string, unknown> {
+  const webUrl = `${github.targetWebUrl(targetHost)}/${owner}/${repo}`;
+  const apiUrl = `${github.targetApiUrl(targetHost)}/repos/${owner}/${repo}`;
+  return {
+    properties: {
+      apiUrl,
+      branchesUrl: `${apiUrl}/branches`,
+      cloneUrl: `${webUrl}.git`,
+      connectedServiceId: serviceConnectionId,
+      defaultBranch,
+      fullName: `${owner}/${repo}`,
+      manageUrl: webUrl,
+      orgName: owner,
+      refsUrl: `${apiUrl}/git/refs`,
+      safeRepository: `${owner}/${repo}`,
+      shortName: repo,
+      reportBuildStatus: "true",
+    },
+    id: `${owner}/${repo}`,
+    type: "GitHub",
+    name: `${owner}/${repo}`,
+    url: `${webUrl}.git`,
+    defaultBranch,
+    clean: previous?.clean ?? "false",
+    checkoutSubmodules: previous?.checkoutSubmodules ?? false,
+  };
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Rewire one build definition to build from a GitHub repository.
+ */
+export async function rewirePipeline(
+  adoOrg: string,
+  adoProject: string,
+  definitionId: number,
+  targetOrg: string,
+  targetRepo: string,
+  serviceConnectionId: string,
+  targetHost?: string,
+  sessionId?: string
+): Promise<RewireResult> {
+  const definition = await adoPipelines.getRawBuildDefinition(adoOrg, adoProject, definitionId, sessionId);
+  const githubRepo = `${targetOrg}/${targetRepo}`;
+
+  if (definition.repository?.type === "GitHub" && definition.repository?.name === githubRepo) {
+    return { definitionId, definitionName: definition.name, status: "skipped", githubRepo, message: "Already builds from this GitHub repo" };
+  }
+
+  // A rewire that hasn't been reverted still holds the original ADO repository
+  const existing = state.getPipelineRewire(adoOrg, adoProject, definitionId);
+  const previousRepository = existing && !existing.revertedAt ? existing.previousRepository : definition.repository;
+
+  const defaultBranch = definition.repository?.defaultBranch || "refs/heads/main";
+  definition.repository = githubRepositoryBlock(
+    targetOrg,
+    targetRepo,
+    serviceConnectionId,
+    defaultBranch,
+    definition.repository,
+    github.resolveTargetHost(targetHost, sessionId)
+  );
+  await adoPipelines.updateBuildDefinition(adoOrg, adoProject, definition, sessionId);
+
+  state.savePipelineRewire({
+    adoOrg,
+    adoProject,
+    definitionId,
+    definitionName: definition.name,
+    previousRepository,
+    githubRepo,
+    serviceConnectionId,
+    rewiredAt: new Date().toISOString(),
+  });
+
+  return { definitionId, definitionName: definition.name, status: "rewired", githubRepo };
+}
+
+/**
+ * Rewire every build definition in a project that builds from an Azure Repos
+ * repository. With `adoRepo`, only definitions using that repo are rewired
+ * (to `targetRepo`, defaulting to the same name); otherwise each definition is
+ * rewired to the GitHub repo named after its ADO repo.
+ */
+export async function rewirePipelines(
+  adoOrg: string,
+  adoProject: string,
+  targetOrg: string,
+  serviceConnectionId: string,
+  adoRepo?: string,
+  targetRepo?: string,
+  targetHost?: string,
+  sessionId?: string
+): Promise<RewireResult[]> {
+  const definitions = await adoPipelines.listBuildDefinitions(adoOrg, adoProject, sessionId);
+  const results: RewireResult[] = [];
+
+  for (const def of definitions) {
+    try {
+      // List results omit the repository — fetch the full definition to see it
+      const full = await adoPipelines.getRawBuildDefinition(adoOrg, adoProject, def.id, sessionId);
+      const repo = full.repository;
+      if (repo?.type !== "TfsGit") continue;
+      if (adoRepo && repo.name !== adoRepo) continue;
+
+      results.push(await rewirePipeline(
+        adoOrg,
+        adoProject,
+        def.id,
+        targetOrg,
+        adoRepo ? (targetRepo || adoRepo) : repo.name,
+        serviceConnectionId,
+        targetHost,
+        sessionId
+      ));
+    } catch (err: unknown) {
+      results.push({
+        definitionId: def.id,
+        definitionName: def.name,
+        status: "failed",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Point a rewired definition back at its original repository.
+ */
+export async function revertRewire(
+  adoOrg: string,
+  adoProject: string,
+  definitionId: number,
+  sessionId?: string
+): Promise<state.PipelineRewire> {
+  const rewire = state.getPipelineRewire(adoOrg, adoProject, definitionId);
+  if (!rewire || rewire.revertedAt) {
+    throw new Error(`No active rewire recorded for definition ${definitionId} in ${adoOrg}/${adoProject}`);
+  }
+
+  const definition = await adoPipelines.getRawBuildDefinition(adoOrg, adoProject, definitionId, sessionId);
+  definition.repository = rewire.previousRepository;
+  await adoPipelines.updateBuildDefinition(adoOrg, adoProject, definition, sessionId);
+
+  const reverted = { ...rewire, revertedAt: new Date().toISOString() };
+  state.savePipelineRewire(reverted);
+  return reverted;
+}
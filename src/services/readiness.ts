@@ -0,0 +1,294 @@
+/**
+ * Pre-migration readiness checks.
+ *
+ * Looks for the things GEI rejects outright (oversized archives, blobs over
+ * the per-file limit, disabled repos, an existing target repo) and the things
+ * it silently drops (Git LFS objects, PR comment threads), and reports them
+ * per repository as blocking or warning findings.
+ */
+import * as github from "./github-api.js";
+import { getGitHubSourcePAT, getGitHubTargetPAT, getADOPAT } from "./session.js";
+import type { RepoMigrationRequest } from "./repo-migration.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type FindingSeverity = "blocking" | "warning";
+
+export type ReadinessCheck =
+  | "repo_not_found"
+  | "repo_disabled"
+  | "archive_size"
+  | "large_blob"
+  | "git_lfs"
+  | "open_pull_requests"
+  | "target_exists"
+  | "check_failed";
+
+export interface ReadinessFinding {
+  check: ReadinessCheck;
+  severity: FindingSeverity;
+  message: string;
+}
+
+export interface RepoReadiness {
+  repoName: string;
+  targetRepoName: string;
+  /** False when any blocking finding exists */
+  ready: boolean;
+  findings: ReadinessFinding[];
+}
+
+/** Facts gathered from the source before limits are applied */
+interface SourceFacts {
+  sizeBytes: number;
+  largeBlobs: { path: string; sizeBytes: number }[];
+  treeTruncated: boolean;
+  usesLfs: boolean;
+  openPullRequests: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+/** GEI rejects any single file larger than this */
+const MAX_BLOB_BYTES = 400 * MB;
+/** GEI's limit on the size of a repository archive */
+const MAX_ARCHIVE_BYTES = 40 * GB;
+/** Blobs listed individually in a finding before the rest are summarised */
+const MAX_LISTED_BLOBS = 10;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** GET a JSON resource, returning null on 404 */
+async function getJson(url: string, authorization: string): Promise<any> {
+  const response = await fetch(url, {
+    headers: { Authorization: authorization, Accept: "application/json" },
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`API error ${response.status} ${response.statusText} for ${url}`);
+  }
+  return response.json();
+}
+
+function hasLfsFilter(gitattributes: string): boolean {
+  return /filter=lfs/.test(gitattributes);
+}
+
+// ─── Source checks ───────────────────────────────────────────────────────────
+
+async function githubSourceFacts(
+  org: string,
+  repo: string,
+  apiUrl: string,
+  sessionId?: string
+): Promise<SourceFacts | null> {
+  const auth = `token ${getGitHubSourcePAT(sessionId)}`;
+  const repoPath = `${apiUrl}/repos/${org}/${repo}`;
+
+  const info = await getJson(repoPath, auth);
+  if (!info) return null;
+
+  // Blob sizes are only available from the tree — scan the default branch
+  const tree = info.default_branch
+    ? await getJson(`${repoPath}/git/trees/${encodeURIComponent(info.default_branch)}?recursive=1`, auth)
+    : null;
+  const entries: any[] = tree?.tree ?? [];
+
+  const attributes = await getJson(`${repoPath}/contents/.gitattributes`, auth);
+  const usesLfs = !!attributes?.content &&
+    hasLfsFilter(Buffer.from(attributes.content, "base64").toString("utf-8"));
+
+  const search = await getJson(
+    `${apiUrl}/search/issues?q=${encodeURIComponent(`repo:${org}/${repo} is:pr is:open`)}&per_page=1`,
+    auth
+  );
+
+  return {
+    sizeBytes: (info.size ?? 0) * 1024, // REST reports size in KB
+    largeBlobs: entries
+      .filter(e => e.type === "blob" && (e.size ?? 0) > MAX_BLOB_BYTES)
+      .map(e => ({ path: e.path, sizeBytes: e.size })),
+    treeTruncated: !!tree?.truncated,
+    usesLfs,
+    openPullRequests: search?.total_count ?? 0,
+  };
+}
+
+async function adoSourceFacts(
+  org: string,
+  project: string,
+  repo: string,
+  findings: ReadinessFinding[],
+  sessionId?: string
+): Promise<SourceFacts | null> {
+  const auth = `Basic ${Buffer.from(`:${getADOPAT(sessionId)}`).toString("base64")}`;
+  const repoPath = `https://dev.azure.com/${encodeURIComponent(org)}/${encodeURIComponent(project)}/_apis/git/repositories/${encodeURIComponent(repo)}`;
+
+  const info = await getJson(`${repoPath}?api-version=7.0`, auth);
+  if (!info) return null;
+
+  if (info.isDisabled) {
+    findings.push({
+      check: "repo_disabled",
+      severity: "blocking",
+      message: "Repository is disabled in Azure DevOps — re-enable it before migrating",
+    });
+    // Disabled repos reject every other git API call
+    return { sizeBytes: info.size ?? 0, largeBlobs: [], treeTruncated: false, usesLfs: false, openPullRequests: 0 };
+  }
+
+  let entries: any[] = [];
+  if (info.defaultBranch) {
+    const branch = info.defaultBranch.replace(/^refs\/heads\//, "");
+    const commits = await getJson(
+      `${repoPath}/commits?searchCriteria.$top=1&searchCriteria.itemVersion.version=${encodeURIComponent(branch)}&api-version=7.0`,
+      auth
+    );
+    const commitId = commits?.value?.[0]?.commitId;
+    if (commitId) {
+      const commit = await getJson(`${repoPath}/commits/${commitId}?api-version=7.0`, auth);
+      if (commit?.treeId) {
+        const tree = await getJson(`${repoPath}/trees/${commit.treeId}?recursive=true&api-version=7.0`, auth);
+        entries = tree?.treeEntries ?? [];
+      }
+    }
+  }
+
+  const attributes = await getJson(
+    `${repoPath}/items?path=${encodeURIComponent("/.gitattributes")}&includeContent=true&$format=json&api-version=7.0`,
+    auth
+  );
+
+  const prs = await getJson(`${repoPath}/pullrequests?searchCriteria.status=active&$top=1000&api-version=7.0`, auth);
+
+  return {
+    sizeBytes: info.size ?? 0,
+    largeBlobs: entries
+      .filter(e => e.gitObjectType === "blob" && (e.size ?? 0) > MAX_BLOB_BYTES)
+      .map(e => ({ path: e.relativePath, sizeBytes: e.size })),
+    treeTruncated: false,
+    usesLfs: !!attributes?.content && hasLfsFilter(attributes.content),
+    openPullRequests: prs?.count ?? prs?.value?.length ?? 0,
+  };
+}
+
+function evaluateSourceFacts(facts: SourceFacts, findings: ReadinessFinding[]): void {
+  if (facts.sizeBytes > MAX_ARCHIVE_BYTES) {
+    findings.push({
+      check: "archive_size",
+      severity: "blocking",
+      message: `Repository is ${(facts.sizeBytes / GB).toFixed(1)} GB, over the ${MAX_ARCHIVE_BYTES / GB} GB archive limit — split the repo or trim history first`,
+    });
+  }
+
+  if (facts.largeBlobs.length > 0) {
+    const listed = facts.largeBlobs
+      .slice(0, MAX_LISTED_BLOBS)
+      .map(b => `${b.path} (${Math.round(b.sizeBytes / MB)} MB)`);
+    const more = facts.largeBlobs.length - listed.length;
+    findings.push({
+      check: "large_blob",
+      severity: "blocking",
+      message: `Files over ${MAX_BLOB_BYTES / MB} MB on the default branch: ${listed.join(", ")}${more > 0 ? ` and ${more} more` : ""}. Remove them from history or move them to Git LFS`,
+    });
+  }
+  if (facts.treeTruncated) {
+    findings.push({
+      check: "large_blob",
+      severity: "warning",
+      message: "Default branch tree is too large to scan completely — large files may have been missed",
+    });
+  }
+
+  if (facts.usesLfs) {
+    findings.push({
+      check: "git_lfs",
+      severity: "warning",
+      message: "Repository uses Git LFS (.gitattributes has filter=lfs). LFS objects are not migrated and must be pushed to the target separately",
+    });
+  }
+
+  if (facts.openPullRequests > 0) {
+    findings.push({
+      check: "open_pull_requests",
+      severity: "warning",
+      message: `${facts.openPullRequests} open pull request(s). Review comment threads on outdated diffs may be dropped — consider merging or closing them first`,
+    });
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Run readiness checks for a single repository against its source and the
+ * migration target. Source checks cover GitHub (including GHES) and Azure
+ * DevOps; for Bitbucket Server only the target is checked.
+ */
+export async function checkRepoReadiness(
+  request: RepoMigrationRequest,
+  sessionId?: string
+): Promise<RepoReadiness> {
+  const { source, sourceOrg, repoName, targetOrg } = request;
+  const targetRepoName = request.targetRepoName || repoName;
+  const findings: ReadinessFinding[] = [];
+
+  const runCheck = async (name: string, check: () => Promise<void>) => {
+    try {
+      await check();
+    } catch (err: unknown) {
+      findings.push({
+        check: "check_failed",
+        severity: "warning",
+        message: `Could not run ${name} check: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  };
+
+  if (source === "github" || source === "ado") {
+    await runCheck("source", async () => {
+      let facts: SourceFacts | null;
+      if (source === "github") {
+        facts = await githubSourceFacts(sourceOrg, repoName, request.ghesApiUrl || github.GITHUB_API_URL, sessionId);
+      } else {
+        if (!request.adoProject) {
+          throw new Error("adoProject is required for Azure DevOps repositories");
+        }
+        facts = await adoSourceFacts(sourceOrg, request.adoProject, repoName, findings, sessionId);
+      }
+
+      if (!facts) {
+        findings.push({
+          check: "repo_not_found",
+          severity: "blocking",
+          message: `Source repository ${repoName} was not found or the source token cannot read it`,
+        });
+        return;
+      }
+      evaluateSourceFacts(facts, findings);
+    });
+  }
+
+  await runCheck("target", async () => {
+    const host = github.resolveTargetHost(request.targetHost, sessionId);
+    const existing = await getJson(
+      `${github.targetApiUrl(host)}/repos/${targetOrg}/${targetRepoName}`,
+      `token ${getGitHubTargetPAT(sessionId)}`
+    );
+    if (existing) {
+      findings.push({
+        check: "target_exists",
+        severity: "blocking",
+        message: `${targetOrg}/${targetRepoName} already exists on ${host} — pick another targetRepoName or remove the existing repo`,
+      });
+    }
+  });
+
+  return {
+    repoName,
+    targetRepoName,
+    ready: !findings.some(f => f.severity === "blocking"),
+    findings,
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * Release environments — ADO release stages → GitHub Environments.
+ * Pre-deployment approvers become required reviewers (through a user-mapping
+ * CSV), gate delays become wait timers, and artifact branch filters become
+ * deployment branch policies.  Settings GitHub can't express are returned as
+ * warnings for the PR's manual steps.
+ */
+import type { ADOReleaseDefinition, ADOReleaseEnvironment } from "./ado-pipelines.js";
+import { splitCsvLine } from "./mannequins.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ReviewerRef = { type: "User"; login: string } | { type: "Team"; org: string; slug: string };
+
+export interface EnvironmentPlan {
+  name: string;
+  reviewers: ReviewerRef[];
+  /** Minutes to wait before a deployment job can proceed */
+  waitTimer: number;
+  preventSelfReview: boolean;
+  /** Branch name patterns allowed to deploy; empty means any branch */
+  branches: string[];
+  warnings: string[];
+}
+
+export interface EnvironmentResult {
+  name: string;
+  status: "created" | "failed";
+  reviewers: string[];
+  waitTimer: number;
+  branches: string[];
+  warnings: string[];
+  error?: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const USER_MAPPING_HEADER = "ado-user,github-user";
+/** GitHub environments accept at most this many required reviewers */
+const MAX_REVIEWERS = 6;
+/** GitHub's wait timer limit (30 days) */
+const MAX_WAIT_MINUTES = 43200;
+/** Release condition type for artifact filters — the REST JSON names it, the enum value is 4 */
+const ARTIFACT_CONDITION = ["artifact", 4];
+
+// ─── User mapping ────────────────────────────────────────────────────────────
+
+/**
+ * Parse a user-mapping CSV (`ado-user,github-user`). The ADO side is a unique
+ * name (usually an email) or display name; the GitHub side is a login or
+ * `org/team-slug` for ADO groups. Keys are lower-cased.
+ */
+export function parseUserMapping(csv: string): Map<string, string> {
+  const lines = csv.split(/\r?\n/).filter(l => l.trim());
+  if (lines.length === 0) return new Map();
+
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  if (header.join(",") !== USER_MAPPING_HEADER) {
+    throw new Error(`Invalid user mapping CSV header. Expected: ${USER_MAPPING_HEADER}`);
+  }
+
+  const mapping = new Map<string, string>();
+  for (const [adoUser, githubUser] of lines.slice(1).map(splitCsvLine)) {
+    if (adoUser && githubUser) mapping.set(adoUser.toLowerCase(), githubUser.replace(/^@/, ""));
+  }
+  return mapping;
+}
+
+function toReviewer(githubUser: string): ReviewerRef {
+  const [org, slug] = githubUser.split("/");
+  return slug ? { type: "Team", org, slug } : { type: "User", login: githubUser };
+}
+
+function reviewerLabel(r: ReviewerRef): string {
+  return r.type === "User" ? r.login : `${r.org}/${r.slug}`;
+}
+
+// ─── Planning ────────────────────────────────────────────────────────────────
+
+/** Branch name from an ADO source-branch filter, or null for exclusions */
+function branchPattern(sourceBranch: string): string | null {
+  if (sourceBranch.startsWith("-")) return null;
+  return sourceBranch.replace(/^\+/, "").replace(/^refs\/heads\//, "");
+}
+
+function artifactBranches(env: ADOReleaseEnvironment, def: ADOReleaseDefinition, warnings: string[]): string[] {
+  const filters: string[] = [];
+  for (const condition of env.conditions ?? []) {
+    if (!ARTIFACT_CONDITION.includes(condition.conditionType) || !condition.value) continue;
+    try {
+      const value = JSON.parse(condition.value);
+      if (value.sourceBranch) filters.push(value.sourceBranch);
+    } catch {
+      warnings.push(`Could not read artifact filter on '${condition.name}'`);
+    }
+  }
+  // Release triggers filter which branches create a release at all
+  for (const trigger of def.triggers ?? []) {
+    for (const tc of trigger.triggerConditions ?? []) {
+      if (tc.sourceBranch) filters.push(tc.sourceBranch);
+    }
+  }
+
+  const branches: string[] = [];
+  for (const filter of filters) {
+    const pattern = branchPattern(filter);
+    if (pattern === null) {
+      warnings.push(`Branch exclusion '${filter}' has no deployment branch policy equivalent`);
+    } else if (pattern && !branches.includes(pattern)) {
+      branches.push(pattern);
+    }
+  }
+  // "*" allows everything, which is the same as no policy
+  return branches.includes("*") ? [] : branches;
+}
+
+function planEnvironment(env: ADOReleaseEnvironment, def: ADOReleaseDefinition, users: Map<string, string>): EnvironmentPlan {
+  const warnings: string[] = [];
+  const approvals: any[] = (env.preDeployApprovals?.approvals ?? []).filter((a: any) => !a.isAutomated && a.approver);
+  const options = env.preDeployApprovals?.approvalOptions ?? {};
+
+  const reviewers: ReviewerRef[] = [];
+  for (const approval of approvals) {
+    const approver = approval.approver;
+    const mapped = users.get(String(approver.uniqueName ?? "").toLowerCase())
+      ?? users.get(String(approver.displayName ?? "").toLowerCase());
+    if (!mapped) {
+      warnings.push(`No GitHub mapping for approver '${approver.uniqueName || approver.displayName}'`);
+      continue;
+    }
+    const reviewer = toReviewer(mapped);
+    if (!reviewers.some(r => reviewerLabel(r) === reviewerLabel(reviewer))) reviewers.push(reviewer);
+  }
+  if (reviewers.length > MAX_REVIEWERS) {
+    warnings.push(`GitHub allows ${MAX_REVIEWERS} required reviewers — dropped ${reviewers.slice(MAX_REVIEWERS).map(reviewerLabel).join(", ")}`);
+    reviewers.length = MAX_REVIEWERS;
+  }
+  if (approvals.length > 1 && (options.requiredApproverCount ?? 0) !== 1) {
+    warnings.push("ADO requires several approvers; GitHub needs only one of the required reviewers to approve");
+  }
+
+  let waitTimer = 0;
+  const gates = env.preDeploymentGates;
+  if (gates?.gatesOptions?.isEnabled) {
+    waitTimer = Math.min(gates.gatesOptions.stabilizationTime ?? 0, MAX_WAIT_MINUTES);
+    if ((gates.gates ?? []).some((g: any) => (g.tasks ?? []).length > 0)) {
+      warnings.push("Deployment gates (queries, REST checks, monitors) have no equivalent — add them as workflow steps or a custom deployment protection rule");
+    }
+  }
+
+  if ((env.postDeployApprovals?.approvals ?? []).some((a: any) => !a.isAutomated)) {
+    warnings.push("Post-deployment approvals are not supported by GitHub Environments — add a follow-up environment with reviewers if needed");
+  }
+
+  return {
+    name: env.name,
+    reviewers,
+    waitTimer,
+    preventSelfReview: options.releaseCreatorCanBeApprover === false,
+    branches: artifactBranches(env, def, warnings),
+    warnings,
+  };
+}
+
+/**
+ * Plan one GitHub environment per release stage.
+ */
+export function planReleaseEnvironments(def: ADOReleaseDefinition, userMappingCsv?: string): EnvironmentPlan[] {
+  const users = userMappingCsv ? parseUserMapping(userMappingCsv) : new Map<string, string>();
+  return def.environments.map(env => planEnvironment(env, def, users));
+}
+
+// ─── Creation ────────────────────────────────────────────────────────────────
+
+async function ghRequest(method: "GET" | "POST" | "PUT", url: string, token: string, body?: object): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: "application/vnd.github+json",
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    ...(body ? { body: JSON.stringify(body) } : {}),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`GitHub API error ${response.status}: ${text}`);
+  }
+  return response.json();
+}
+
+async function reviewerId(apiUrl: string, reviewer: ReviewerRef, token: string): Promise<number> {
+  const data = reviewer.type === "User"
+    ? await ghRequest("GET", `${apiUrl}/users/${reviewer.login}`, token)
+    : await ghRequest("GET", `${apiUrl}/orgs/${reviewer.org}/teams/${reviewer.slug}`, token);
+  return data.id;
+}
+
+/**
+ * Create (or update) the planned environments on a repo. Environments are
+ * handled independently, so one failure doesn't stop the rest.
+ */
+export async function createEnvironments(
+  apiUrl: string,
+  owner: string,
+  repo: string,
+  plans: EnvironmentPlan[],
+  token: string
+): Promise<EnvironmentResult[]> {
+  const results: EnvironmentResult[] = [];
+
+  for (const plan of plans) {
+    const result: EnvironmentResult = {
+      name: plan.name,
+      status: "created",
+      reviewers: plan.reviewers.map(reviewerLabel),
+      waitTimer: plan.waitTimer,
+      branches: plan.branches,
+      warnings: [...plan.warnings],
+    };
+    const envUrl = `${apiUrl}/repos/${owner}/${repo}/environments/${encodeURIComponent(plan.name)}`;
+
+    try {
+      const reviewers: { type: string; id: number }[] = [];
+      for (const r of plan.reviewers) {
+        try {
+          reviewers.push({ type: r.type, id: await reviewerId(apiUrl, r, token) });
+        } catch {
+          result.warnings.push(`GitHub ${r.type.toLowerCase()} '${reviewerLabel(r)}' not found — not added as a reviewer`);
+        }
+      }
+
+      await ghRequest("PUT", envUrl, token, {
+        wait_timer: plan.waitTimer,
+        prevent_self_review: plan.preventSelfReview,
+        reviewers,
+        deployment_branch_policy: plan.branches.length > 0
+          ? { protected_branches: false, custom_branch_policies: true }
+          : null,
+      });
+
+      if (plan.branches.length > 0) {
+        const existing = await ghRequest("GET", `${envUrl}/deployment-branch-policies?per_page=100`, token);
+        const names = new Set((existing.branch_policies ?? []).map((p: any) => p.name));
+        for (const branch of plan.branches.filter(b => !names.has(b))) {
+          await ghRequest("POST", `${envUrl}/deployment-branch-policies`, token, { name: branch, type: "branch" });
+        }
+      }
+    } catch (err: unknown) {
+      result.status = "failed";
+      result.error = err instanceof Error ? err.message : String(err);
+    }
+    results.push(result);
+  }
+
+  return results;
+}
@@ -0,0 +1,240 @@
+/**
+ * Repository migration starter — shared by `migrate_repo` and the batch queue.
+ * Resolves source URLs, reuses (or recreates) the cached GEI migration source,
+ * starts the migration and records it in state. Source locks taken before a
+ * start that fails are released again.
+ */
+import * as github from "./github-api.js";
+import * as bbs from "./bbs-api.js";
+import * as ghesArchive from "./ghes-archive.js";
+import * as ado from "./ado-api.js";
+import * as state from "./state.js";
+import { getGitHubSourcePAT, getADOPAT } from "./session.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RepoMigrationRequest {
+  source: state.SourcePlatform;
+  /** Org name (GitHub/ADO) or Bitbucket Server base URL (BBS) */
+  sourceOrg: string;
+  repoName: string;
+  targetOrg: string;
+  /** New repository name (defaults to repoName) */
+  targetRepoName?: string;
+  /** Target host for GHE.com tenants (defaults to the session setting, then github.com) */
+  targetHost?: string;
+  /** GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) for GHES sources */
+  ghesApiUrl?: string;
+  /** ADO project name (required for ADO source) */
+  adoProject?: string;
+  /** Bitbucket project key (required for BBS source) */
+  bbsProject?: string;
+  /** URL of the uploaded Bitbucket export archive (required for BBS source) */
+  archiveUrl?: string;
+  /** Batch this migration belongs to, if started from the queue */
+  batchId?: string;
+  /** Lock the source repository for cutover (GitHub, GHES and ADO sources) */
+  lockSource?: boolean;
+}
+
+export interface StartedMigration {
+  migrationId: string;
+  targetRepoName: string;
+  /** Web URL of the repository on the target host */
+  targetRepoUrl: string;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Undo the source locks taken for a migration that didn't start. Returns a
+ * description of each lock that could not be released.
+ */
+async function releaseSourceLocks(
+  request: RepoMigrationRequest,
+  actions: state.SourceAction[],
+  sessionId?: string
+): Promise<string[]> {
+  const { sourceOrg, repoName } = request;
+  const failures: string[] = [];
+  for (const action of actions) {
+    try {
+      if (action.kind === "ado_read_only") {
+        await ado.restoreRepoPermissions(sourceOrg, action.adoPermissions!, sessionId);
+      } else if (action.kind === "ghes_lock") {
+        await ghesArchive.unlockRepo(request.ghesApiUrl!, sourceOrg, action.ghesMigrationId!, repoName, sessionId);
+      }
+    } catch (err: unknown) {
+      const reason = err instanceof Error ? err.message : String(err);
+      failures.push(action.kind === "ghes_lock"
+        ? `${sourceOrg}/${repoName} is still locked by GHES migration ${action.ghesMigrationId} (${reason})`
+        : `${request.adoProject}/${repoName} is still read-only in ADO (${reason})`);
+    }
+  }
+  return failures;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Start a single repository migration and record it as active.
+ */
+export async function startRepoMigration(
+  request: RepoMigrationRequest,
+  sessionId?: string
+): Promise<StartedMigration> {
+  const { source, sourceOrg, repoName, targetOrg, adoProject } = request;
+  const finalRepoName = request.targetRepoName || repoName;
+  const targetHost = github.resolveTargetHost(request.targetHost, sessionId);
+
+  // Get target org ID
+  const targetOrgId = await github.getOrganizationId(targetOrg, targetHost, sessionId);
+
+  // Build source URL
+  let sourceOrgUrl: string;
+  let sourceRepoUrl: string;
+  let migrationSourceType: github.MigrationSourceType;
+  let accessToken: string;
+  let archiveUrls: github.MigrationArchiveUrls | undefined;
+  const sourceActions: state.SourceAction[] = [];
+  const lockSource = !!request.lockSource;
+
+  if (source === "github" && request.ghesApiUrl) {
+    // GHES: GEI imports from archives generated on the instance, keyed by its web URL
+    sourceOrgUrl = github.ghesWebUrl(request.ghesApiUrl);
+    sourceRepoUrl = `${sourceOrgUrl}/${sourceOrg}/${repoName}`;
+    migrationSourceType = "GITHUB_ARCHIVE";
+    accessToken = getGitHubSourcePAT(sessionId);
+    const archives = await ghesArchive.generateArchives(request.ghesApiUrl, sourceOrg, repoName, lockSource, sessionId);
+    archiveUrls = archives;
+    if (archives.lockMigrationId !== undefined) {
+      sourceActions.push({ kind: "ghes_lock", performedAt: new Date().toISOString(), ghesMigrationId: archives.lockMigrationId });
+    }
+  } else if (source === "github") {
+    // Migration source URL should be just the base URL, matching gh-gei CLI behavior.
+    sourceOrgUrl = `https://github.com`;
+    sourceRepoUrl = `https://github.com/${sourceOrg}/${repoName}`;
+    migrationSourceType = "GITHUB_ARCHIVE";
+    accessToken = getGitHubSourcePAT(sessionId);
+  } else if (source === "bbs") {
+    if (lockSource) {
+      throw new Error("lockSource is not supported for Bitbucket Server migrations");
+    }
+    if (!request.bbsProject || !request.archiveUrl) {
+      throw new Error("bbsProject and archiveUrl are required for Bitbucket Server migrations");
+    }
+    // GEI cannot reach Bitbucket Server directly: it imports the export archive
+    // from blob storage, so the source token and metadata archive are unused.
+    sourceOrgUrl = sourceOrg.replace(/\/+$/, "");
+    sourceRepoUrl = bbs.repoUrl(sourceOrgUrl, request.bbsProject, repoName);
+    migrationSourceType = "BITBUCKET_SERVER";
+    accessToken = "not-used";
+    archiveUrls = { gitArchiveUrl: request.archiveUrl, metadataArchiveUrl: "https://not-used" };
+  } else {
+    if (!adoProject) {
+      throw new Error("adoProject is required for Azure DevOps migrations");
+    }
+    // Migration source URL should be just the base ADO URL, not including the org name.
+    // The org-specific info is conveyed via sourceRepoUrl in startRepositoryMigration.
+    // This matches how gh-gei CLI constructs it.
+    sourceOrgUrl = `https://dev.azure.com`;
+    sourceRepoUrl = `https://dev.azure.com/${encodeURIComponent(sourceOrg)}/${encodeURIComponent(adoProject)}/_git/${encodeURIComponent(repoName)}`;
+    migrationSourceType = "AZURE_DEVOPS";
+    accessToken = getADOPAT(sessionId);
+    if (lockSource) {
+      // GEI can't lock ADO repos itself — make the repo read-only, as `ado2gh lock-ado-repo` does
+      const adoPermissions = await ado.lockRepoReadOnly(sourceOrg, adoProject, repoName, sessionId);
+      sourceActions.push({ kind: "ado_read_only", performedAt: new Date().toISOString(), adoPermissions });
+    }
+  }
+
+  // GEI locks github.com sources itself when asked
+  const geiLocksSource = lockSource && source === "github" && !request.ghesApiUrl;
+
+  // A failed start leaves no migration record to undo the source locks from,
+  // so release them here before reporting the failure
+  let migrationId: string;
+  try {
+    // Check if we already have a migration source, otherwise create one
+    // Use a cache key that includes the source type (and non-default target host) to avoid collisions
+    const sourceKey = source === "github" ? sourceOrgUrl : `${source}:${sourceOrgUrl}`;
+    const migrationSourceCacheKey = targetHost === github.GITHUB_HOST ? sourceKey : `${targetHost}|${sourceKey}`;
+    let migrationSourceId = state.getMigrationSource(migrationSourceCacheKey);
+    if (!migrationSourceId) {
+      migrationSourceId = await github.createMigrationSource(targetOrgId, sourceOrgUrl, migrationSourceType, targetHost, sessionId);
+      state.saveMigrationSource(migrationSourceCacheKey, migrationSourceId);
+    }
+
+    // Start the migration (retry with fresh migration source if cached one is stale)
+    try {
+      migrationId = await github.startRepositoryMigration(
+        sourceOrgUrl,
+        targetOrgId,
+        migrationSourceId,
+        sourceRepoUrl,
+        finalRepoName,
+        accessToken,
+        archiveUrls,
+        geiLocksSource,
+        targetHost,
+        sessionId
+      );
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (msg.includes("Migration source not found")) {
+        // Cached migration source expired — create a fresh one and retry
+        state.clearMigrationSource(migrationSourceCacheKey);
+        migrationSourceId = await github.createMigrationSource(targetOrgId, sourceOrgUrl, migrationSourceType, targetHost, sessionId);
+        state.saveMigrationSource(migrationSourceCacheKey, migrationSourceId);
+        migrationId = await github.startRepositoryMigration(
+          sourceOrgUrl,
+          targetOrgId,
+          migrationSourceId,
+          sourceRepoUrl,
+          finalRepoName,
+          accessToken,
+          archiveUrls,
+          geiLocksSource,
+          targetHost,
+          sessionId
+        );
+      } else {
+        throw err;
+      }
+    }
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    const failures = await releaseSourceLocks(request, sourceActions, sessionId);
+    if (sourceActions.length === 0) throw err;
+    throw new Error(failures.length === 0
+      ? `${msg} (the source lock was released)`
+      : `${msg}. Releasing the source lock also failed — ${failures.join("; ")}`);
+  }
+
+  if (geiLocksSource) {
+    sourceActions.push({ kind: "github_lock", performedAt: new Date().toISOString() });
+  }
+
+  // Record the migration
+  state.addActiveMigration({
+    id: migrationId,
+    sourceOrg,
+    targetOrg,
+    repoName: finalRepoName,
+    state: "QUEUED",
+    startedAt: new Date().toISOString(),
+    source,
+    ...(request.batchId ? { batchId: request.batchId } : {}),
+    ...(targetHost !== github.GITHUB_HOST ? { targetHost } : {}),
+    ...(finalRepoName !== repoName ? { sourceRepoName: repoName } : {}),
+    ...(adoProject ? { adoProject } : {}),
+    ...(request.ghesApiUrl ? { ghesApiUrl: request.ghesApiUrl } : {}),
+    ...(sourceActions.length > 0 ? { sourceActions } : {}),
+  });
+
+  return {
+    migrationId,
+    targetRepoName: finalRepoName,
+    targetRepoUrl: `${github.targetWebUrl(targetHost)}/${targetOrg}/${finalRepoName}`,
+  };
+}
@@ -0,0 +1,336 @@
+/**
+ * Service connection translation — ADO service endpoints → GitHub Actions
+ * OIDC.  Finds the service connections a build pipeline references, and for
+ * Azure Resource Manager connections produces the federated credentials to
+ * add to the connection's app registration plus an `azure/login` OIDC step,
+ * which is patched into the converted workflow ahead of its Azure steps.
+ */
+import YAML from "yaml";
+import * as adoPipelines from "./ado-pipelines.js";
+import * as converter from "./pipeline-converter.js";
+import { resolveTargetHost, targetOidcIssuer } from "./github-api.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface FederatedCredential {
+  name: string;
+  issuer: string;
+  subject: string;
+  audiences: string[];
+}
+
+export interface ConnectionTranslation {
+  id: string;
+  name: string;
+  type: string;
+  authScheme?: string;
+  /** Steps in the source pipeline that use the connection */
+  usedBy: string[];
+  /** Azure RM only: what to register and how to log in */
+  azure?: {
+    clientId: string;
+    tenantId: string;
+    subscriptionId?: string;
+    federatedCredentials: FederatedCredential[];
+    loginWith: Record<string, string>;
+  };
+  /** Manual follow-up for this connection */
+  notes: string[];
+}
+
+export interface OidcSubjects {
+  targetOrg: string;
+  targetRepo: string;
+  /** Environments the workflow deploys to */
+  environments?: string[];
+  /** Branches the workflow runs on */
+  branches?: string[];
+  pullRequests?: boolean;
+  targetHost?: string;
+}
+
+export interface ServiceConnectionReport {
+  pipelineName: string;
+  connections: ConnectionTranslation[];
+  /** Runtime expressions that pick a connection and can't be resolved statically */
+  unresolved: string[];
+  /** Converted workflow with azure/login steps and id-token permission added */
+  workflowYaml: string;
+  suggestedFilename: string;
+  warnings: string[];
+}
+
+/** A service connection reference found in the source pipeline */
+interface ConnectionReference {
+  value: string;
+  stepName?: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const AZURE_AD_AUDIENCE = "api://AzureADTokenExchange";
+/** Task input names that hold a service connection */
+const CONNECTION_INPUT = /(service|connection|subscription|endpoint|registry)/i;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Collect connection references from YAML task inputs and resources, in document order */
+function yamlReferences(node: any, refs: ConnectionReference[]): void {
+  if (Array.isArray(node)) {
+    for (const item of node) yamlReferences(item, refs);
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+
+  if (typeof node.task === "string" && node.inputs && typeof node.inputs === "object") {
+    for (const [key, value] of Object.entries(node.inputs)) {
+      if (CONNECTION_INPUT.test(key) && typeof value === "string" && value) {
+        refs.push({ value, stepName: node.displayName });
+      }
+    }
+  }
+  // resources.repositories / resources.containers
+  if (typeof node.endpoint === "string") refs.push({ value: node.endpoint });
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== "inputs") yamlReferences(value, refs);
+  }
+}
+
+function classicReferences(def: adoPipelines.ADOBuildDefinitionDetail): ConnectionReference[] {
+  const refs: ConnectionReference[] = [];
+  const steps = [
+    ...(def.processSteps ?? []),
+    ...(def.processPhases ?? []).flatMap(p => p.steps ?? []),
+  ];
+  for (const step of steps) {
+    if (step.enabled === false) continue;
+    for (const [key, value] of Object.entries(step.inputs ?? {})) {
+      if (CONNECTION_INPUT.test(key) && value) refs.push({ value, stepName: step.displayName });
+    }
+  }
+  return refs;
+}
+
+/** Credential names allow letters, digits, hyphens and underscores */
+function credentialName(...parts: string[]): string {
+  return parts.join("-").replace(/[^A-Za-z0-9_-]/g, "-").slice(0, 120);
+}
+
+function federatedCredentials(subjects: OidcSubjects, issuer: string): FederatedCredential[] {
+  const repo = `${subjects.targetOrg}/${subjects.targetRepo}`;
+  const credential = (suffix: string[], subject: string): FederatedCredential => ({
+    name: credentialName(subjects.targetOrg, subjects.targetRepo, ...suffix),
+    issuer,
+    subject: `repo:${repo}:${subject}`,
+    audiences: [AZURE_AD_AUDIENCE],
+  });
+
+  return [
+    ...(subjects.branches ?? []).map(b => credential(["branch", b], `ref:refs/heads/${b}`)),
+    ...(subjects.environments ?? []).map(e => credential(["env", e], `environment:${e}`)),
+    ...(subjects.pullRequests ? [credential(["pr"], "pull_request")] : []),
+  ];
+}
+
+function translateConnection(
+  endpoint: adoPipelines.ADOServiceEndpoint,
+  usedBy: string[],
+  subjects: OidcSubjects,
+  issuer: string
+): ConnectionTranslation {
+  const translation: ConnectionTranslation = {
+    id: endpoint.id,
+    name: endpoint.name,
+    type: endpoint.type,
+    authScheme: endpoint.authorization?.scheme,
+    usedBy,
+    notes: [],
+  };
+
+  if (endpoint.type.toLowerCase() !== "azurerm") {
+    translation.notes.push(
+      `No OIDC translation for '${endpoint.type}' connections — recreate the credentials as GitHub secrets`
+    );
+    return translation;
+  }
+
+  const params = endpoint.authorization?.parameters ?? {};
+  const clientId = params.serviceprincipalid;
+  const tenantId = params.tenantid;
+  if (!clientId || !tenantId) {
+    translation.notes.push(
+      endpoint.authorization?.scheme === "ManagedServiceIdentity"
+        ? "Managed identity connections have no app registration — create a user-assigned identity or app registration for GitHub"
+        : "Connection does not expose a service principal — create an app registration for GitHub and add the credentials manually"
+    );
+    return translation;
+  }
+
+  const subscriptionId = endpoint.data?.subscriptionId;
+  translation.azure = {
+    clientId,
+    tenantId,
+    subscriptionId,
+    federatedCredentials: federatedCredentials(subjects, issuer),
+    loginWith: {
+      "client-id": clientId,
+      "tenant-id": tenantId,
+      ...(subscriptionId ? { "subscription-id": subscriptionId } : { "allow-no-subscriptions": "true" }),
+    },
+  };
+  translation.notes.push(
+    `Add the federated credentials to app ${clientId} (az ad app federated-credential create --id ${clientId} --parameters <credential.json>)`
+  );
+  if (endpoint.data?.scopeLevel === "ManagementGroup") {
+    translation.notes.push("Connection is scoped to a management group — azure/login is configured without a subscription");
+  }
+  return translation;
+}
+
+// ─── Workflow patching ───────────────────────────────────────────────────────
+
+/**
+ * A step needs an Azure login when its source step used an Azure connection
+ * (e.g. AzureKeyVault, converted to an `az` run step) or it runs an Azure
+ * action — the converter emits both `azure/` and `Azure/` owners.
+ */
+function isAzureStep(step: any, byStepName: Map<string, ConnectionTranslation>): boolean {
+  if (typeof step?.name === "string" && byStepName.has(step.name)) return true;
+  const uses = typeof step?.uses === "string" ? step.uses.toLowerCase() : "";
+  return uses.startsWith("azure/") && !uses.startsWith("azure/login@");
+}
+
+/**
+ * Add an azure/login step before the Azure steps of each job and grant
+ * `id-token: write`. A step uses the connection its source step used (matched
+ * by step name), else `fallback`.
+ */
+export function patchWorkflowForOidc(
+  workflowYaml: string,
+  connections: ConnectionTranslation[],
+  fallback: ConnectionTranslation | undefined,
+  warnings: string[]
+): string {
+  let workflow: any;
+  try {
+    workflow = YAML.parse(workflowYaml);
+  } catch {
+    warnings.push("Converted workflow is not valid YAML — add the azure/login step manually");
+    return workflowYaml;
+  }
+  if (!workflow?.jobs || !fallback?.azure) return workflowYaml;
+
+  const byStepName = new Map<string, ConnectionTranslation>();
+  for (const c of connections) {
+    if (!c.azure) continue;
+    for (const step of c.usedBy) byStepName.set(step, c);
+  }
+
+  let patched = false;
+  for (const [jobId, job] of Object.entries<any>(workflow.jobs)) {
+    if (!Array.isArray(job?.steps)) continue;
+    const steps: any[] = [];
+    let loggedIn: string | undefined;
+
+    for (const step of job.steps) {
+      if (isAzureStep(step, byStepName)) {
+        let connection = byStepName.get(step.name);
+        if (!connection) {
+          if (byStepName.size > 1) {
+            warnings.push(`Job '${jobId}' step '${step.name ?? step.uses}': could not tell which connection it used — logged in with '${fallback.name}'`);
+          }
+          connection = fallback;
+        }
+        if (loggedIn !== connection.id) {
+          steps.push({ name: `Azure login (${connection.name})`, uses: "azure/login@v2", with: connection.azure!.loginWith });
+          loggedIn = connection.id;
+          patched = true;
+        }
+      }
+      steps.push(step);
+    }
+    job.steps = steps;
+  }
+  if (!patched) return workflowYaml;
+
+  // Setting any permission drops the others to none, so keep checkout working
+  const permissions = workflow.permissions && typeof workflow.permissions === "object"
+    ? { ...workflow.permissions, "id-token": "write" }
+    : { contents: "read", "id-token": "write" };
+  const ordered: Record<string, any> = {};
+  for (const [key, value] of Object.entries(workflow)) {
+    if (key === "jobs") ordered.permissions = permissions;
+    if (key !== "permissions") ordered[key] = value;
+  }
+
+  // Keep the converter's leading "Converted from" comment
+  const header = workflowYaml.match(/^(#.*\n)+/)?.[0] ?? "";
+  return header + YAML.stringify(ordered, { lineWidth: 120, defaultStringType: "PLAIN", defaultKeyType: "PLAIN", nullStr: "" });
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Enumerate the service connections a build pipeline uses and translate its
+ * Azure RM connections to GitHub OIDC for the target repo.
+ */
+export async function translateServiceConnections(
+  adoOrg: string,
+  adoProject: string,
+  definitionId: number,
+  subjects: OidcSubjects,
+  workflowYaml?: string,
+  sessionId?: string
+): Promise<ServiceConnectionReport> {
+  const [def, endpoints] = await Promise.all([
+    adoPipelines.getBuildDefinition(adoOrg, adoProject, definitionId, "inline", sessionId),
+    adoPipelines.listServiceEndpoints(adoOrg, adoProject, sessionId),
+  ]);
+  const warnings: string[] = [];
+
+  let refs: ConnectionReference[] = [];
+  if (def.yamlContent) {
+    try {
+      yamlReferences(YAML.parse(def.yamlContent), refs);
+    } catch {
+      warnings.push("Could not parse the pipeline YAML — no connections were read from it");
+    }
+    if (/^\s*-?\s*template\s*:/m.test(def.yamlContent)) {
+      warnings.push("Some templates could not be expanded — connections referenced only inside them were not found");
+    }
+  } else {
+    refs = classicReferences(def);
+  }
+
+  const issuer = targetOidcIssuer(resolveTargetHost(subjects.targetHost, sessionId));
+  const connections = new Map<string, { endpoint: adoPipelines.ADOServiceEndpoint; usedBy: string[] }>();
+  const unresolved = new Set<string>();
+  for (const ref of refs) {
+    // Classic definitions store endpoint IDs; YAML uses names
+    const endpoint = endpoints.find(e => e.id === ref.value || e.name.toLowerCase() === ref.value.toLowerCase());
+    if (!endpoint) {
+      // Runtime expressions like $(azureSubscription) can't be resolved statically
+      if (/\$[({[]/.test(ref.value)) unresolved.add(ref.value);
+      continue;
+    }
+    if (!connections.has(endpoint.id)) connections.set(endpoint.id, { endpoint, usedBy: [] });
+    if (ref.stepName) connections.get(endpoint.id)!.usedBy.push(ref.stepName);
+  }
+
+  const translations = [...connections.values()].map(c => translateConnection(c.endpoint, c.usedBy, subjects, issuer));
+  const azure = translations.filter(t => t.azure);
+  if (unresolved.size > 0) {
+    warnings.push(`Connections chosen at runtime could not be resolved: ${[...unresolved].join(", ")}`);
+  }
+
+  const conversion = converter.convertBuildPipeline(def);
+  return {
+    pipelineName: def.name,
+    connections: translations,
+    unresolved: [...unresolved],
+    workflowYaml: patchWorkflowForOidc(workflowYaml ?? conversion.workflowYaml, azure, azure[0], warnings),
+    suggestedFilename: conversion.suggestedFilename,
+    warnings,
+  };
+}
@@ -6,7 +6,11 @@
 export interface SessionCredentials {
   githubSourcePat?: string;
   githubTargetPat?: string;
+  /** Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com) */
+  githubTargetHost?: string;
   adoPat?: string;
+  bbsUsername?: string;
+  bbsPassword?: string;
 }
 
 // Credential store keyed by MCP SDK transport sessionId
@@ -63,6 +67,18 @@ export function getGitHubTargetPAT(sessionId?: string): string {
   return token;
 }
 
+/** Target host override — undefined means github.com */
+export function getGitHubTargetHost(sessionId?: string): string | undefined {
+  if (sessionId) {
+    const creds = sessionCredentials.get(sessionId);
+    if (creds?.githubTargetHost) {
+      return creds.githubTargetHost;
+    }
+  }
+  
+  return process.env.GH_TARGET_HOST || undefined;
+}
+
 export function getADOPAT(sessionId?: string): string {
   if (sessionId) {
     const creds = sessionCredentials.get(sessionId);
@@ -78,10 +94,27 @@ export function getADOPAT(sessionId?: string): string {
   return token;
 }
 
+export function getBBSCredentials(sessionId?: string): { username: string; password: string } {
+  if (sessionId) {
+    const creds = sessionCredentials.get(sessionId);
+    if (creds?.bbsUsername && creds?.bbsPassword) {
+      return { username: creds.bbsUsername, password: creds.bbsPassword };
+    }
+  }
+  
+  const username = process.env.BBS_USERNAME;
+  const password = process.env.BBS_PASSWORD;
+  if (!username || !password) {
+    throw new Error("Bitbucket Server credentials not configured. Provide via X-BBS-Username/X-BBS-Password headers or BBS_USERNAME/BBS_PASSWORD env vars.");
+  }
+  return { username, password };
+}
+
 export function checkPrerequisites(sessionId?: string): { 
   githubSource: boolean; 
   githubTarget: boolean; 
   ado: boolean;
+  bbs: boolean;
   details: string[];
   sessionBased: boolean;
 } {
@@ -89,6 +122,7 @@ export function checkPrerequisites(sessionId?: string): {
   let githubSource = false;
   let githubTarget = false;
   let ado = false;
+  let bbs = false;
   let sessionBased = false;
 
   // Check session credentials first
@@ -99,6 +133,7 @@ export function checkPrerequisites(sessionId?: string): {
       githubSource = !!creds.githubSourcePat;
       githubTarget = !!creds.githubTargetPat;
       ado = !!creds.adoPat;
+      bbs = !!(creds.bbsUsername && creds.bbsPassword);
     }
   }
 
@@ -112,12 +147,16 @@ export function checkPrerequisites(sessionId?: string): {
   if (!ado) {
     ado = !!(process.env.ADO_PAT && process.env.ADO_PAT !== 'not-configured');
   }
+  if (!bbs) {
+    bbs = !!(process.env.BBS_USERNAME && process.env.BBS_PASSWORD);
+  }
 
   if (!githubSource) details.push("Missing: GitHub source PAT (X-GitHub-Source-PAT header or GITHUB_TOKEN env)");
   if (!githubTarget) details.push("Missing: GitHub target PAT (X-GitHub-Target-PAT header or GH_PAT env)");
   if (!ado) details.push("Missing: ADO PAT (X-ADO-PAT header or ADO_PAT env) — optional if not migrating from ADO");
+  if (!bbs) details.push("Missing: Bitbucket Server credentials (X-BBS-Username/X-BBS-Password headers or BBS_USERNAME/BBS_PASSWORD env) — optional if not migrating from Bitbucket Server");
 
-  return { githubSource, githubTarget, ado, details, sessionBased };
+  return { githubSource, githubTarget, ado, bbs, details, sessionBased };
 }
 
 /** Resolve the GitHub access token used for Actions Importer operations */
@@ -0,0 +1,114 @@
+/**
+ * Source-side cutover actions: archiving the source after a validated
+ * migration, and undoing locks/archives recorded on the migration record.
+ */
+import * as github from "./github-api.js";
+import * as ado from "./ado-api.js";
+import * as ghesArchive from "./ghes-archive.js";
+import * as state from "./state.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface UndoResult {
+  kind: state.SourceActionKind;
+  undone: boolean;
+  message: string;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function requireRecord(migrationId: string): state.MigrationRecord {
+  const record = state.getMigrationRecord(migrationId);
+  if (!record) {
+    throw new Error(`Migration not found in history: ${migrationId}`);
+  }
+  return record;
+}
+
+function sourceRepoName(record: state.MigrationRecord): string {
+  return record.sourceRepoName || record.repoName;
+}
+
+async function undoAction(record: state.MigrationRecord, action: state.SourceAction, sessionId?: string): Promise<string> {
+  const repo = sourceRepoName(record);
+  switch (action.kind) {
+    case "github_archive":
+      await github.setSourceRepoArchived(record.sourceOrg, repo, false, record.ghesApiUrl, sessionId);
+      return `Unarchived ${record.sourceOrg}/${repo}`;
+    case "ghes_lock":
+      await ghesArchive.unlockRepo(record.ghesApiUrl!, record.sourceOrg, action.ghesMigrationId!, repo, sessionId);
+      return `Unlocked ${record.sourceOrg}/${repo} on GHES`;
+    case "ado_disable":
+      await ado.setRepoDisabled(record.sourceOrg, record.adoProject!, repo, false, sessionId);
+      return `Re-enabled ${record.adoProject}/${repo}`;
+    case "ado_read_only":
+      await ado.restoreRepoPermissions(record.sourceOrg, action.adoPermissions!, sessionId);
+      return `Restored write permissions on ${record.adoProject}/${repo}`;
+    case "github_lock":
+      throw new Error("Repositories locked by GEI on github.com cannot be unlocked through the API — contact GitHub Support");
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Archive (GitHub) or disable (ADO) the source repository of a migration.
+ * By default the migration must have a passing validation report first.
+ */
+export async function archiveSourceRepo(
+  migrationId: string,
+  requireValidation: boolean = true,
+  sessionId?: string
+): Promise<state.SourceAction> {
+  const record = requireRecord(migrationId);
+  if (requireValidation && !record.validation?.passed) {
+    throw new Error(
+      record.validation
+        ? `Validation for ${migrationId} found discrepancies: ${record.validation.discrepancies.join("; ")}`
+        : `Migration ${migrationId} has not been validated — run validate_migration first`
+    );
+  }
+
+  const repo = sourceRepoName(record);
+  let kind: state.SourceActionKind;
+  if (record.source === "github") {
+    await github.setSourceRepoArchived(record.sourceOrg, repo, true, record.ghesApiUrl, sessionId);
+    kind = "github_archive";
+  } else if (record.source === "ado") {
+    if (!record.adoProject) {
+      throw new Error(`Migration ${migrationId} has no ADO project recorded`);
+    }
+    await ado.setRepoDisabled(record.sourceOrg, record.adoProject, repo, true, sessionId);
+    kind = "ado_disable";
+  } else {
+    throw new Error("Archiving Bitbucket Server sources is not supported");
+  }
+
+  const action: state.SourceAction = { kind, performedAt: new Date().toISOString() };
+  state.updateMigrationRecord(migrationId, { sourceActions: [...(record.sourceActions ?? []), action] });
+  return action;
+}
+
+/**
+ * Reverse every recorded source action that hasn't been undone yet,
+ * newest first.
+ */
+export async function undoSourceActions(migrationId: string, sessionId?: string): Promise<UndoResult[]> {
+  const record = requireRecord(migrationId);
+  const actions = record.sourceActions ?? [];
+  const results: UndoResult[] = [];
+
+  for (const action of [...actions].reverse()) {
+    if (action.undoneAt) continue;
+    try {
+      const message = await undoAction(record, action, sessionId);
+      action.undoneAt = new Date().toISOString();
+      results.push({ kind: action.kind, undone: true, message });
+    } catch (err: unknown) {
+      results.push({ kind: action.kind, undone: false, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  state.updateMigrationRecord(migrationId, { sourceActions: actions });
+  return results;
+}
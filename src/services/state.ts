@@ -2,7 +2,9 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 
-interface MigrationRecord {
+export type SourcePlatform = "github" | "ado" | "bbs";
+
+export interface MigrationRecord {
   id: string;
   sourceOrg: string;
   targetOrg: string;
@@ -10,16 +12,187 @@ interface MigrationRecord {
   state: string;
   startedAt: string;
   completedAt?: string;
+  source: SourcePlatform;
+  batchId?: string;
+  /** Target host when not github.com (GHE.com tenants) */
+  targetHost?: string;
+  /** Source repo name when it differs from the target `repoName` */
+  sourceRepoName?: string;
+  adoProject?: string;
+  ghesApiUrl?: string;
+  /** Latest post-migration validation report */
+  validation?: MigrationValidation;
+  /** Cutover actions taken on the source (lock, archive), kept so they can be undone */
+  sourceActions?: SourceAction[];
+  /** Local path of the downloaded GEI migration log */
+  logPath?: string;
+  /** Structured warnings parsed from the migration log */
+  warnings?: MigrationWarning[];
+}
+
+export type MigrationWarningKind = "skipped_pr_comment" | "truncated_attachment" | "failed_release" | "other";
+
+export interface MigrationWarning {
+  kind: MigrationWarningKind;
+  message: string;
+  timestamp?: string;
+}
+
+export type SourceActionKind =
+  | "github_lock"     // lockSource passed to GEI (github.com)
+  | "ghes_lock"       // locked by the GHES metadata export
+  | "ado_read_only"   // write permissions denied to Project Valid Users
+  | "github_archive"  // source repo archived
+  | "ado_disable";    // source repo disabled
+
+export interface SourceAction {
+  kind: SourceActionKind;
+  performedAt: string;
+  undoneAt?: string;
+  /** GHES org migration holding the lock (ghes_lock) */
+  ghesMigrationId?: number;
+  /** Permissions replaced by the lock (ado_read_only) */
+  adoPermissions?: {
+    token: string;
+    descriptor: string;
+    allow: number;
+    deny: number;
+    existed: boolean;
+  };
+}
+
+export type ValidationMetricName =
+  | "branches"
+  | "tags"
+  | "defaultBranchCommits"
+  | "pullRequests"
+  | "issues"
+  | "releases";
+
+export interface ValidationMetric {
+  name: ValidationMetricName;
+  /** null when the metric doesn't exist on that platform (e.g. ADO issues) */
+  source: number | null;
+  target: number | null;
+  /** null when the metric can't be compared */
+  match: boolean | null;
+}
+
+export interface MigrationValidation {
+  validatedAt: string;
+  source: string;
+  target: string;
+  metrics: ValidationMetric[];
+  discrepancies: string[];
+  passed: boolean;
+}
+
+export type QueueItemStatus = "pending" | "in_progress" | "succeeded" | "failed";
+
+export interface QueueItem {
+  id: string;
+  batchId: string;
+  source: "github" | "ado";
+  sourceOrg: string;
+  repoName: string;
+  targetOrg: string;
+  targetRepoName: string;
+  ghesApiUrl?: string;
+  targetHost?: string;
+  adoProject?: string;
+  status: QueueItemStatus;
+  migrationId?: string;
+  migrationState?: string;
+  error?: string;
+  enqueuedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface BatchRecord {
+  id: string;
+  source: "github" | "ado";
+  sourceOrg: string;
+  targetOrg: string;
+  ghesApiUrl?: string;
+  targetHost?: string;
+  maxConcurrent: number;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export type ReclaimStatus = "invited" | "reattributed" | "claimed" | "failed";
+
+export interface MannequinReclaim {
+  org: string;
+  mannequinId: string;
+  mannequinLogin: string;
+  targetUser: string;
+  status: ReclaimStatus;
+  error?: string;
+  requestedAt: string;
+  updatedAt: string;
+}
+
+export type WaveTier = "stale" | "active" | "large";
+
+export interface PlannedRepo {
+  repoName: string;
+  adoProject?: string;
+  sizeMB: number;
+  lastActivity?: string;
+}
+
+export interface MigrationWave {
+  name: string;
+  /** ADO project or team the wave was grouped by */
+  group?: string;
+  tier: WaveTier;
+  repos: PlannedRepo[];
+  totalSizeMB: number;
+  /** Batch started for this wave by launch_migration_wave */
+  batchId?: string;
+  launchedAt?: string;
+}
+
+export interface MigrationPlan {
+  name: string;
   source: "github" | "ado";
+  sourceOrg: string;
+  targetOrg?: string;
+  ghesApiUrl?: string;
+  createdAt: string;
+  /** Options the plan was generated with, kept for reference */
+  criteria: Record<string, unknown>;
+  waves: MigrationWave[];
+}
+
+export interface PipelineRewire {
+  adoOrg: string;
+  adoProject: string;
+  definitionId: number;
+  definitionName: string;
+  /** Repository block of the definition before the rewire, restored on revert */
+  previousRepository: Record<string, unknown>;
+  /** owner/repo the pipeline now builds from */
+  githubRepo: string;
+  serviceConnectionId: string;
+  rewiredAt: string;
+  revertedAt?: string;
 }
 
 interface StateData {
   activeMigrations: MigrationRecord[];
   migrationHistory: MigrationRecord[];
   migrationSources: Record<string, string>; // key: sourceOrgUrl, value: migrationSourceId
+  batches: BatchRecord[];
+  migrationQueue: QueueItem[];
+  mannequinReclaims: MannequinReclaim[];
+  migrationPlans: MigrationPlan[];
+  pipelineRewires: PipelineRewire[];
 }
 
-const STATE_DIR = path.join(os.homedir(), ".gei-mcp");
+export const STATE_DIR = path.join(os.homedir(), ".gei-mcp");
 const STATE_FILE = path.join(STATE_DIR, "state.json");
 
 function ensureStateDir(): void {
@@ -28,12 +201,17 @@ function ensureStateDir(): void {
   }
 }
 
+function emptyState(): StateData {
+  return { activeMigrations: [], migrationHistory: [], migrationSources: {}, batches: [], migrationQueue: [], mannequinReclaims: [], migrationPlans: [], pipelineRewires: [] };
+}
+
 function loadState(): StateData {
   ensureStateDir();
   if (!fs.existsSync(STATE_FILE)) {
-    return { activeMigrations: [], migrationHistory: [], migrationSources: {} };
+    return emptyState();
   }
-  return JSON.parse(fs.readFileSync(STATE_FILE, "utf-8"));
+  // Older state files predate some keys — fill them in with defaults
+  return { ...emptyState(), ...JSON.parse(fs.readFileSync(STATE_FILE, "utf-8")) };
 }
 
 function saveState(state: StateData): void {
@@ -69,6 +247,20 @@ export function getMigrationHistory(): MigrationRecord[] {
   return loadState().migrationHistory;
 }
 
+export function getMigrationRecord(id: string): MigrationRecord | undefined {
+  const state = loadState();
+  return state.migrationHistory.find(m => m.id === id) ?? state.activeMigrations.find(m => m.id === id);
+}
+
+export function updateMigrationRecord(id: string, update: Partial<MigrationRecord>): void {
+  const state = loadState();
+  const migration = state.migrationHistory.find(m => m.id === id) ?? state.activeMigrations.find(m => m.id === id);
+  if (migration) {
+    Object.assign(migration, update);
+    saveState(state);
+  }
+}
+
 export function saveMigrationSource(sourceOrgUrl: string, migrationSourceId: string): void {
   const state = loadState();
   state.migrationSources[sourceOrgUrl] = migrationSourceId;
@@ -85,3 +277,115 @@ export function clearMigrationSource(sourceOrgUrl: string): void {
   delete state.migrationSources[sourceOrgUrl];
   saveState(state);
 }
+
+// ─── Batch migration queue ───────────────────────────────────────────────────
+
+export function addBatch(batch: BatchRecord, items: QueueItem[]): void {
+  const state = loadState();
+  state.batches.push(batch);
+  state.migrationQueue.push(...items);
+  saveState(state);
+}
+
+export function getBatch(batchId: string): BatchRecord | undefined {
+  return loadState().batches.find(b => b.id === batchId);
+}
+
+export function getBatches(): BatchRecord[] {
+  return loadState().batches;
+}
+
+export function completeBatch(batchId: string): void {
+  const state = loadState();
+  const batch = state.batches.find(b => b.id === batchId);
+  if (batch && !batch.completedAt) {
+    batch.completedAt = new Date().toISOString();
+    saveState(state);
+  }
+}
+
+export function getQueueItems(batchId: string): QueueItem[] {
+  return loadState().migrationQueue.filter(i => i.batchId === batchId);
+}
+
+export function updateQueueItem(id: string, update: Partial<QueueItem>): void {
+  const state = loadState();
+  const item = state.migrationQueue.find(i => i.id === id);
+  if (item) {
+    Object.assign(item, update);
+    saveState(state);
+  }
+}
+
+// ─── Mannequin reclaims ──────────────────────────────────────────────────────
+
+export function saveMannequinReclaim(reclaim: MannequinReclaim): void {
+  const state = loadState();
+  const idx = state.mannequinReclaims.findIndex(
+    r => r.org === reclaim.org && r.mannequinId === reclaim.mannequinId && r.targetUser === reclaim.targetUser
+  );
+  if (idx >= 0) {
+    state.mannequinReclaims[idx] = reclaim;
+  } else {
+    state.mannequinReclaims.push(reclaim);
+  }
+  saveState(state);
+}
+
+export function getMannequinReclaims(org?: string): MannequinReclaim[] {
+  const reclaims = loadState().mannequinReclaims;
+  return org ? reclaims.filter(r => r.org === org) : reclaims;
+}
+
+// ─── Migration wave plans ────────────────────────────────────────────────────
+
+/** Save a plan, replacing any existing plan with the same name */
+export function saveMigrationPlan(plan: MigrationPlan): void {
+  const state = loadState();
+  state.migrationPlans = state.migrationPlans.filter(p => p.name !== plan.name);
+  state.migrationPlans.push(plan);
+  saveState(state);
+}
+
+export function getMigrationPlan(name: string): MigrationPlan | undefined {
+  return loadState().migrationPlans.find(p => p.name === name);
+}
+
+export function getMigrationPlans(): MigrationPlan[] {
+  return loadState().migrationPlans;
+}
+
+export function updateMigrationWave(planName: string, waveName: string, update: Partial<MigrationWave>): void {
+  const state = loadState();
+  const wave = state.migrationPlans.find(p => p.name === planName)?.waves.find(w => w.name === waveName);
+  if (wave) {
+    Object.assign(wave, update);
+    saveState(state);
+  }
+}
+
+// ─── ADO pipeline rewires ────────────────────────────────────────────────────
+
+function sameDefinition(r: PipelineRewire, adoOrg: string, adoProject: string, definitionId: number): boolean {
+  return r.adoOrg === adoOrg && r.adoProject === adoProject && r.definitionId === definitionId;
+}
+
+/** Save a rewire, replacing any earlier record for the same definition */
+export function savePipelineRewire(rewire: PipelineRewire): void {
+  const state = loadState();
+  state.pipelineRewires = state.pipelineRewires.filter(
+    r => !sameDefinition(r, rewire.adoOrg, rewire.adoProject, rewire.definitionId)
+  );
+  state.pipelineRewires.push(rewire);
+  saveState(state);
+}
+
+export function getPipelineRewire(adoOrg: string, adoProject: string, definitionId: number): PipelineRewire | undefined {
+  return loadState().pipelineRewires.find(r => sameDefinition(r, adoOrg, adoProject, definitionId));
+}
+
+export function getPipelineRewires(adoOrg?: string, adoProject?: string): PipelineRewire[] {
+  return loadState().pipelineRewires.filter(
+    r => (!adoOrg || r.adoOrg === adoOrg) && (!adoProject || r.adoProject === adoProject)
+  );
+}
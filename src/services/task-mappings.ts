@@ -0,0 +1,206 @@
+/**
+ * Custom task mappings — user-supplied ADO task → GitHub Actions mappings for
+ * tasks the converter has no built-in mapping for (internal or marketplace
+ * extensions).  Mappings are declared in YAML or JSON, loaded for a session or
+ * passed per call, and take precedence over the built-in mappings.
+ *
+ *   mappings:
+ *     - task: contoso.deploy          # YAML task name, with or without publisher prefix
+ *       id: 6d15af64-176c-496d-b583-fd2ae21d4df4   # task GUID, for classic pipelines
+ *       version: 3                    # major version(s); omit to match any
+ *       uses: contoso/deploy-action@v3
+ *       with:
+ *         environment: "{{ inputs.environment }}"
+ *         slot: "{{ inputs.slot || 'production' }}"
+ *
+ * `{{ inputs.<name> }}` is replaced with the task input (names are
+ * case-insensitive), `{{ version }}` with the task's major version.
+ * GitHub expressions (`${{ }}`) are left alone.
+ */
+import YAML from "yaml";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface CustomTaskMapping {
+  /** Task name as used in YAML (`contoso.deploy`, `Deploy`) */
+  task?: string;
+  /** Task GUID as stored in classic definitions */
+  id?: string;
+  version?: number | number[];
+  uses?: string;
+  run?: string;
+  shell?: string;
+  "working-directory"?: string;
+  with?: Record<string, string>;
+  env?: Record<string, string>;
+  /** Reported whenever the mapping is used */
+  warnings?: string[];
+}
+
+export interface TaskReference {
+  name?: string;
+  id?: string;
+  version?: number;
+}
+
+/** A mapping with its placeholders filled in */
+export interface AppliedTaskMapping {
+  uses?: string;
+  run?: string;
+  shell?: string;
+  "working-directory"?: string;
+  with?: Record<string, string>;
+  env?: Record<string, string>;
+  warnings?: string[];
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** `{{ inputs.name }}`, `{{ inputs.name || 'fallback' }}` or `{{ version }}`, not preceded by `$` */
+const PLACEHOLDER = /(?<!\$)\{\{\s*(inputs\.[A-Za-z0-9_.-]+|version)\s*(?:\|\|\s*'((?:[^']|'')*)')?\s*\}\}/g;
+
+/** Session key used in stdio mode, where there is no sessionId */
+const DEFAULT_SESSION = "";
+
+/** Mappings loaded for each session */
+const sessionMappings = new Map<string, CustomTaskMapping[]>();
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+function stringRecord(value: unknown, label: string, key: string): Record<string, string> | undefined {
+  if (value === undefined) return undefined;
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${label}: '${key}' must be a mapping`);
+  }
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, String(v ?? "")]));
+}
+
+function validateMapping(entry: any, index: number): CustomTaskMapping {
+  const label = `Task mapping #${index + 1}`;
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    throw new Error(`${label} must be a mapping`);
+  }
+  if (!entry.task && !entry.id) {
+    throw new Error(`${label} needs 'task' (name) or 'id' (GUID)`);
+  }
+  if (!entry.uses && !entry.run) {
+    throw new Error(`${label} (${entry.task ?? entry.id}) needs 'uses' or 'run'`);
+  }
+
+  let version: number[] | undefined;
+  if (entry.version !== undefined) {
+    version = [entry.version].flat().map(Number);
+    if (version.some(v => !Number.isInteger(v))) {
+      throw new Error(`${label}: 'version' must be a major version number or a list of them`);
+    }
+  }
+
+  return {
+    ...(entry.task ? { task: String(entry.task) } : {}),
+    ...(entry.id ? { id: String(entry.id) } : {}),
+    ...(version ? { version } : {}),
+    ...(entry.uses ? { uses: String(entry.uses) } : {}),
+    ...(entry.run ? { run: String(entry.run) } : {}),
+    ...(entry.shell ? { shell: String(entry.shell) } : {}),
+    ...(entry["working-directory"] ? { "working-directory": String(entry["working-directory"]) } : {}),
+    ...(entry.with !== undefined ? { with: stringRecord(entry.with, label, "with") } : {}),
+    ...(entry.env !== undefined ? { env: stringRecord(entry.env, label, "env") } : {}),
+    ...(entry.warnings ? { warnings: [entry.warnings].flat().map(String) } : {}),
+  };
+}
+
+/**
+ * Parse a mapping file (YAML or JSON): either a list of mappings or an object
+ * with a `mappings` list. Throws on the first invalid entry.
+ */
+export function parseTaskMappings(content: string): CustomTaskMapping[] {
+  let parsed: any;
+  try {
+    // JSON is valid YAML
+    parsed = YAML.parse(content);
+  } catch (err: unknown) {
+    throw new Error(`Task mappings are not valid YAML or JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const list = Array.isArray(parsed) ? parsed : parsed?.mappings;
+  if (!Array.isArray(list)) {
+    throw new Error("Task mappings must be a list, or an object with a 'mappings' list");
+  }
+  return list.map(validateMapping);
+}
+
+// ─── Session registry ────────────────────────────────────────────────────────
+
+export function setSessionTaskMappings(sessionId: string | undefined, mappings: CustomTaskMapping[]): void {
+  sessionMappings.set(sessionId ?? DEFAULT_SESSION, mappings);
+}
+
+export function getSessionTaskMappings(sessionId?: string): CustomTaskMapping[] {
+  return sessionMappings.get(sessionId ?? DEFAULT_SESSION) ?? [];
+}
+
+export function clearSessionTaskMappings(sessionId?: string): void {
+  sessionMappings.delete(sessionId ?? DEFAULT_SESSION);
+}
+
+/** Mappings for one call: the per-call file first, then the session's */
+export function resolveTaskMappings(content: string | undefined, sessionId?: string): CustomTaskMapping[] {
+  return [...(content ? parseTaskMappings(content) : []), ...getSessionTaskMappings(sessionId)];
+}
+
+// ─── Lookup ──────────────────────────────────────────────────────────────────
+
+/** First mapping matching a task's name or GUID and major version */
+export function findTaskMapping(mappings: CustomTaskMapping[] | undefined, ref: TaskReference): CustomTaskMapping | undefined {
+  if (!mappings?.length) return undefined;
+
+  // "contoso.deploy@3" → "contoso.deploy"; an undotted mapping name matches any publisher
+  const fullName = ref.name?.replace(/@.*$/, "").toLowerCase();
+  const shortName = fullName?.split(".").pop();
+
+  return mappings.find(m => {
+    const mappedName = m.task?.toLowerCase();
+    const nameMatches = !!fullName && !!mappedName &&
+      (mappedName === fullName || (!mappedName.includes(".") && mappedName === shortName));
+    const idMatches = !!ref.id && !!m.id && m.id.toLowerCase() === ref.id.toLowerCase();
+    if (!nameMatches && !idMatches) return false;
+
+    const versions = m.version === undefined ? undefined : [m.version].flat();
+    return !versions || ref.version === undefined || versions.includes(ref.version);
+  });
+}
+
+/**
+ * Fill a mapping's placeholders from the task's inputs. `with` and `env`
+ * entries that end up empty are dropped, so optional inputs can be mapped.
+ */
+export function applyTaskMapping(
+  mapping: CustomTaskMapping,
+  inputs: Record<string, string>,
+  version?: number
+): AppliedTaskMapping {
+  const byName = new Map(Object.entries(inputs).map(([k, v]) => [k.toLowerCase(), v]));
+  const interpolate = (template: string): string =>
+    template.replace(PLACEHOLDER, (_match, ref: string, fallback?: string) => {
+      const value = ref === "version"
+        ? (version !== undefined ? String(version) : undefined)
+        : byName.get(ref.slice("inputs.".length).toLowerCase());
+      return value !== undefined && value !== "" ? value : (fallback?.replace(/''/g, "'") ?? "");
+    });
+  const record = (values?: Record<string, string>): Record<string, string> | undefined => {
+    if (!values) return undefined;
+    const filled = Object.entries(values).map(([k, v]) => [k, interpolate(v)] as const).filter(([, v]) => v !== "");
+    return filled.length > 0 ? Object.fromEntries(filled) : undefined;
+  };
+
+  const withBlock = record(mapping.with);
+  const env = record(mapping.env);
+  return {
+    ...(mapping.uses ? { uses: interpolate(mapping.uses) } : {}),
+    ...(mapping.run ? { run: interpolate(mapping.run) } : {}),
+    ...(mapping.shell ? { shell: mapping.shell } : {}),
+    ...(mapping["working-directory"] ? { "working-directory": interpolate(mapping["working-directory"]) } : {}),
+    ...(withBlock ? { with: withBlock } : {}),
+    ...(env ? { env } : {}),
+    ...(mapping.warnings ? { warnings: mapping.warnings } : {}),
+  };
+}
@@ -0,0 +1,868 @@
+/**
+ * ADO YAML template resolution.
+ *
+ * Expands a YAML pipeline the way Azure Pipelines does at compile time,
+ * before it is converted: `${{ parameters.x }}` and other template
+ * expressions are evaluated, `${{ if }}` / `${{ elseif }}` / `${{ else }}` /
+ * `${{ each }}` blocks are unrolled, and `template:` references at stage, job,
+ * step and variable level (plus `extends:`) are replaced by the referenced
+ * file's content — including files in other repositories declared under
+ * `resources.repositories` and referenced as `path@alias`. An `${{ if }}` on
+ * a value only known at run time keeps every branch, each behind the runtime
+ * `condition:` under which it applies.
+ *
+ * In "shared" mode, step, job and stage templates that only substitute
+ * scalar parameters are kept as references and returned separately, so the
+ * converter can turn them into composite actions and reusable workflows
+ * instead of copying them into every pipeline.
+ *
+ * File access goes through a fetcher callback so this module has no
+ * dependency on the ADO client.
+ */
+import YAML from "yaml";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A `resources.repositories` entry */
+export interface TemplateRepository {
+  repository: string;
+  type: string;
+  /** "project/repo" or "repo" for Azure Repos, "owner/repo" for GitHub */
+  name: string;
+  ref?: string;
+}
+
+/** Reads a file from the pipeline's own repo (`repo` undefined) or a resource repo */
+export type TemplateFileFetcher = (repo: TemplateRepository | undefined, path: string) => Promise<string>;
+
+/** "inline" copies every template into the pipeline; "shared" keeps shareable ones as references */
+export type TemplateMode = "inline" | "shared";
+
+export interface TemplateParameter {
+  name: string;
+  type: "string" | "boolean" | "number";
+  default?: string | boolean | number;
+  required: boolean;
+}
+
+/** A template kept as a reference in "shared" mode */
+export interface SharedTemplate {
+  /** `path` or `path@alias`; references in the pipeline use this as their `template:` value */
+  ref: string;
+  /** File-system friendly name, unique within the resolution */
+  name: string;
+  kind: "steps" | "jobs" | "stages";
+  parameters: TemplateParameter[];
+  /** Template content without `parameters:`; `${{ parameters.x }}` is left in place */
+  body: Record<string, any>;
+}
+
+export interface TemplateResolution {
+  pipeline: Record<string, any>;
+  /** Template files that were used, as `path` or `path@alias` */
+  templates: string[];
+  /** Shared templates, nested ones before the templates that use them */
+  shared: SharedTemplate[];
+  warnings: string[];
+}
+
+/** Where a file lives, for resolving relative template paths */
+interface FileLocation {
+  repo?: TemplateRepository;
+  path: string;
+}
+
+interface Scope {
+  parameters: Record<string, any>;
+  variables: Record<string, any>;
+  /** Loop variables bound by `${{ each }}` */
+  locals: Record<string, any>;
+}
+
+interface ResolveContext {
+  fetchFile: TemplateFileFetcher;
+  mode: TemplateMode;
+  shared: Map<string, SharedTemplate>;
+  repositories: Map<string, TemplateRepository>;
+  templates: Set<string>;
+  warnings: string[];
+  cache: Map<string, Promise<any>>;
+  /** References already reported as unresolvable, so they aren't retried from inside a template */
+  failed: Set<string>;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Azure Pipelines stops at 100 files / 20 levels of nesting; stop at the nesting limit */
+const MAX_DEPTH = 20;
+/** List keys whose items can be `- template:` references */
+const TEMPLATE_LISTS = new Set(["stages", "jobs", "steps", "variables"]);
+
+const DIRECTIVE = /^\$\{\{\s*(if|elseif|else|each|insert)\b(.*?)\}\}$/s;
+const EXPRESSION = /\$\{\{(.*?)\}\}/gs;
+const PARAMETER_REF = /^\s*parameters\.[A-Za-z_][A-Za-z0-9_-]*\s*$/;
+/** Parameter types that can't become action or workflow inputs */
+const STRUCTURED_TYPES = new Set(["object", "step", "steplist", "job", "joblist", "deployment", "deploymentlist", "stage", "stagelist"]);
+
+class UnresolvedExpression extends Error {}
+
+/** A value only known at run time, kept as the ADO runtime expression that computes it */
+class RuntimeValue {
+  constructor(readonly expr: string) {}
+}
+
+// ─── Expression evaluation ───────────────────────────────────────────────────
+
+type Token = { kind: "str" | "num" | "ident" | "punct"; value: string };
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expr.length) {
+    const ch = expr[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "'") {
+      let value = "";
+      i++;
+      while (i < expr.length) {
+        if (expr[i] === "'" && expr[i + 1] === "'") {
+          value += "'";
+          i += 2;
+        } else if (expr[i] === "'") {
+          break;
+        } else {
+          value += expr[i++];
+        }
+      }
+      if (i >= expr.length) throw new Error(`Unterminated string in '${expr}'`);
+      i++;
+      tokens.push({ kind: "str", value });
+    } else if (/[0-9]/.test(ch) || (ch === "-" && /[0-9]/.test(expr[i + 1] ?? ""))) {
+      const m = expr.slice(i).match(/^-?[0-9]+(\.[0-9]+)?/)!;
+      tokens.push({ kind: "num", value: m[0] });
+      i += m[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const m = expr.slice(i).match(/^[A-Za-z_][A-Za-z0-9_-]*/)!;
+      tokens.push({ kind: "ident", value: m[0] });
+      i += m[0].length;
+    } else if ("(),.[]".includes(ch)) {
+      tokens.push({ kind: "punct", value: ch });
+      i++;
+    } else {
+      throw new Error(`Unexpected '${ch}' in '${expr}'`);
+    }
+  }
+  return tokens;
+}
+
+function isTruthy(value: any): boolean {
+  return !(value === false || value === 0 || value === "" || value === null || value === undefined);
+}
+
+/** ADO comparisons are case-insensitive and coerce the right side to the left side's type */
+function looseEquals(a: any, b: any): boolean {
+  if (typeof a === "string" && typeof b === "string") return a.toLowerCase() === b.toLowerCase();
+  if (typeof a === "number") return a === Number(b);
+  if (typeof a === "boolean") return a === (typeof b === "string" ? b.toLowerCase() === "true" : isTruthy(b));
+  if (typeof a === "string" && (typeof b === "number" || typeof b === "boolean")) {
+    return a.toLowerCase() === String(b).toLowerCase();
+  }
+  return a === b;
+}
+
+function compare(a: any, b: any): number {
+  if (typeof a === "number") return a - Number(b);
+  return String(a).toLowerCase().localeCompare(String(b).toLowerCase());
+}
+
+function stringify(value: any): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  and: (...args) => args.every(isTruthy),
+  or: (...args) => args.some(isTruthy),
+  not: (a) => !isTruthy(a),
+  xor: (a, b) => isTruthy(a) !== isTruthy(b),
+  eq: (a, b) => looseEquals(a, b),
+  ne: (a, b) => !looseEquals(a, b),
+  gt: (a, b) => compare(a, b) > 0,
+  ge: (a, b) => compare(a, b) >= 0,
+  lt: (a, b) => compare(a, b) < 0,
+  le: (a, b) => compare(a, b) <= 0,
+  in: (a, ...rest) => rest.some(r => looseEquals(a, r)),
+  notin: (a, ...rest) => !rest.some(r => looseEquals(a, r)),
+  contains: (a, b) => stringify(a).toLowerCase().includes(stringify(b).toLowerCase()),
+  containsvalue: (a, b) => (Array.isArray(a) ? a : Object.values(a ?? {})).some(v => looseEquals(v, b)),
+  startswith: (a, b) => stringify(a).toLowerCase().startsWith(stringify(b).toLowerCase()),
+  endswith: (a, b) => stringify(a).toLowerCase().endsWith(stringify(b).toLowerCase()),
+  coalesce: (...args) => args.find(a => a !== null && a !== undefined && a !== ""),
+  iif: (c, a, b) => (isTruthy(c) ? a : b),
+  format: (fmt, ...args) => stringify(fmt).replace(/\{(\d+)\}/g, (_, n) => stringify(args[Number(n)])),
+  join: (sep, arr) => (Array.isArray(arr) ? arr.map(stringify).join(stringify(sep)) : stringify(arr)),
+  lower: (a) => stringify(a).toLowerCase(),
+  upper: (a) => stringify(a).toUpperCase(),
+  replace: (a, from, to) => stringify(a).split(stringify(from)).join(stringify(to)),
+  split: (a, sep) => stringify(a).split(stringify(sep)),
+  length: (a) => (Array.isArray(a) || typeof a === "string" ? a.length : Object.keys(a ?? {}).length),
+  converttojson: (a) => JSON.stringify(a, null, 2),
+};
+
+/** A compile-time value written as a runtime expression literal */
+function runtimeLiteral(value: any): string {
+  if (value instanceof RuntimeValue) return value.expr;
+  if (typeof value === "string") return `'${value.replace(/'/g, "''")}'`;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  throw new UnresolvedExpression(`${stringify(value) || "null"} can't be used in a runtime condition`);
+}
+
+/** A call with runtime arguments; and/or drop the compile-time arguments that don't decide them */
+function runtimeCall(name: string, args: any[]): any {
+  const lower = name.toLowerCase();
+  if (lower === "and" || lower === "or") {
+    const runtime: RuntimeValue[] = [];
+    for (const arg of args) {
+      if (arg instanceof RuntimeValue) runtime.push(arg);
+      else if (isTruthy(arg) === (lower === "or")) return lower === "or";
+    }
+    if (runtime.length === 1) return runtime[0];
+    return new RuntimeValue(`${name}(${runtime.map(a => a.expr).join(", ")})`);
+  }
+  return new RuntimeValue(`${name}(${args.map(runtimeLiteral).join(", ")})`);
+}
+
+/**
+ * Recursive-descent evaluator for compile-time template expressions. With
+ * `partial`, variables only known at run time don't fail the evaluation: they
+ * and everything computed from them come back as a RuntimeValue.
+ */
+function evaluate(expr: string, scope: Scope, partial = false): any {
+  const tokens = tokenize(expr);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const expect = (value: string) => {
+    if (tokens[pos]?.value !== value) throw new Error(`Expected '${value}' in '${expr}'`);
+    pos++;
+  };
+
+  const parsePrimary = (): any => {
+    const token = tokens[pos++];
+    if (!token) throw new Error(`Unexpected end of '${expr}'`);
+    if (token.kind === "str") return token.value;
+    if (token.kind === "num") return Number(token.value);
+    if (token.kind === "punct" && token.value === "(") {
+      const value = parseExpr();
+      expect(")");
+      return value;
+    }
+    if (token.kind !== "ident") throw new Error(`Unexpected '${token.value}' in '${expr}'`);
+
+    const name = token.value;
+    const lower = name.toLowerCase();
+    if (lower === "true") return true;
+    if (lower === "false") return false;
+    if (lower === "null") return null;
+
+    if (peek()?.value === "(") {
+      pos++;
+      const args: any[] = [];
+      if (peek()?.value !== ")") {
+        args.push(parseExpr());
+        while (peek()?.value === ",") {
+          pos++;
+          args.push(parseExpr());
+        }
+      }
+      expect(")");
+      const fn = FUNCTIONS[lower];
+      if (!fn) throw new UnresolvedExpression(`Unsupported function ${name}()`);
+      return args.some(a => a instanceof RuntimeValue) ? runtimeCall(name, args) : fn(...args);
+    }
+
+    let value: any;
+    if (name in scope.locals) value = scope.locals[name];
+    else if (lower === "parameters") value = scope.parameters;
+    else if (lower === "variables") value = scope.variables;
+    else throw new UnresolvedExpression(`'${name}' is not available at compile time`);
+
+    // Property access: a.b, a['b'], a[0]
+    while (peek()?.value === "." || peek()?.value === "[") {
+      let key: any;
+      if (tokens[pos++].value === ".") {
+        const prop = tokens[pos++];
+        if (!prop || prop.kind !== "ident") throw new Error(`Expected a property name in '${expr}'`);
+        key = prop.value;
+      } else {
+        key = parseExpr();
+        expect("]");
+      }
+      if (value instanceof RuntimeValue) {
+        value = new RuntimeValue(`${value.expr}[${runtimeLiteral(key)}]`);
+      } else if (value === scope.variables && !(key in value)) {
+        if (!partial) throw new UnresolvedExpression(`Variable '${key}' is only known at runtime`);
+        value = new RuntimeValue(`variables[${runtimeLiteral(key)}]`);
+      } else {
+        value = value?.[key];
+      }
+    }
+    return value;
+  };
+
+  const parseExpr = (): any => parsePrimary();
+
+  const result = parseExpr();
+  if (pos < tokens.length) throw new Error(`Unexpected '${tokens[pos].value}' in '${expr}'`);
+  return result;
+}
+
+// ─── Template expression expansion ───────────────────────────────────────────
+
+/** Evaluate `${{ }}` inside a scalar; a string that is exactly one expression takes the value's type */
+function expandScalar(value: string, scope: Scope, warnings: string[]): any {
+  if (!value.includes("${{")) return value;
+
+  const whole = value.match(/^\$\{\{(.*)\}\}$/s);
+  if (whole && !whole[1].includes("}}")) {
+    try {
+      return evaluate(whole[1], scope);
+    } catch (err: unknown) {
+      warnings.push(`Left template expression '${value}' as is: ${err instanceof Error ? err.message : String(err)}`);
+      return value;
+    }
+  }
+
+  return value.replace(EXPRESSION, (match, expr) => {
+    try {
+      return stringify(evaluate(expr, scope));
+    } catch (err: unknown) {
+      warnings.push(`Left template expression '${match}' as is: ${err instanceof Error ? err.message : String(err)}`);
+      return match;
+    }
+  });
+}
+
+/** Evaluate a directive condition: its truth value, or the runtime condition it depends on */
+function condition(expr: string, scope: Scope): boolean | string {
+  const value = evaluate(expr, scope, true);
+  return value instanceof RuntimeValue ? value.expr : isTruthy(value);
+}
+
+/** ADO's implicit condition is succeeded(); an explicit one replaces it, so keep it */
+function addCondition(item: Record<string, any>, runtime: string): Record<string, any> {
+  return { ...item, condition: `and(${item.condition ?? "succeeded()"}, ${runtime})` };
+}
+
+/** Keys that make a list item a stage, job or step, which can carry a `condition:` */
+const CONDITIONAL_ITEM_KEYS = [
+  "stage", "job", "deployment",
+  "script", "bash", "pwsh", "powershell", "task", "checkout", "download", "downloadBuild", "getPackage", "publish", "reviewApp",
+];
+
+/** Guard expanded list items with a runtime condition; null if an item can't take one */
+function guardItems(expanded: any, runtime: string): any[] | null {
+  const items = Array.isArray(expanded) ? expanded : [expanded];
+  const conditional = (item: any) => item && typeof item === "object" && !Array.isArray(item)
+    && !("template" in item) && CONDITIONAL_ITEM_KEYS.some(k => k in item);
+  return items.every(conditional) ? items.map(item => addCondition(item, runtime)) : null;
+}
+
+type Branch = { kind: string; expr: string; value: any };
+
+/**
+ * Expand an if/elseif/else chain. When a condition depends on runtime values
+ * no branch can be chosen at compile time, so every branch that may apply is
+ * kept with a runtime `condition:`. If a branch's content can't carry one
+ * (a mapping, variables, a template reference) the whole chain is dropped.
+ */
+function expandChain(chain: Branch[], scope: Scope, warnings: string[], canGuard: boolean): any[] {
+  const label = `\${{ if ${chain[0].expr.trim()} }}`;
+  const outputs: any[] = [];
+  // Runtime conditions of earlier branches, all false when this branch applies
+  const earlier: string[] = [];
+
+  for (const branch of chain) {
+    let test: boolean | string = true;
+    if (branch.kind !== "else") {
+      try {
+        test = condition(branch.expr, scope);
+      } catch (err: unknown) {
+        warnings.push(`Dropped ${label} chain: ${err instanceof Error ? err.message : String(err)}`);
+        return [];
+      }
+    }
+    if (test === false) continue;
+
+    const expanded = expandExpressions(branch.value, scope, warnings);
+    if (test === true && earlier.length === 0) {
+      outputs.push(expanded);
+      break;
+    }
+    const parts = [...earlier.map(c => `not(${c})`), ...(test === true ? [] : [test])];
+    const runtime = parts.length === 1 ? parts[0] : `and(${parts.join(", ")})`;
+    const guarded = canGuard ? guardItems(expanded, runtime) : null;
+    if (!guarded) {
+      warnings.push(
+        `Dropped ${label} chain: it depends on runtime value(s) (${runtime}) and its content can't take a runtime condition — convert it manually.`
+      );
+      return [];
+    }
+    outputs.push(guarded);
+    if (test === true) break;
+    earlier.push(test);
+  }
+  return outputs;
+}
+
+/** Items to iterate for `${{ each x in collection }}` */
+function eachItems(spec: string, scope: Scope, warnings: string[]): { name: string; items: any[] } | null {
+  const m = spec.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s+in\s+(.+)$/s);
+  if (!m) {
+    warnings.push(`Could not parse \${{ each${spec} }}`);
+    return null;
+  }
+  try {
+    const collection = evaluate(m[2], scope);
+    const items = Array.isArray(collection)
+      ? collection
+      : Object.entries(collection ?? {}).map(([key, value]) => ({ key, value }));
+    return { name: m[1], items };
+  } catch (err: unknown) {
+    warnings.push(`Dropped \${{ each${spec} }} block: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  }
+}
+
+/**
+ * Expand the directives of one mapping or sequence level. `emit` receives the
+ * expanded value of each block that applies; `canGuard` says whether blocks
+ * are list items, which can be kept behind a runtime condition.
+ */
+function expandDirectives(
+  entries: [string, any][],
+  scope: Scope,
+  warnings: string[],
+  canGuard: boolean,
+  emit: (expanded: any) => void,
+  other: (key: string, value: any) => void
+): void {
+  // The current if/elseif/else chain, expanded once it ends
+  let chain: Branch[] = [];
+  const endChain = () => {
+    if (chain.length > 0) expandChain(chain, scope, warnings, canGuard).forEach(emit);
+    chain = [];
+  };
+
+  for (const [key, value] of entries) {
+    const m = key.match(DIRECTIVE);
+    if (!m) {
+      endChain();
+      other(key, value);
+      continue;
+    }
+
+    const [, kind, rest] = m;
+    if (kind === "if") {
+      endChain();
+      chain.push({ kind, expr: rest, value });
+    } else if (kind === "elseif" || kind === "else") {
+      if (chain.length === 0) {
+        warnings.push(`\${{ ${kind} }} without a preceding \${{ if }} was ignored`);
+        continue;
+      }
+      chain.push({ kind, expr: rest, value });
+      if (kind === "else") endChain();
+    } else if (kind === "each") {
+      endChain();
+      const each = eachItems(rest, scope, warnings);
+      for (const item of each?.items ?? []) {
+        emit(expandExpressions(value, { ...scope, locals: { ...scope.locals, [each!.name]: item } }, warnings));
+      }
+    } else {
+      // ${{ insert }} merges its mapping into the parent
+      endChain();
+      emit(expandExpressions(value, scope, warnings));
+    }
+  }
+  endChain();
+}
+
+/** Expand every template expression and directive in a parsed YAML node */
+function expandExpressions(node: any, scope: Scope, warnings: string[]): any {
+  if (typeof node === "string") return expandScalar(node, scope, warnings);
+
+  if (Array.isArray(node)) {
+    const out: any[] = [];
+    const isDirective = (item: any) => item && typeof item === "object" && !Array.isArray(item)
+      && Object.keys(item).length > 0 && Object.keys(item).every(k => DIRECTIVE.test(k));
+
+    for (let i = 0; i < node.length; i++) {
+      if (!isDirective(node[i])) {
+        out.push(expandExpressions(node[i], scope, warnings));
+        continue;
+      }
+      // Consecutive directive items form one if/elseif/else chain
+      const entries: [string, any][] = [];
+      for (; i < node.length && isDirective(node[i]); i++) entries.push(...Object.entries<any>(node[i]));
+      i--;
+      // `- ${{ if ... }}:` followed by a list splices the list; a mapping is one item
+      expandDirectives(entries, scope, warnings, true, expanded => {
+        if (Array.isArray(expanded)) out.push(...expanded);
+        else if (expanded !== null && expanded !== undefined) out.push(expanded);
+      }, () => {});
+    }
+    return out;
+  }
+
+  if (node && typeof node === "object") {
+    const out: Record<string, any> = {};
+    expandDirectives(Object.entries(node), scope, warnings, false, expanded => {
+      if (expanded && typeof expanded === "object" && !Array.isArray(expanded)) Object.assign(out, expanded);
+      else warnings.push("Template directive inside a mapping did not produce a mapping and was ignored");
+    }, (key, value) => {
+      const expandedKey = expandScalar(key, scope, warnings);
+      out[stringify(expandedKey)] = expandExpressions(value, scope, warnings);
+    });
+    return out;
+  }
+
+  return node;
+}
+
+// ─── Template files ──────────────────────────────────────────────────────────
+
+/** Declared parameters with their defaults — list form or the legacy mapping form */
+function parameterDefaults(declared: any): { defaults: Record<string, any>; required: string[] } {
+  const defaults: Record<string, any> = {};
+  const required: string[] = [];
+  if (Array.isArray(declared)) {
+    for (const p of declared) {
+      if (!p?.name) continue;
+      if ("default" in p) defaults[p.name] = p.default;
+      else required.push(p.name);
+    }
+  } else if (declared && typeof declared === "object") {
+    Object.assign(defaults, declared);
+  }
+  return { defaults, required };
+}
+
+/** Statically known variables (name/value pairs), for `${{ variables.x }}` */
+function staticVariables(vars: any): Record<string, any> {
+  const out: Record<string, any> = {};
+  if (Array.isArray(vars)) {
+    for (const v of vars) if (v?.name !== undefined && v.value !== undefined) out[v.name] = v.value;
+  } else if (vars && typeof vars === "object") {
+    Object.assign(out, vars);
+  }
+  return out;
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") parts.pop();
+    else parts.push(part);
+  }
+  return "/" + parts.join("/");
+}
+
+/** Resolve `path[@alias]` against the file that references it */
+function locate(ref: string, from: FileLocation, ctx: ResolveContext): FileLocation {
+  const at = ref.lastIndexOf("@");
+  const alias = at > 0 ? ref.slice(at + 1) : undefined;
+  const path = at > 0 ? ref.slice(0, at) : ref;
+
+  let repo = from.repo;
+  let base = from.path;
+  if (alias) {
+    if (alias === "self") {
+      repo = undefined;
+    } else {
+      repo = ctx.repositories.get(alias);
+      if (!repo) throw new Error(`Repository resource '${alias}' is not declared in resources.repositories`);
+    }
+    // Paths into another repo start at its root
+    if (repo !== from.repo) base = "/";
+  }
+
+  const dir = base.endsWith("/") ? base : base.slice(0, base.lastIndexOf("/") + 1);
+  return { repo, path: normalizePath(path.startsWith("/") ? path : dir + path) };
+}
+
+function locationLabel(location: FileLocation): string {
+  return location.repo ? `${location.path}@${location.repo.repository}` : location.path;
+}
+
+async function loadTemplate(location: FileLocation, ctx: ResolveContext): Promise<any> {
+  const key = locationLabel(location);
+  if (!ctx.cache.has(key)) {
+    ctx.cache.set(key, ctx.fetchFile(location.repo, location.path).then(content => YAML.parse(content)));
+  }
+  return ctx.cache.get(key)!;
+}
+
+/**
+ * Load a template, bind its parameters and fully resolve its own templates.
+ */
+async function instantiateTemplate(
+  ref: string,
+  args: any,
+  from: FileLocation,
+  scope: Scope,
+  depth: number,
+  ctx: ResolveContext
+): Promise<{ body: Record<string, any>; location: FileLocation }> {
+  if (depth >= MAX_DEPTH) {
+    throw new Error(`Template nesting deeper than ${MAX_DEPTH} levels`);
+  }
+  const location = locate(ref, from, ctx);
+  const template = await loadTemplate(location, ctx);
+  if (!template || typeof template !== "object") {
+    throw new Error(`Template ${locationLabel(location)} is empty`);
+  }
+  ctx.templates.add(locationLabel(location));
+
+  const { defaults, required } = parameterDefaults(template.parameters);
+  const parameters = { ...defaults, ...(args && typeof args === "object" ? args : {}) };
+  const missing = required.filter(name => !(name in parameters));
+  if (missing.length > 0) {
+    ctx.warnings.push(`Template ${locationLabel(location)} is missing required parameter(s): ${missing.join(", ")}`);
+  }
+
+  const { parameters: _declared, ...rest } = template;
+  const expanded = expandExpressions(rest, { ...scope, parameters, locals: {} }, ctx.warnings);
+  const body = await resolveReferences(expanded, location, { ...scope, parameters, locals: {} }, depth + 1, ctx);
+  return { body, location };
+}
+
+// ─── Shared templates ────────────────────────────────────────────────────────
+
+/** Why a template body can't be shared as is, or null */
+function bodyBlocker(node: any): string | null {
+  if (typeof node === "string") {
+    for (const [, expr] of node.matchAll(EXPRESSION)) {
+      if (!PARAMETER_REF.test(expr)) return `uses template expression '\${{${expr}}}'`;
+    }
+    return null;
+  }
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const blocker = bodyBlocker(item);
+      if (blocker) return blocker;
+    }
+    return null;
+  }
+  if (node && typeof node === "object") {
+    for (const [key, value] of Object.entries(node)) {
+      if (DIRECTIVE.test(key)) return "uses compile-time ${{ if }} / ${{ each }} blocks";
+      const blocker = bodyBlocker(key) ?? bodyBlocker(value);
+      if (blocker) return blocker;
+    }
+  }
+  return null;
+}
+
+/** Why a template can't become a composite action or reusable workflow, or null */
+function shareBlocker(template: Record<string, any>): string | null {
+  const { parameters: declared, ...body } = template;
+  if (Array.isArray(declared)) {
+    const structured = declared.find(p => STRUCTURED_TYPES.has(String(p?.type ?? "").toLowerCase()));
+    if (structured) return `takes ${structured.type} parameter '${structured.name}'`;
+  } else if (declared && typeof declared === "object") {
+    const structured = Object.entries(declared).find(([, value]) => value && typeof value === "object");
+    if (structured) return `takes structured parameter '${structured[0]}'`;
+  }
+  return bodyBlocker(body);
+}
+
+function inputType(type: unknown, defaultValue: unknown): TemplateParameter["type"] {
+  const name = typeof type === "string" ? type.toLowerCase() : typeof defaultValue;
+  return name === "boolean" || name === "number" ? name : "string";
+}
+
+function declaredParameters(declared: any): TemplateParameter[] {
+  if (Array.isArray(declared)) {
+    return declared.filter(p => p?.name).map(p => ({
+      name: String(p.name),
+      type: inputType(p.type, p.default),
+      ...("default" in p && p.default !== null ? { default: p.default } : {}),
+      required: !("default" in p),
+    }));
+  }
+  return Object.entries(declared ?? {}).map(([name, value]) => ({
+    name,
+    type: inputType(undefined, value),
+    ...(value !== null && value !== undefined ? { default: value as string | boolean | number } : {}),
+    required: false,
+  }));
+}
+
+function sharedName(location: FileLocation, ctx: ResolveContext): string {
+  const base = location.path.split("/").pop()!.replace(/\.ya?ml$/i, "")
+    .toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "template";
+  const taken = new Set([...ctx.shared.values()].map(t => t.name));
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}-${n}`;
+  return name;
+}
+
+/**
+ * Keep a template reference instead of inlining it. Returns the reference
+ * item, or null when the template has to be inlined.
+ */
+async function shareTemplate(
+  item: Record<string, any>,
+  kind: SharedTemplate["kind"],
+  from: FileLocation,
+  scope: Scope,
+  depth: number,
+  ctx: ResolveContext
+): Promise<Record<string, any> | null> {
+  if (depth >= MAX_DEPTH) {
+    throw new Error(`Template nesting deeper than ${MAX_DEPTH} levels`);
+  }
+  const location = locate(item.template, from, ctx);
+  const ref = locationLabel(location);
+
+  if (!ctx.shared.has(ref)) {
+    const template = await loadTemplate(location, ctx);
+    if (!template || typeof template !== "object") {
+      throw new Error(`Template ${ref} is empty`);
+    }
+    if (!Array.isArray(template[kind])) {
+      throw new Error(`Template ${ref} has no '${kind}' list`);
+    }
+    const blocker = shareBlocker(template);
+    if (blocker) {
+      ctx.warnings.push(`Template ${ref} was inlined because it ${blocker}`);
+      return null;
+    }
+    ctx.templates.add(ref);
+
+    // Nested references resolve against this file; its own parameters stay as expressions
+    const { parameters: declared, ...rest } = template;
+    const body = await resolveReferences(rest, location, { ...scope, parameters: {}, locals: {} }, depth + 1, ctx);
+    if (!ctx.shared.has(ref)) {
+      ctx.shared.set(ref, { ref, name: sharedName(location, ctx), kind, parameters: declaredParameters(declared), body });
+    }
+  }
+
+  return { template: ref, ...(item.parameters ? { parameters: item.parameters } : {}) };
+}
+
+// ─── Reference resolution ────────────────────────────────────────────────────
+
+/** Replace `- template:` items in stage/job/step/variable lists, recursively */
+async function resolveReferences(node: any, from: FileLocation, scope: Scope, depth: number, ctx: ResolveContext): Promise<any> {
+  if (Array.isArray(node)) {
+    return Promise.all(node.map(item => resolveReferences(item, from, scope, depth, ctx)));
+  }
+  if (!node || typeof node !== "object") return node;
+
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (!TEMPLATE_LISTS.has(key) || !Array.isArray(value)) {
+      out[key] = await resolveReferences(value, from, scope, depth, ctx);
+      continue;
+    }
+
+    const items: any[] = [];
+    for (const item of value) {
+      if (!item || typeof item !== "object" || typeof item.template !== "string" || ctx.failed.has(item.template)) {
+        items.push(await resolveReferences(item, from, scope, depth, ctx));
+        continue;
+      }
+      try {
+        if (ctx.mode === "shared" && key !== "variables") {
+          const reference = await shareTemplate(item, key as SharedTemplate["kind"], from, scope, depth, ctx);
+          if (reference) {
+            items.push(reference);
+            continue;
+          }
+        }
+        const { body } = await instantiateTemplate(item.template, item.parameters, from, scope, depth, ctx);
+        const inserted = body[key];
+        if (!Array.isArray(inserted)) {
+          throw new Error(`Template ${item.template} has no '${key}' list`);
+        }
+        items.push(...inserted);
+      } catch (err: unknown) {
+        ctx.warnings.push(`Could not expand template '${item.template}': ${err instanceof Error ? err.message : String(err)}`);
+        ctx.failed.add(item.template);
+        items.push(item);
+      }
+    }
+    out[key] = items;
+  }
+  return out;
+}
+
+/** Variables may be a mapping or a list; combine two blocks as a list */
+function mergeVariables(a: any, b: any): any {
+  if (!a) return b;
+  if (!b) return a;
+  const asList = (v: any) => Array.isArray(v) ? v : Object.entries(v).map(([name, value]) => ({ name, value }));
+  return [...asList(a), ...asList(b)];
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Expand all templates and compile-time expressions in a YAML pipeline.
+ * `pipelinePath` is the pipeline file's path in its repo, used to resolve
+ * relative template paths. Runtime parameters take their defaults.
+ */
+export async function resolvePipelineTemplates(
+  yamlContent: string,
+  pipelinePath: string,
+  fetchFile: TemplateFileFetcher,
+  mode: TemplateMode = "inline"
+): Promise<TemplateResolution> {
+  const root = YAML.parse(yamlContent);
+  if (!root || typeof root !== "object") {
+    return { pipeline: root ?? {}, templates: [], shared: [], warnings: [] };
+  }
+
+  const ctx: ResolveContext = {
+    fetchFile,
+    mode,
+    shared: new Map(),
+    repositories: new Map(),
+    templates: new Set(),
+    warnings: [],
+    cache: new Map(),
+    failed: new Set(),
+  };
+  for (const repo of root.resources?.repositories ?? []) {
+    if (repo?.repository) ctx.repositories.set(repo.repository, repo);
+  }
+
+  const { defaults } = parameterDefaults(root.parameters);
+  const scope: Scope = { parameters: defaults, variables: staticVariables(root.variables), locals: {} };
+  const location: FileLocation = { path: normalizePath(pipelinePath) };
+
+  const { parameters: _runtime, ...rest } = root;
+  let pipeline = await resolveReferences(expandExpressions(rest, scope, ctx.warnings), location, scope, 0, ctx);
+
+  if (pipeline.extends?.template) {
+    try {
+      const { body } = await instantiateTemplate(pipeline.extends.template, pipeline.extends.parameters, location, scope, 0, ctx);
+      const { extends: _extends, ...own } = pipeline;
+      pipeline = { ...own, ...body, variables: mergeVariables(own.variables, body.variables) };
+      if (!pipeline.variables) delete pipeline.variables;
+    } catch (err: unknown) {
+      ctx.warnings.push(`Could not expand extends template '${pipeline.extends.template}': ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return {
+    pipeline,
+    templates: [...ctx.templates],
+    shared: [...ctx.shared.values()],
+    warnings: [...new Set(ctx.warnings)],
+  };
+}
@@ -0,0 +1,315 @@
+/**
+ * Pipeline variable migration — ADO variable groups and pipeline variables
+ * → GitHub Actions variables and secrets at organization, repository or
+ * environment scope.  Names are normalized the way the pipeline converter
+ * names secrets, so `secrets.X` references in converted workflows resolve.
+ * Non-secret variables are not: the converter reads them from `env`, so a
+ * workflow needs e.g. `env: { name: ${{ vars.NAME }} }` to use them.
+ * ADO never returns secret values, so the caller supplies them (the tool
+ * asks the user); secrets without a value are created as placeholders.
+ */
+import YAML from "yaml";
+import sodium from "libsodium-wrappers";
+import * as adoPipelines from "./ado-pipelines.js";
+import { toGitHubSecretName } from "./pipeline-converter.js";
+import { getGitHubTargetPAT } from "./session.js";
+import { resolveTargetHost, targetApiUrl } from "./github-api.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type VariableScope = "org" | "repo" | "environment";
+
+export interface VariableTarget {
+  scope: VariableScope;
+  targetOrg: string;
+  /** Required for repo and environment scope */
+  targetRepo?: string;
+  /** Required for environment scope; created if it doesn't exist */
+  environment?: string;
+  /** Which org repos can read org-scoped variables and secrets */
+  visibility?: "all" | "private";
+  targetHost?: string;
+}
+
+export interface SourceVariable {
+  /** Variable name in ADO */
+  name: string;
+  /** Name it is created under in GitHub */
+  githubName: string;
+  /** Null for secrets */
+  value: string | null;
+  isSecret: boolean;
+  /** "group:<name>" or "pipeline:<name>" */
+  source: string;
+}
+
+export interface VariableMigrationItem {
+  name: string;
+  source: string;
+  status: "created" | "updated" | "placeholder" | "skipped" | "failed";
+  message?: string;
+}
+
+export interface VariableMigrationResult {
+  target: string;
+  variables: VariableMigrationItem[];
+  secrets: VariableMigrationItem[];
+  warnings: string[];
+}
+
+/** Supplies values for secrets; return only the ones the user provided */
+export type SecretValueProvider = (secrets: SourceVariable[]) => Promise<Record<string, string>>;
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Value stored for secrets whose real value wasn't supplied */
+export const PLACEHOLDER_SECRET_VALUE = "PLACEHOLDER-set-after-migration";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Call the GitHub REST API, returning null on 404 */
+async function ghRequest(method: "GET" | "POST" | "PUT" | "PATCH", url: string, token: string, body?: object): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: "application/vnd.github+json",
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    ...(body ? { body: JSON.stringify(body) } : {}),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`GitHub REST API error: ${response.status} ${text}`);
+  }
+  const text = await response.text();
+  return text ? JSON.parse(text) : {};
+}
+
+/** REST path prefix holding `variables` and `secrets` for a target scope */
+function scopeUrl(target: VariableTarget, sessionId?: string): string {
+  const apiUrl = targetApiUrl(resolveTargetHost(target.targetHost, sessionId));
+  if (target.scope === "org") return `${apiUrl}/orgs/${target.targetOrg}/actions`;
+
+  if (!target.targetRepo) {
+    throw new Error(`targetRepo is required for ${target.scope} scope`);
+  }
+  const repoUrl = `${apiUrl}/repos/${target.targetOrg}/${target.targetRepo}`;
+  if (target.scope === "repo") return `${repoUrl}/actions`;
+
+  if (!target.environment) {
+    throw new Error("environment is required for environment scope");
+  }
+  return `${repoUrl}/environments/${encodeURIComponent(target.environment)}`;
+}
+
+function describeTarget(target: VariableTarget): string {
+  if (target.scope === "org") return `org ${target.targetOrg}`;
+  const repo = `${target.targetOrg}/${target.targetRepo}`;
+  return target.scope === "repo" ? `repo ${repo}` : `environment ${target.environment} in ${repo}`;
+}
+
+/** Seal a value with a repo/org/environment public key, as the secrets API expects */
+async function encryptSecret(value: string, publicKey: string): Promise<string> {
+  await sodium.ready;
+  const sealed = sodium.crypto_box_seal(
+    sodium.from_string(value),
+    sodium.from_base64(publicKey, sodium.base64_variants.ORIGINAL)
+  );
+  return sodium.to_base64(sealed, sodium.base64_variants.ORIGINAL);
+}
+
+function toSourceVariable(name: string, value: string | null, isSecret: boolean, source: string): SourceVariable {
+  return { name, githubName: toGitHubSecretName(name), value: isSecret ? null : (value ?? ""), isSecret, source };
+}
+
+/** Inline variables and group references from a YAML pipeline's top-level `variables:` */
+function yamlVariables(yamlContent: string, pipelineName: string, warnings: string[]): { variables: SourceVariable[]; groups: string[] } {
+  const variables: SourceVariable[] = [];
+  const groups: string[] = [];
+  let parsed: any;
+  try {
+    parsed = YAML.parse(yamlContent);
+  } catch {
+    warnings.push(`Could not parse the YAML of '${pipelineName}' — its inline variables were not read`);
+    return { variables, groups };
+  }
+
+  const vars = parsed?.variables;
+  if (Array.isArray(vars)) {
+    for (const item of vars) {
+      if (item?.group) {
+        groups.push(String(item.group));
+      } else if (item?.template) {
+        warnings.push(`'${pipelineName}' includes variable template '${item.template}' — migrate its variables separately`);
+      } else if (item?.name !== undefined) {
+        variables.push(toSourceVariable(String(item.name), String(item.value ?? ""), false, `pipeline:${pipelineName}`));
+      }
+    }
+  } else if (vars && typeof vars === "object") {
+    for (const [name, value] of Object.entries(vars)) {
+      variables.push(toSourceVariable(name, String(value ?? ""), false, `pipeline:${pipelineName}`));
+    }
+  }
+  return { variables, groups };
+}
+
+// ─── Collection ──────────────────────────────────────────────────────────────
+
+/**
+ * Gather variables from the named variable groups and, when `definitionId` is
+ * given, from that pipeline's own variables and the groups it links.
+ * Pipeline variables win over group variables of the same name.
+ */
+export async function collectSourceVariables(
+  adoOrg: string,
+  adoProject: string,
+  groupNames: string[] = [],
+  definitionId?: number,
+  sessionId?: string
+): Promise<{ variables: SourceVariable[]; warnings: string[] }> {
+  const warnings: string[] = [];
+  const pipelineVariables: SourceVariable[] = [];
+  const wantedGroups = new Set(groupNames);
+
+  if (definitionId !== undefined) {
+    const def = await adoPipelines.getBuildDefinition(adoOrg, adoProject, definitionId, "inline", sessionId);
+    for (const [name, v] of Object.entries(def.variables ?? {})) {
+      pipelineVariables.push(toSourceVariable(name, v.value, !!v.isSecret, `pipeline:${def.name}`));
+    }
+    for (const g of def.variableGroups ?? []) wantedGroups.add(g.name);
+    if (def.yamlContent) {
+      const inline = yamlVariables(def.yamlContent, def.name, warnings);
+      pipelineVariables.push(...inline.variables);
+      for (const g of inline.groups) wantedGroups.add(g);
+    }
+  }
+
+  const groupVariables: SourceVariable[] = [];
+  if (wantedGroups.size > 0) {
+    const groups = await adoPipelines.listVariableGroups(adoOrg, adoProject, sessionId);
+    for (const name of wantedGroups) {
+      const group = groups.find(g => g.name === name);
+      if (!group) {
+        warnings.push(`Variable group '${name}' not found in ${adoOrg}/${adoProject}`);
+        continue;
+      }
+      const keyVault = group.type === "AzureKeyVault";
+      if (keyVault) {
+        warnings.push(`Variable group '${name}' is linked to Azure Key Vault — its variables are migrated as secrets`);
+      }
+      for (const [varName, v] of Object.entries(group.variables ?? {})) {
+        groupVariables.push(toSourceVariable(varName, v.value, keyVault || !!v.isSecret, `group:${name}`));
+      }
+    }
+  }
+
+  // First definition wins — pipeline variables come before group variables
+  const byName = new Map<string, SourceVariable>();
+  for (const v of [...pipelineVariables, ...groupVariables]) {
+    const existing = byName.get(v.githubName);
+    if (existing) {
+      if (existing.source !== v.source) {
+        warnings.push(`${v.githubName} is defined in ${existing.source} and ${v.source} — using ${existing.source}`);
+      }
+      continue;
+    }
+    if (/^GITHUB_/.test(v.githubName) || /^[0-9]/.test(v.githubName)) {
+      warnings.push(`${v.name} (${v.source}) maps to ${v.githubName}, which GitHub does not allow — rename it manually`);
+      continue;
+    }
+    byName.set(v.githubName, v);
+  }
+
+  return { variables: [...byName.values()], warnings };
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Create GitHub Actions variables and secrets from ADO variables. Existing
+ * GitHub values are left alone unless `overwrite` is set.
+ */
+export async function migrateVariables(
+  adoOrg: string,
+  adoProject: string,
+  target: VariableTarget,
+  groupNames: string[] = [],
+  definitionId?: number,
+  overwrite = false,
+  provideSecrets?: SecretValueProvider,
+  sessionId?: string
+): Promise<VariableMigrationResult> {
+  const { variables, warnings } = await collectSourceVariables(adoOrg, adoProject, groupNames, definitionId, sessionId);
+  const token = getGitHubTargetPAT(sessionId);
+  const baseUrl = scopeUrl(target, sessionId);
+  const visibility = target.scope === "org" ? { visibility: target.visibility ?? "private" } : {};
+  const result: VariableMigrationResult = { target: describeTarget(target), variables: [], secrets: [], warnings };
+
+  if (target.scope === "environment") {
+    // PUT is idempotent — creates the environment or leaves it as is
+    await ghRequest("PUT", baseUrl, token, {});
+  }
+
+  const plain = variables.filter(v => !v.isSecret);
+  if (plain.length > 0) {
+    const example = plain[0];
+    result.warnings.push(
+      `Converted workflows read non-secret variables from env (e.g. \${{ env.${example.name} }}), not from vars — ` +
+      `add them to the workflow's env block, e.g. ${example.name}: \${{ vars.${example.githubName} }}, ` +
+      `for variables the workflow doesn't already define.`
+    );
+  }
+
+  for (const v of plain) {
+    try {
+      const existing = await ghRequest("GET", `${baseUrl}/variables/${v.githubName}`, token);
+      if (existing && !overwrite) {
+        result.variables.push({ name: v.githubName, source: v.source, status: "skipped", message: "Already exists" });
+      } else if (existing) {
+        await ghRequest("PATCH", `${baseUrl}/variables/${v.githubName}`, token, { name: v.githubName, value: v.value, ...visibility });
+        result.variables.push({ name: v.githubName, source: v.source, status: "updated" });
+      } else {
+        await ghRequest("POST", `${baseUrl}/variables`, token, { name: v.githubName, value: v.value, ...visibility });
+        result.variables.push({ name: v.githubName, source: v.source, status: "created" });
+      }
+    } catch (err: unknown) {
+      result.variables.push({ name: v.githubName, source: v.source, status: "failed", message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  const secrets = variables.filter(v => v.isSecret);
+  if (secrets.length === 0) return result;
+
+  const values = provideSecrets ? await provideSecrets(secrets) : {};
+  const key = await ghRequest("GET", `${baseUrl}/secrets/public-key`, token);
+  if (!key) {
+    throw new Error(`Could not read the secrets public key for ${result.target}`);
+  }
+
+  for (const s of secrets) {
+    try {
+      const value = values[s.githubName];
+      const existing = await ghRequest("GET", `${baseUrl}/secrets/${s.githubName}`, token);
+      // Never replace a real secret with a placeholder
+      if (existing && (!overwrite || !value)) {
+        result.secrets.push({ name: s.githubName, source: s.source, status: "skipped", message: "Already exists" });
+        continue;
+      }
+
+      await ghRequest("PUT", `${baseUrl}/secrets/${s.githubName}`, token, {
+        encrypted_value: await encryptSecret(value || PLACEHOLDER_SECRET_VALUE, key.key),
+        key_id: key.key_id,
+        ...visibility,
+      });
+      result.secrets.push(value
+        ? { name: s.githubName, source: s.source, status: existing ? "updated" : "created" }
+        : { name: s.githubName, source: s.source, status: "placeholder", message: "No value supplied — set the real value in GitHub" });
+    } catch (err: unknown) {
+      result.secrets.push({ name: s.githubName, source: s.source, status: "failed", message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,306 @@
+/**
+ * Migration wave planning.
+ *
+ * Turns a detailed source inventory into an ordered set of named waves.
+ * Repos are grouped (by ADO project and/or explicit team lists), split into
+ * tiers — stale repos first as low-risk warm-up, then active repos, then
+ * large repos last — and chunked by repo count and total size. A team is
+ * tiered as a whole, so its repos land in consecutive waves of one tier.  Plans are
+ * persisted in state so each wave can be launched as a batch and tracked.
+ */
+import * as github from "./github-api.js";
+import * as ado from "./ado-api.js";
+import * as state from "./state.js";
+import * as batchQueue from "./batch-queue.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface WavePlanOptions {
+  /** Maximum repos per wave */
+  maxWaveSize: number;
+  /** Maximum combined size of a wave in MB */
+  maxWaveSizeMB?: number;
+  /** Keep repos from the same ADO project in the same waves of each tier */
+  groupBy: "none" | "project";
+  /**
+   * Explicit team → repo names. A team's repos are always planned together:
+   * in consecutive waves of the latest tier any of them falls into.
+   */
+  teams?: Record<string, string[]>;
+  /** Repos with no activity for this many days are treated as stale */
+  staleDays: number;
+  /** Repos at or above this size (MB) are scheduled in the trailing large-repo waves */
+  largeRepoMB: number;
+  excludeArchived: boolean;
+}
+
+export interface WaveStatus {
+  name: string;
+  group?: string;
+  tier: state.WaveTier;
+  repoCount: number;
+  totalSizeMB: number;
+  batchId?: string;
+  launchedAt?: string;
+  counts?: Record<state.QueueItemStatus, number>;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const TIER_ORDER: state.WaveTier[] = ["stale", "active", "large"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function csvField(value: string | number | undefined): string {
+  const s = value === undefined ? "" : String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+async function loadRepos(
+  source: "github" | "ado",
+  org: string,
+  excludeArchived: boolean,
+  ghesApiUrl?: string,
+  sessionId?: string
+): Promise<state.PlannedRepo[]> {
+  if (source === "github") {
+    const repos = await github.getReposDetailed(org, ghesApiUrl, sessionId);
+    return repos
+      .filter(r => !(excludeArchived && r.isArchived))
+      .map(r => ({ repoName: r.name, sizeMB: round(r.diskUsage / 1024), lastActivity: r.pushedAt }));
+  }
+
+  const inventory = await ado.getDetailedInventory(org, sessionId);
+  return inventory.repositories
+    .filter(r => !r.isDisabled)
+    .map(r => ({
+      repoName: r.name,
+      adoProject: r.project.name,
+      sizeMB: round((r.size || 0) / (1024 * 1024)),
+      lastActivity: r.lastCommitDate,
+    }));
+}
+
+function tierOf(repo: state.PlannedRepo, options: WavePlanOptions, now: number): state.WaveTier {
+  if (repo.sizeMB >= options.largeRepoMB) return "large";
+  const last = repo.lastActivity ? new Date(repo.lastActivity).getTime() : 0;
+  return now - last > options.staleDays * DAY_MS ? "stale" : "active";
+}
+
+/** Split an ordered list of repos into chunks bounded by count and total size */
+function chunk(repos: state.PlannedRepo[], maxCount: number, maxSizeMB?: number): state.PlannedRepo[][] {
+  const chunks: state.PlannedRepo[][] = [];
+  let current: state.PlannedRepo[] = [];
+  let currentSize = 0;
+
+  for (const repo of repos) {
+    const overSize = maxSizeMB !== undefined && currentSize + repo.sizeMB > maxSizeMB;
+    if (current.length > 0 && (current.length >= maxCount || overSize)) {
+      chunks.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push(repo);
+    currentSize += repo.sizeMB;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+// ─── Planning ────────────────────────────────────────────────────────────────
+
+/**
+ * Group repos into ordered waves. Pure function over an inventory so the
+ * same rules apply regardless of source.
+ */
+export function buildWaves(repos: state.PlannedRepo[], options: WavePlanOptions, now = Date.now()): state.MigrationWave[] {
+  const teamOf = new Map<string, string>();
+  for (const [team, names] of Object.entries(options.teams ?? {})) {
+    for (const name of names) teamOf.set(name.toLowerCase(), team);
+  }
+
+  // A team moves as one unit, in the latest tier any of its repos needs
+  const teamTier = new Map<string, state.WaveTier>();
+  for (const repo of repos) {
+    const team = teamOf.get(repo.repoName.toLowerCase());
+    if (!team) continue;
+    const tier = tierOf(repo, options, now);
+    const current = teamTier.get(team);
+    if (!current || TIER_ORDER.indexOf(tier) > TIER_ORDER.indexOf(current)) teamTier.set(team, tier);
+  }
+
+  const groupOf = (repo: state.PlannedRepo): string | undefined =>
+    teamOf.get(repo.repoName.toLowerCase()) ??
+    (options.groupBy === "project" ? repo.adoProject : undefined);
+
+  // tier → group → repos
+  const buckets = new Map<state.WaveTier, Map<string, state.PlannedRepo[]>>();
+  for (const repo of repos) {
+    const team = teamOf.get(repo.repoName.toLowerCase());
+    const tier = team ? teamTier.get(team)! : tierOf(repo, options, now);
+    const group = groupOf(repo) ?? "";
+    if (!buckets.has(tier)) buckets.set(tier, new Map());
+    const groups = buckets.get(tier)!;
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group)!.push(repo);
+  }
+
+  const waves: state.MigrationWave[] = [];
+  for (const tier of TIER_ORDER) {
+    const groups = buckets.get(tier);
+    if (!groups) continue;
+
+    for (const group of [...groups.keys()].sort()) {
+      // Smallest first within a group so problems surface on cheap repos
+      const ordered = groups.get(group)!.sort((a, b) => a.sizeMB - b.sizeMB);
+      for (const waveRepos of chunk(ordered, options.maxWaveSize, options.maxWaveSizeMB)) {
+        waves.push({
+          name: `wave-${String(waves.length + 1).padStart(2, "0")}`,
+          ...(group ? { group } : {}),
+          tier,
+          repos: waveRepos,
+          totalSizeMB: round(waveRepos.reduce((sum, r) => sum + r.sizeMB, 0)),
+        });
+      }
+    }
+  }
+
+  return waves;
+}
+
+/**
+ * Plan migration waves for a source org and persist the plan under `planName`.
+ */
+export async function planMigrationWaves(
+  planName: string,
+  source: "github" | "ado",
+  sourceOrg: string,
+  options: WavePlanOptions,
+  targetOrg?: string,
+  ghesApiUrl?: string,
+  sessionId?: string
+): Promise<state.MigrationPlan> {
+  const repos = await loadRepos(source, sourceOrg, options.excludeArchived, ghesApiUrl, sessionId);
+
+  const plan: state.MigrationPlan = {
+    name: planName,
+    source,
+    sourceOrg,
+    ...(targetOrg ? { targetOrg } : {}),
+    ...(ghesApiUrl ? { ghesApiUrl } : {}),
+    createdAt: new Date().toISOString(),
+    criteria: { ...options },
+    waves: buildWaves(repos, options),
+  };
+
+  state.saveMigrationPlan(plan);
+  return plan;
+}
+
+// ─── Launch & tracking ───────────────────────────────────────────────────────
+
+/**
+ * Enqueue a planned wave as a batch migration and start it.
+ */
+export function launchWave(
+  planName: string,
+  waveName: string,
+  maxConcurrent: number,
+  targetOrg?: string,
+  targetHost?: string,
+  sessionId?: string
+): state.BatchRecord {
+  const plan = state.getMigrationPlan(planName);
+  if (!plan) {
+    throw new Error(`Migration plan not found: ${planName}`);
+  }
+  const wave = plan.waves.find(w => w.name === waveName);
+  if (!wave) {
+    throw new Error(`Wave ${waveName} not found in plan ${planName}`);
+  }
+  if (wave.batchId) {
+    throw new Error(`Wave ${waveName} was already launched as ${wave.batchId}`);
+  }
+  const target = targetOrg || plan.targetOrg;
+  if (!target) {
+    throw new Error("targetOrg is required (the plan was created without one)");
+  }
+
+  const batch = batchQueue.createBatch(
+    plan.source,
+    plan.sourceOrg,
+    target,
+    wave.repos.map(r => ({ repoName: r.repoName, adoProject: r.adoProject })),
+    maxConcurrent,
+    plan.ghesApiUrl,
+    targetHost
+  );
+  state.updateMigrationWave(planName, waveName, { batchId: batch.id, launchedAt: new Date().toISOString() });
+  batchQueue.runBatch(batch.id, sessionId);
+  return batch;
+}
+
+export function getWaveStatuses(plan: state.MigrationPlan): WaveStatus[] {
+  return plan.waves.map(w => ({
+    name: w.name,
+    group: w.group,
+    tier: w.tier,
+    repoCount: w.repos.length,
+    totalSizeMB: w.totalSizeMB,
+    batchId: w.batchId,
+    launchedAt: w.launchedAt,
+    ...(w.batchId && state.getBatch(w.batchId) ? { counts: batchQueue.getBatchSummary(w.batchId).counts } : {}),
+  }));
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+export function planToCsv(plan: state.MigrationPlan): string {
+  const rows = ["wave,group,tier,repo,ado-project,size-mb,last-activity"];
+  for (const wave of plan.waves) {
+    for (const repo of wave.repos) {
+      rows.push([
+        wave.name,
+        wave.group,
+        wave.tier,
+        repo.repoName,
+        repo.adoProject,
+        repo.sizeMB,
+        repo.lastActivity,
+      ].map(csvField).join(","));
+    }
+  }
+  return rows.join("\n");
+}
+
+export function planToMarkdown(plan: state.MigrationPlan): string {
+  const totalRepos = plan.waves.reduce((sum, w) => sum + w.repos.length, 0);
+  const lines = [
+    `# Migration plan: ${plan.name}`,
+    "",
+    `Source: ${plan.source} \`${plan.sourceOrg}\`${plan.targetOrg ? ` → \`${plan.targetOrg}\`` : ""}`,
+    `${plan.waves.length} wave(s), ${totalRepos} repositories — created ${plan.createdAt}`,
+    "",
+    "| Wave | Group | Tier | Repos | Size (MB) | Batch |",
+    "|------|-------|------|-------|-----------|-------|",
+    ...plan.waves.map(w =>
+      `| ${w.name} | ${w.group ?? ""} | ${w.tier} | ${w.repos.length} | ${w.totalSizeMB} | ${w.batchId ?? ""} |`
+    ),
+  ];
+
+  for (const wave of plan.waves) {
+    lines.push("", `## ${wave.name}${wave.group ? ` (${wave.group})` : ""} — ${wave.tier}`, "");
+    for (const repo of wave.repos) {
+      const project = repo.adoProject ? `${repo.adoProject}/` : "";
+      const activity = repo.lastActivity ? `, last activity ${repo.lastActivity.slice(0, 10)}` : "";
+      lines.push(`- ${project}${repo.repoName} (${repo.sizeMB} MB${activity})`);
+    }
+  }
+
+  return lines.join("\n");
+}
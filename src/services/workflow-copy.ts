@@ -1,4 +1,5 @@
 import { getGitHubSourcePAT, getGitHubTargetPAT } from "./session.js";
+import { GITHUB_API_URL, resolveTargetHost, targetApiUrl } from "./github-api.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -64,11 +65,12 @@ async function ghRestPut(url: string, token: string, body: object): Promise<any>
 export async function listWorkflows(
   org: string,
   repo: string,
+  apiUrl?: string,
   sessionId?: string
 ): Promise<WorkflowFile[]> {
   const token = getGitHubSourcePAT(sessionId);
   const data = await ghRestGet(
-    `https://api.github.com/repos/${org}/${repo}/contents/.github/workflows`,
+    `${apiUrl || GITHUB_API_URL}/repos/${org}/${repo}/contents/.github/workflows`,
     token
   );
 
@@ -92,11 +94,12 @@ export async function getWorkflowContent(
   org: string,
   repo: string,
   filePath: string,
+  apiUrl?: string,
   sessionId?: string
 ): Promise<WorkflowContent | null> {
   const token = getGitHubSourcePAT(sessionId);
   const data = await ghRestGet(
-    `https://api.github.com/repos/${org}/${repo}/contents/${filePath}`,
+    `${apiUrl || GITHUB_API_URL}/repos/${org}/${repo}/contents/${filePath}`,
     token
   );
 
@@ -109,12 +112,16 @@ export async function getWorkflowContent(
 /**
  * Copy all workflow files from source repo to target repo.
  * Creates them via the Contents API (commit per file).
+ * `sourceApiUrl` points the source side at a GHES instance; `targetHost`
+ * points the target side at a GHE.com tenant.
  */
 export async function copyWorkflows(
   sourceOrg: string,
   sourceRepo: string,
   targetOrg: string,
   targetRepo: string,
+  sourceApiUrl?: string,
+  targetHost?: string,
   sessionId?: string
 ): Promise<CopyResult> {
   const sourceToken = getGitHubSourcePAT(sessionId);
@@ -123,7 +130,9 @@ export async function copyWorkflows(
   const result: CopyResult = { copied: [], skipped: [], errors: [] };
 
   // List source workflows
-  const workflows = await listWorkflows(sourceOrg, sourceRepo, sessionId);
+  const sourceBase = sourceApiUrl || GITHUB_API_URL;
+  const targetBase = targetApiUrl(resolveTargetHost(targetHost, sessionId));
+  const workflows = await listWorkflows(sourceOrg, sourceRepo, sourceApiUrl, sessionId);
   if (workflows.length === 0) {
     return result;
   }
@@ -132,7 +141,7 @@ export async function copyWorkflows(
     try {
       // Fetch content from source
       const sourceData = await ghRestGet(
-        `https://api.github.com/repos/${sourceOrg}/${sourceRepo}/contents/${wf.path}`,
+        `${sourceBase}/repos/${sourceOrg}/${sourceRepo}/contents/${wf.path}`,
         sourceToken
       );
       if (!sourceData) {
@@ -142,7 +151,7 @@ export async function copyWorkflows(
 
       // Check if file already exists in target
       const existing = await ghRestGet(
-        `https://api.github.com/repos/${targetOrg}/${targetRepo}/contents/${wf.path}`,
+        `${targetBase}/repos/${targetOrg}/${targetRepo}/contents/${wf.path}`,
         targetToken
       );
 
@@ -153,7 +162,7 @@ export async function copyWorkflows(
 
       // Create file in target repo
       await ghRestPut(
-        `https://api.github.com/repos/${targetOrg}/${targetRepo}/contents/${wf.path}`,
+        `${targetBase}/repos/${targetOrg}/${targetRepo}/contents/${wf.path}`,
         targetToken,
         {
           message: `chore: copy workflow ${wf.name} from ${sourceOrg}/${sourceRepo}`,
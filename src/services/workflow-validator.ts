@@ -0,0 +1,732 @@
+/**
+ * Workflow validation — structural and semantic checks on generated GitHub
+ * Actions workflows and composite actions, before they are proposed in a PR.
+ *
+ * The structural pass reads the file against GitHub's published schemas
+ * (workflow-v1.0.json and action-v1.0.json, bundled with
+ * @actions/workflow-parser): allowed keys, value types, required properties,
+ * and the syntax, functions and contexts of `${{ }}` expressions. The
+ * semantic pass catches what the schema can't: invalid job IDs, `needs`
+ * pointing at unknown jobs or forming a cycle, duplicate step IDs, malformed
+ * `uses` references, contexts used where GitHub doesn't provide them, and
+ * `needs`/`matrix`/`env`/`steps`/`inputs` references that aren't defined.
+ *
+ * Errors are findings GitHub would reject the workflow for; warnings are
+ * likely mistakes that still load.
+ */
+import * as fs from "node:fs";
+import { fileURLToPath } from "node:url";
+import YAML, { isMap, isPair, isScalar, isSeq, LineCounter, type Document, type Node } from "yaml";
+import { JSONObjectReader } from "@actions/workflow-parser/templates/json-object-reader";
+import { TemplateSchema } from "@actions/workflow-parser/templates/schema/index";
+import { TemplateContext, TemplateValidationErrors } from "@actions/workflow-parser/templates/template-context";
+import { readTemplate } from "@actions/workflow-parser/templates/template-reader";
+import { NoOperationTraceWriter } from "@actions/workflow-parser/templates/trace-writer";
+import { YamlObjectReader } from "@actions/workflow-parser/workflows/yaml-object-reader";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ValidationFinding {
+  severity: "error" | "warning";
+  /** Location in the document, e.g. `jobs.build.steps[2].with` */
+  path: string;
+  message: string;
+}
+
+type Context =
+  | "github" | "env" | "vars" | "job" | "jobs" | "steps" | "runner" | "secrets"
+  | "strategy" | "matrix" | "needs" | "inputs";
+
+type ExprNode =
+  | { kind: "literal" }
+  | { kind: "ref"; head: string; path: (string | null)[] }
+  | { kind: "call"; name: string; args: ExprNode[] }
+  | { kind: "index"; target: ExprNode; index: ExprNode }
+  | { kind: "unary"; operand: ExprNode }
+  | { kind: "binary"; left: ExprNode; right: ExprNode };
+
+/** What expressions at one location may reference */
+interface Scope {
+  contexts: readonly Context[];
+  /** `success()` and friends are only allowed in `if:` */
+  statusFunctions?: boolean;
+  job?: JobInfo;
+  /** env names defined at the workflow, job and step levels in scope */
+  env?: Set<string>;
+  /** Step ids defined before the current step */
+  stepIds?: Set<string>;
+  inputs?: Set<string>;
+}
+
+interface JobInfo {
+  id: string;
+  needs: string[];
+  /** Matrix keys, or null when the matrix is an expression */
+  matrixKeys?: Set<string> | null;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const ALL_CONTEXTS: readonly Context[] = [
+  "github", "env", "vars", "job", "jobs", "steps", "runner", "secrets", "strategy", "matrix", "needs", "inputs",
+];
+
+/** Context availability, per https://docs.github.com/actions/reference/accessing-contextual-information-about-workflow-runs#context-availability */
+const CONTEXTS = {
+  workflowEnv: ["github", "secrets", "inputs", "vars"],
+  workflowTop: ["github", "inputs", "vars"],
+  jobIf: ["github", "needs", "vars", "inputs"],
+  jobStrategy: ["github", "needs", "vars", "inputs"],
+  jobTop: ["github", "needs", "strategy", "matrix", "vars", "inputs"],
+  jobEnv: ["github", "needs", "strategy", "matrix", "vars", "secrets", "inputs"],
+  jobSecrets: ["github", "needs", "strategy", "matrix", "secrets", "inputs", "vars"],
+  jobOutputs: ["github", "needs", "strategy", "matrix", "job", "runner", "env", "vars", "secrets", "steps", "inputs"],
+  stepIf: ["github", "needs", "strategy", "matrix", "job", "runner", "env", "vars", "steps", "inputs"],
+  step: ["github", "needs", "strategy", "matrix", "secrets", "job", "runner", "env", "vars", "steps", "inputs"],
+  actionStep: ["github", "strategy", "matrix", "job", "runner", "env", "steps", "inputs"],
+} satisfies Record<string, readonly Context[]>;
+
+const FUNCTIONS: Record<string, [min: number, max: number]> = {
+  contains: [2, 2],
+  startswith: [2, 2],
+  endswith: [2, 2],
+  format: [1, Infinity],
+  join: [1, 2],
+  tojson: [1, 1],
+  fromjson: [1, 1],
+  hashfiles: [1, Infinity],
+};
+const STATUS_FUNCTIONS = new Set(["success", "always", "cancelled", "failure"]);
+/** Trigger filters that can't be combined with their `-ignore` form */
+const FILTERS = ["branches", "tags", "paths"];
+const JOB_ID = /^[_a-zA-Z][a-zA-Z0-9_-]*$/;
+
+// ─── Schemas ─────────────────────────────────────────────────────────────────
+
+/** Schema files shipped in @actions/workflow-parser, with the root definition each file is read as */
+const SCHEMAS = {
+  workflow: { file: "workflow-v1.0.min.json", root: "workflow-root-strict" },
+  action: { file: "action-v1.0.min.json", root: "action-root-strict" },
+} as const;
+
+// ─── Expressions ─────────────────────────────────────────────────────────────
+
+type Token = { type: "num" | "str" | "ident" | "op"; value: string };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === "'") {
+      let j = i + 1;
+      for (; j < source.length; j++) {
+        if (source[j] === "'") {
+          if (source[j + 1] === "'") { j++; continue; }
+          break;
+        }
+      }
+      if (j >= source.length) throw new Error("unterminated string");
+      tokens.push({ type: "str", value: source.slice(i + 1, j) });
+      i = j + 1;
+      continue;
+    }
+    const num = /^(?:0x[0-9a-fA-F]+|[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/.exec(source.slice(i));
+    if (num && /[\d.]/.test(ch)) {
+      tokens.push({ type: "num", value: num[0] });
+      i += num[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ type: "ident", value: ident[0] });
+      i += ident[0].length;
+      continue;
+    }
+    const op = /^(?:==|!=|<=|>=|&&|\|\||[<>!()[\].,*])/.exec(source.slice(i));
+    if (!op) throw new Error(`unexpected character '${ch}'`);
+    tokens.push({ type: "op", value: op[0] });
+    i += op[0].length;
+  }
+  return tokens;
+}
+
+/** Recursive-descent parser for the Actions expression grammar */
+function parseExpression(source: string): ExprNode {
+  const tokens = tokenize(source);
+  let pos = 0;
+  const peek = (value?: string) => tokens[pos] && (value === undefined || tokens[pos].value === value);
+  const expect = (value: string) => {
+    if (!peek(value)) throw new Error(`expected '${value}'${tokens[pos] ? ` but found '${tokens[pos].value}'` : " at end"}`);
+    pos++;
+  };
+
+  const binary = (next: () => ExprNode, ops: string[]) => (): ExprNode => {
+    let left = next();
+    while (tokens[pos]?.type === "op" && ops.includes(tokens[pos].value)) {
+      pos++;
+      left = { kind: "binary", left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): ExprNode => {
+    const token = tokens[pos++];
+    if (!token) throw new Error("unexpected end of expression");
+    if (token.type === "num" || token.type === "str") return { kind: "literal" };
+    if (token.type === "op" && token.value === "(") {
+      const inner = or();
+      expect(")");
+      return inner;
+    }
+    if (token.type !== "ident") throw new Error(`unexpected '${token.value}'`);
+    if (["true", "false", "null"].includes(token.value)) return { kind: "literal" };
+
+    if (peek("(")) {
+      pos++;
+      const args: ExprNode[] = [];
+      if (!peek(")")) {
+        args.push(or());
+        while (peek(",")) { pos++; args.push(or()); }
+      }
+      expect(")");
+      return { kind: "call", name: token.value, args };
+    }
+    return { kind: "ref", head: token.value, path: [] };
+  };
+
+  const postfix = (): ExprNode => {
+    let node = primary();
+    for (;;) {
+      if (peek(".")) {
+        pos++;
+        const next = tokens[pos++];
+        if (!next || !(next.type === "ident" || next.value === "*")) throw new Error("expected a property name after '.'");
+        node = node.kind === "ref" ? { ...node, path: [...node.path, next.value] } : { kind: "index", target: node, index: { kind: "literal" } };
+      } else if (peek("[")) {
+        pos++;
+        const literal = tokens[pos]?.type === "str" && tokens[pos + 1]?.value === "]" ? tokens[pos].value : undefined;
+        const index = peek("*") ? (pos++, { kind: "literal" } as ExprNode) : or();
+        expect("]");
+        node = node.kind === "ref"
+          ? { ...node, path: [...node.path, literal ?? null] }
+          : { kind: "index", target: node, index };
+        if (node.kind === "ref" && literal === undefined && index.kind !== "literal") {
+          node = { kind: "index", target: node, index };
+        }
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const unary = (): ExprNode => {
+    if (peek("!")) {
+      pos++;
+      return { kind: "unary", operand: unary() };
+    }
+    return postfix();
+  };
+
+  const comparison = binary(unary, ["<", "<=", ">", ">="]);
+  const equality = binary(comparison, ["==", "!="]);
+  const and = binary(equality, ["&&"]);
+  const or: () => ExprNode = binary(and, ["||"]);
+
+  const ast = or();
+  if (pos < tokens.length) throw new Error(`unexpected '${tokens[pos].value}'`);
+  return ast;
+}
+
+/** `${{ … }}` bodies in a string, or an error for an unterminated one */
+function embeddedExpressions(value: string): { expressions: string[]; error?: string } {
+  const expressions: string[] = [];
+  let i = value.indexOf("${{");
+  while (i !== -1) {
+    let j = i + 3;
+    let inString = false;
+    for (; j < value.length - 1; j++) {
+      if (value[j] === "'") inString = !inString;
+      else if (!inString && value[j] === "}" && value[j + 1] === "}") break;
+    }
+    if (j >= value.length - 1) return { expressions, error: "'${{' without a closing '}}'" };
+    expressions.push(value.slice(i + 3, j));
+    i = value.indexOf("${{", j + 2);
+  }
+  return { expressions };
+}
+
+// ─── Checking ────────────────────────────────────────────────────────────────
+
+class Checker {
+  readonly findings: ValidationFinding[] = [];
+  /** Locations the schema already reported an error for */
+  private readonly schemaErrors = new Set<string>();
+
+  /** Record a schema error; the semantic pass doesn't report that location again */
+  schemaError(path: string, message: string): void {
+    this.schemaErrors.add(path);
+    this.findings.push({ severity: "error", path, message });
+  }
+
+  error(path: string, message: string): void {
+    if (this.schemaErrors.has(path)) return;
+    this.findings.push({ severity: "error", path, message });
+  }
+
+  warn(path: string, message: string): void {
+    this.findings.push({ severity: "warning", path, message });
+  }
+
+  /** A mapping of scalars (`env`, `with`, `outputs`), or an expression for one */
+  scalarMap(value: unknown, path: string, what: string, scope: Scope): void {
+    if (typeof value === "string") {
+      this.expressionString(value, path, scope);
+      return;
+    }
+    if (!isMapping(value)) return;
+    for (const [key, v] of Object.entries(value)) {
+      if (v === null) this.warn(join(path, key), `${what} value is empty`);
+      else if (typeof v === "string") this.expressionString(v, join(path, key), scope);
+    }
+  }
+
+  /** Expressions in a scalar value; the schema checks its type */
+  scalar(value: unknown, path: string, scope: Scope): void {
+    if (typeof value === "string") this.expressionString(value, path, scope);
+  }
+
+  /** Check every string under `value` for `${{ }}` expressions */
+  deep(value: unknown, path: string, scope: Scope): void {
+    if (typeof value === "string") this.expressionString(value, path, scope);
+    else if (Array.isArray(value)) value.forEach((v, i) => this.deep(v, `${path}[${i}]`, scope));
+    else if (value && typeof value === "object") {
+      for (const [k, v] of Object.entries(value)) this.deep(v, join(path, k), scope);
+    }
+  }
+
+  expressionString(value: string, path: string, scope: Scope): void {
+    const { expressions, error } = embeddedExpressions(value);
+    if (error) this.error(path, error);
+    for (const expression of expressions) this.expression(expression, path, scope);
+  }
+
+  /** `if:` values are expressions even without `${{ }}` */
+  condition(value: unknown, path: string, scope: Scope): void {
+    if (typeof value !== "string") return;
+    const whole = /^\s*\$\{\{([\s\S]*)\}\}\s*$/.exec(value);
+    if (whole && embeddedExpressions(value).expressions.length === 1) {
+      this.expression(whole[1], path, { ...scope, statusFunctions: true });
+    } else if (value.includes("${{")) {
+      this.warn(path, "mixes text and '${{ }}' — GitHub treats it as a non-empty string, which is always true");
+      this.expressionString(value, path, { ...scope, statusFunctions: true });
+    } else {
+      this.expression(value, path, { ...scope, statusFunctions: true });
+    }
+  }
+
+  expression(source: string, path: string, scope: Scope): void {
+    let ast: ExprNode;
+    try {
+      ast = parseExpression(source);
+    } catch (err: unknown) {
+      this.error(path, `invalid expression '${source.trim()}': ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    this.node(ast, source.trim(), path, scope);
+  }
+
+  private node(node: ExprNode, source: string, path: string, scope: Scope): void {
+    switch (node.kind) {
+      case "literal":
+        return;
+      case "unary":
+        return this.node(node.operand, source, path, scope);
+      case "binary":
+        this.node(node.left, source, path, scope);
+        return this.node(node.right, source, path, scope);
+      case "index":
+        this.node(node.target, source, path, scope);
+        return this.node(node.index, source, path, scope);
+      case "call": {
+        const name = node.name.toLowerCase();
+        if (STATUS_FUNCTIONS.has(name)) {
+          if (!scope.statusFunctions) this.error(path, `'${node.name}()' is only allowed in 'if' conditions`);
+          if (node.args.length > 0) this.error(path, `'${node.name}()' takes no arguments`);
+        } else if (FUNCTIONS[name]) {
+          const [min, max] = FUNCTIONS[name];
+          if (node.args.length < min || node.args.length > max) {
+            this.error(path, `'${node.name}()' called with ${node.args.length} argument(s) in '${source}'`);
+          }
+        } else {
+          this.error(path, `unknown function '${node.name}()' in '${source}'`);
+        }
+        node.args.forEach(arg => this.node(arg, source, path, scope));
+        return;
+      }
+      case "ref":
+        return this.reference(node, source, path, scope);
+    }
+  }
+
+  private reference(ref: Extract<ExprNode, { kind: "ref" }>, source: string, path: string, scope: Scope): void {
+    const context = ref.head as Context;
+    if (!ALL_CONTEXTS.includes(context)) {
+      this.error(path, `unknown context '${ref.head}' in '${source}'`);
+      return;
+    }
+    if (!scope.contexts.includes(context)) {
+      this.error(path, `'${ref.head}' context is not available here (in '${source}')`);
+      return;
+    }
+    const name = ref.path[0];
+    if (!name || name === "*") return;
+
+    switch (context) {
+      case "needs":
+        if (scope.job && !scope.job.needs.includes(name)) {
+          this.error(path, `needs.${name} is not a dependency of job '${scope.job.id}'`);
+        }
+        return;
+      case "matrix": {
+        const keys = scope.job?.matrixKeys;
+        if (keys === undefined && scope.job) this.warn(path, `matrix.${name} is used but job '${scope.job.id}' has no matrix`);
+        else if (keys && !keys.has(name)) this.warn(path, `matrix.${name} is not a matrix key of job '${scope.job!.id}'`);
+        return;
+      }
+      case "env":
+        if (scope.env && !scope.env.has(name)) {
+          this.warn(path, `env.${name} is not defined in the workflow, job or step env (fine if an earlier step writes it to $GITHUB_ENV)`);
+        }
+        return;
+      case "steps":
+        if (scope.stepIds && !scope.stepIds.has(name)) this.warn(path, `steps.${name} does not match the id of an earlier step`);
+        return;
+      case "inputs":
+        if (scope.inputs && !scope.inputs.has(name)) this.warn(path, `inputs.${name} is not a declared input`);
+        return;
+    }
+  }
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isMapping(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+interface LoadedFile {
+  content: string;
+  doc: Document;
+  lineCounter: LineCounter;
+}
+
+/** Parse YAML, reporting syntax errors */
+function load(content: string, checker: Checker): LoadedFile | undefined {
+  const lineCounter = new LineCounter();
+  const doc = YAML.parseDocument(content, { uniqueKeys: false, lineCounter });
+  if (doc.errors.length > 0) {
+    for (const err of doc.errors) checker.error("", `YAML syntax error: ${err.message.split("\n")[0]}`);
+    return undefined;
+  }
+  return { content, doc, lineCounter };
+}
+
+// ─── Schema ──────────────────────────────────────────────────────────────────
+
+const loadedSchemas = new Map<string, TemplateSchema>();
+
+function loadSchema(file: string): TemplateSchema {
+  let schema = loadedSchemas.get(file);
+  if (!schema) {
+    // The package imports its schema files as JSON modules, which plain Node
+    // can't load, so read them from the package directory instead
+    const url = new URL(`../${file}`, import.meta.resolve("@actions/workflow-parser/templates/template-context"));
+    schema = TemplateSchema.load(new JSONObjectReader(undefined, fs.readFileSync(fileURLToPath(url), "utf-8")));
+    loadedSchemas.set(file, schema);
+  }
+  return schema;
+}
+
+/** Document path of the innermost key or value spanning `start`–`end` */
+function pathAt(node: Node | null | undefined, start: number, end: number, path: string): string {
+  const spans = (n: Node | null | undefined, to: 1 | 2) => !!n?.range && n.range[0] <= start && end <= n.range[to];
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      if (!isPair(pair)) continue;
+      const key = join(path, isScalar(pair.key) ? String(pair.key.value) : String(pair.key));
+      if (spans(pair.key as Node, 1)) return key;
+      if (spans(pair.value as Node, 2)) return pathAt(pair.value as Node, start, end, key);
+    }
+  } else if (isSeq(node)) {
+    for (const [i, item] of node.items.entries()) {
+      if (spans(item as Node, 2)) return pathAt(item as Node, start, end, `${path}[${i}]`);
+    }
+  }
+  return path;
+}
+
+/** Read the file against GitHub's schema, reporting each error at its document path */
+function checkSchema(file: LoadedFile, kind: keyof typeof SCHEMAS, checker: Checker): void {
+  const { file: schemaFile, root } = SCHEMAS[kind];
+  const context = new TemplateContext(new TemplateValidationErrors(), loadSchema(schemaFile), new NoOperationTraceWriter());
+  const fileId = context.getFileId(kind);
+  readTemplate(context, root, new YamlObjectReader(fileId, file.content), fileId);
+
+  const offset = ({ line, column }: { line: number; column: number }) =>
+    (file.lineCounter.lineStarts[line - 1] ?? file.content.length) + column - 1;
+  for (const err of context.errors.getErrors()) {
+    const path = err.range ? pathAt(file.doc.contents, offset(err.range.start), offset(err.range.end), "") : "";
+    checker.schemaError(path, err.rawMessage);
+  }
+}
+
+function inputNames(inputs: unknown): Set<string> {
+  return new Set(inputs && typeof inputs === "object" ? Object.keys(inputs) : []);
+}
+
+function stringList(value: unknown): string[] {
+  return (Array.isArray(value) ? value : [value]).filter((v): v is string => typeof v === "string");
+}
+
+// ─── Workflow semantics ──────────────────────────────────────────────────────
+
+function checkTriggers(on: unknown, checker: Checker): void {
+  if (!isMapping(on)) return;
+  for (const [event, config] of Object.entries(on)) {
+    const path = join("on", event);
+    if (event === "schedule" && Array.isArray(config)) {
+      config.forEach((entry, i) => {
+        if (typeof entry?.cron === "string" && entry.cron.trim().split(/\s+/).length !== 5) {
+          checker.error(`${path}[${i}].cron`, `'${entry.cron}' is not a 5-field cron expression`);
+        }
+      });
+      continue;
+    }
+    if (!isMapping(config)) continue;
+    for (const filter of FILTERS) {
+      if (config[filter] !== undefined && config[`${filter}-ignore`] !== undefined) {
+        checker.error(path, `'${filter}' and '${filter}-ignore' can't be used together`);
+      }
+    }
+  }
+}
+
+function matrixKeys(strategy: any): Set<string> | null | undefined {
+  const matrix = strategy?.matrix;
+  if (matrix === undefined) return undefined;
+  if (typeof matrix === "string") return null;
+  if (!matrix || typeof matrix !== "object") return undefined;
+  const keys = new Set(Object.keys(matrix).filter(k => k !== "include" && k !== "exclude"));
+  for (const entry of Array.isArray(matrix.include) ? matrix.include : []) {
+    if (entry && typeof entry === "object") Object.keys(entry).forEach(k => keys.add(k));
+  }
+  return keys;
+}
+
+function checkStrategy(strategy: unknown, path: string, checker: Checker, scope: Scope): void {
+  if (!isMapping(strategy)) return;
+  const matrix = strategy.matrix;
+  if (typeof matrix === "string") {
+    checker.expressionString(matrix, join(path, "matrix"), scope);
+  } else if (isMapping(matrix)) {
+    for (const [key, values] of Object.entries(matrix)) {
+      const p = join(join(path, "matrix"), key);
+      if (Array.isArray(values) && values.length === 0) checker.error(p, "matrix values can't be empty");
+      else checker.deep(values, p, scope);
+    }
+  }
+  checker.scalar(strategy["fail-fast"], join(path, "fail-fast"), scope);
+  checker.scalar(strategy["max-parallel"], join(path, "max-parallel"), scope);
+}
+
+function checkSteps(
+  steps: unknown,
+  path: string,
+  checker: Checker,
+  scopeFor: (stepEnv: Set<string>, stepIds: Set<string>) => { step: Scope; condition: Scope }
+): void {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    checker.error(path, "must be a non-empty list of steps");
+    return;
+  }
+  const stepIds = new Set<string>();
+  steps.forEach((step, i) => {
+    const p = `${path}[${i}]`;
+    if (!isMapping(step)) return;
+    if (typeof step.uses === "string" && !/^(\.\/|docker:\/\/|[^/@\s]+\/[^@\s]+@\S+)/.test(step.uses)) {
+      checker.error(join(p, "uses"), `'${step.uses}' is not an action reference (owner/repo@ref, ./path or docker://image)`);
+    }
+
+    const stepEnv = new Set(isMapping(step.env) ? Object.keys(step.env) : []);
+    const { step: scope, condition } = scopeFor(stepEnv, new Set(stepIds));
+    checker.condition(step.if, join(p, "if"), condition);
+    for (const key of ["name", "run", "working-directory", "shell", "uses", "id", "continue-on-error", "timeout-minutes"]) {
+      checker.scalar(step[key], join(p, key), scope);
+    }
+    checker.scalarMap(step.with, join(p, "with"), "with", scope);
+    checker.scalarMap(step.env, join(p, "env"), "env", scope);
+
+    if (typeof step.id === "string") {
+      if (stepIds.has(step.id)) checker.error(join(p, "id"), `duplicate step id '${step.id}'`);
+      stepIds.add(step.id);
+    }
+  });
+}
+
+function checkJob(
+  id: string,
+  job: unknown,
+  jobIds: Set<string>,
+  workflowEnv: Set<string>,
+  workflowInputs: Set<string> | undefined,
+  checker: Checker
+): string[] {
+  const path = join("jobs", id);
+  if (!JOB_ID.test(id)) checker.error(path, `job id '${id}' must start with a letter or '_' and contain only alphanumerics, '-' or '_'`);
+  if (!isMapping(job)) return [];
+
+  const needs = job.needs === undefined ? [] : stringList(job.needs);
+  for (const need of needs) {
+    if (need === id) checker.error(join(path, "needs"), `job '${id}' can't depend on itself`);
+    else if (!jobIds.has(need)) checker.error(join(path, "needs"), `unknown job '${need}'`);
+  }
+
+  const info: JobInfo = { id, needs, matrixKeys: matrixKeys(job.strategy) };
+  const jobEnv = new Set([...workflowEnv, ...(isMapping(job.env) ? Object.keys(job.env) : [])]);
+  const scope = (contexts: readonly Context[], extra: Partial<Scope> = {}): Scope =>
+    ({ contexts, job: info, inputs: workflowInputs, ...extra });
+
+  checker.condition(job.if, join(path, "if"), scope(CONTEXTS.jobIf));
+  checker.scalar(job.name, join(path, "name"), scope(CONTEXTS.jobTop));
+  checkStrategy(job.strategy, join(path, "strategy"), checker, scope(CONTEXTS.jobStrategy));
+  checker.deep(job.concurrency, join(path, "concurrency"), scope(CONTEXTS.jobTop));
+
+  if (job.uses !== undefined) {
+    if (typeof job.uses === "string" && !/^(\.\/\.github\/workflows\/|[^/@\s]+\/[^@\s]+\/\.github\/workflows\/[^@\s]+@\S+)/.test(job.uses)) {
+      checker.error(join(path, "uses"), `'${job.uses}' is not a reusable workflow reference (./.github/workflows/x.yml or owner/repo/.github/workflows/x.yml@ref)`);
+    }
+    checker.scalarMap(job.with, join(path, "with"), "with", scope(CONTEXTS.jobTop));
+    if (job.secrets !== "inherit") {
+      checker.scalarMap(job.secrets, join(path, "secrets"), "secrets", scope(CONTEXTS.jobSecrets));
+    }
+    return needs;
+  }
+
+  checker.deep(job["runs-on"], join(path, "runs-on"), scope(CONTEXTS.jobTop));
+  checker.deep(job.environment, join(path, "environment"), scope(CONTEXTS.jobTop));
+  checker.scalarMap(job.env, join(path, "env"), "env", scope(CONTEXTS.jobEnv));
+  checker.scalar(job["timeout-minutes"], join(path, "timeout-minutes"), scope(CONTEXTS.jobTop));
+  checker.scalar(job["continue-on-error"], join(path, "continue-on-error"), scope(CONTEXTS.jobTop));
+  checker.deep(job.container, join(path, "container"), scope(CONTEXTS.jobEnv));
+  checker.deep(job.services, join(path, "services"), scope(CONTEXTS.jobEnv));
+  checker.scalarMap(job.outputs, join(path, "outputs"), "outputs", scope(CONTEXTS.jobOutputs, { env: jobEnv }));
+
+  checkSteps(job.steps, join(path, "steps"), checker, (stepEnv, stepIds) => {
+    const env = new Set([...jobEnv, ...stepEnv]);
+    return {
+      step: scope(CONTEXTS.step, { env, stepIds }),
+      condition: scope(CONTEXTS.stepIf, { env, stepIds }),
+    };
+  });
+  return needs;
+}
+
+/** Jobs that are part of a `needs` cycle; a job needing itself is reported on its own */
+function needsCycle(graph: Map<string, string[]>): string[] | undefined {
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const visit = (id: string): string[] | undefined => {
+    if (state.get(id) === "done") return undefined;
+    if (state.get(id) === "visiting") return [...stack.slice(stack.indexOf(id)), id];
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const next of graph.get(id) ?? []) {
+      const cycle = graph.has(next) && next !== id ? visit(next) : undefined;
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, "done");
+    return undefined;
+  };
+  for (const id of graph.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Validate a workflow file. Returns the schema findings in document order,
+ * then the semantic ones; an empty list means the workflow passed every check.
+ */
+export function validateWorkflow(content: string): ValidationFinding[] {
+  const checker = new Checker();
+  const file = load(content, checker);
+  if (!file) return checker.findings;
+  checkSchema(file, "workflow", checker);
+  const workflow = file.doc.toJS();
+  if (!isMapping(workflow)) return checker.findings;
+
+  checkTriggers(workflow.on, checker);
+
+  const on = isMapping(workflow.on) ? workflow.on : {};
+  const declaredInputs = on.workflow_call?.inputs || on.workflow_dispatch?.inputs
+    ? new Set([...inputNames(on.workflow_call?.inputs), ...inputNames(on.workflow_dispatch?.inputs)])
+    : undefined;
+  const top: Scope = { contexts: CONTEXTS.workflowTop, inputs: declaredInputs };
+  checker.scalar(workflow.name, "name", top);
+  checker.scalar(workflow["run-name"], "run-name", top);
+  checker.deep(workflow.concurrency, "concurrency", top);
+  checker.scalarMap(workflow.env, "env", "env", { contexts: CONTEXTS.workflowEnv, inputs: declaredInputs });
+
+  if (!isMapping(workflow.jobs)) return checker.findings;
+  const jobIds = new Set(Object.keys(workflow.jobs));
+  if (jobIds.size === 0) checker.error("jobs", "a workflow needs at least one job under 'jobs'");
+
+  const workflowEnv = new Set(isMapping(workflow.env) ? Object.keys(workflow.env) : []);
+  const graph = new Map<string, string[]>();
+  for (const [id, job] of Object.entries(workflow.jobs)) {
+    graph.set(id, checkJob(id, job, jobIds, workflowEnv, declaredInputs, checker));
+  }
+  const cycle = needsCycle(graph);
+  if (cycle) checker.error("jobs", `jobs depend on each other in a cycle: ${cycle.join(" → ")}`);
+
+  return checker.findings;
+}
+
+/** Validate a composite action's action.yml */
+export function validateCompositeAction(content: string): ValidationFinding[] {
+  const checker = new Checker();
+  const file = load(content, checker);
+  if (!file) return checker.findings;
+  checkSchema(file, "action", checker);
+  const action = file.doc.toJS();
+  if (!isMapping(action) || !isMapping(action.runs)) return checker.findings;
+  if (action.runs.using !== "composite") {
+    checker.error(join("runs", "using"), "composite actions need 'using: composite'");
+    return checker.findings;
+  }
+
+  const inputs = inputNames(action.inputs);
+  const env = new Set<string>();
+  checkSteps(action.runs.steps, join("runs", "steps"), checker, (stepEnv, stepIds) => {
+    const scope: Scope = { contexts: CONTEXTS.actionStep, inputs, stepIds, env: new Set([...env, ...stepEnv]) };
+    return { step: scope, condition: { ...scope, statusFunctions: true } };
+  });
+  for (const [name, output] of Object.entries(isMapping(action.outputs) ? action.outputs : {})) {
+    checker.deep((output as any)?.value, join(join("outputs", name), "value"), { contexts: CONTEXTS.actionStep, inputs });
+  }
+
+  return checker.findings;
+}
+
+/** One-line description of a finding, prefixed with the file it was found in */
+export function formatFinding(file: string, finding: ValidationFinding): string {
+  return `${file}${finding.path ? ` (${finding.path})` : ""}: ${finding.message}`;
+}
@@ -2,12 +2,27 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import * as github from "../services/github-api.js";
 import * as ado from "../services/ado-api.js";
+import * as bbs from "../services/bbs-api.js";
 import * as state from "../services/state.js";
-import { checkPrerequisites, getGitHubSourcePAT, getADOPAT } from "../services/session.js";
+import { checkPrerequisites } from "../services/session.js";
 import { checkActionsImporterPrereqs } from "../services/docker.js";
 import * as actionsImporter from "../services/actions-importer.js";
 import * as adoPipelines from "../services/ado-pipelines.js";
 import * as workflowCopy from "../services/workflow-copy.js";
+import * as repoMigration from "../services/repo-migration.js";
+import * as batchQueue from "../services/batch-queue.js";
+import * as mannequins from "../services/mannequins.js";
+import * as migrationLog from "../services/migration-log.js";
+import * as wavePlanner from "../services/wave-planner.js";
+import * as readiness from "../services/readiness.js";
+import * as migrationValidation from "../services/migration-validation.js";
+import * as sourceCutover from "../services/source-cutover.js";
+import * as pipelineRewire from "../services/pipeline-rewire.js";
+import * as boardsIntegration from "../services/boards-integration.js";
+import * as branchPolicies from "../services/branch-policies.js";
+import * as variableMigration from "../services/variable-migration.js";
+import * as serviceConnections from "../services/service-connections.js";
+import * as taskMappings from "../services/task-mappings.js";
 
 // Type for the extra context the MCP SDK passes to tool callbacks
 interface ToolExtra {
@@ -45,15 +60,32 @@ export function registerTools(server: McpServer): void {
   // List source repositories
   server.tool(
     "list_source_repos",
-    "List repositories from a source organization (GitHub or Azure DevOps)",
+    "List repositories from a source organization (GitHub, Azure DevOps or Bitbucket Server)",
     {
-      source: z.enum(["github", "ado"]).describe("Source platform"),
-      org: z.string().describe("Organization name"),
-      project: z.string().optional().describe("ADO project name (optional, for ADO only)")
+      source: z.enum(["github", "ado", "bbs"]).describe("Source platform"),
+      org: z.string().describe("Organization name (Bitbucket Server base URL for bbs)"),
+      project: z.string().optional().describe("ADO project name or Bitbucket project key (optional, for ADO/BBS only)"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES")
     },
-    async ({ source, org, project }, extra: ToolExtra) => {
-      if (source === "github") {
-        const repos = await github.getRepos(org, extra.sessionId);
+    async ({ source, org, project, ghesApiUrl }, extra: ToolExtra) => {
+      if (source === "bbs") {
+        const repos = await bbs.getRepos(org, project, extra.sessionId);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              count: repos.length,
+              repositories: repos.map(r => ({
+                name: r.slug,
+                displayName: r.name,
+                project: r.project.key,
+                archived: !!r.archived
+              }))
+            }, null, 2)
+          }]
+        };
+      } else if (source === "github") {
+        const repos = await github.getRepos(org, ghesApiUrl, extra.sessionId);
         return {
           content: [{
             type: "text",
@@ -94,10 +126,11 @@ export function registerTools(server: McpServer): void {
     "inventory_github_org",
     "Get detailed inventory of a GitHub organization including all repos with metadata",
     {
-      org: z.string().describe("GitHub organization name")
+      org: z.string().describe("GitHub organization name"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES")
     },
-    async ({ org }, extra: ToolExtra) => {
-      const repos = await github.getReposDetailed(org, extra.sessionId);
+    async ({ org, ghesApiUrl }, extra: ToolExtra) => {
+      const repos = await github.getReposDetailed(org, ghesApiUrl, extra.sessionId);
       const totalSize = repos.reduce((sum, r) => sum + r.diskUsage, 0);
       const archived = repos.filter(r => r.isArchived).length;
       const forks = repos.filter(r => r.isFork).length;
@@ -149,6 +182,24 @@ export function registerTools(server: McpServer): void {
     }
   );
 
+  // Inventory Bitbucket Server
+  server.tool(
+    "inventory_bbs_server",
+    "Get detailed inventory of a Bitbucket Server / Data Center instance (projects, repos, sizes, last commit)",
+    {
+      serverUrl: z.string().describe("Bitbucket Server base URL (e.g. https://bitbucket.example.com)")
+    },
+    async ({ serverUrl }, extra: ToolExtra) => {
+      const inventory = await bbs.getDetailedInventory(serverUrl, extra.sessionId);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(inventory, null, 2)
+        }]
+      };
+    }
+  );
+
   // Find large repos
   server.tool(
     "find_large_repos",
@@ -156,11 +207,12 @@ export function registerTools(server: McpServer): void {
     {
       source: z.enum(["github", "ado"]).describe("Source platform"),
       org: z.string().describe("Organization name"),
-      thresholdMB: z.number().default(1000).describe("Size threshold in MB")
+      thresholdMB: z.number().default(1000).describe("Size threshold in MB"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES")
     },
-    async ({ source, org, thresholdMB }, extra: ToolExtra) => {
+    async ({ source, org, thresholdMB, ghesApiUrl }, extra: ToolExtra) => {
       if (source === "github") {
-        const repos = await github.getReposDetailed(org, extra.sessionId);
+        const repos = await github.getReposDetailed(org, ghesApiUrl, extra.sessionId);
         const large = repos
           .filter(r => r.diskUsage / 1024 > thresholdMB)
           .sort((a, b) => b.diskUsage - a.diskUsage);
@@ -208,14 +260,15 @@ export function registerTools(server: McpServer): void {
     {
       source: z.enum(["github", "ado"]).describe("Source platform"),
       org: z.string().describe("Organization name"),
-      daysInactive: z.number().default(365).describe("Days since last activity")
+      daysInactive: z.number().default(365).describe("Days since last activity"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES")
     },
-    async ({ source, org, daysInactive }, extra: ToolExtra) => {
+    async ({ source, org, daysInactive, ghesApiUrl }, extra: ToolExtra) => {
       const cutoff = new Date();
       cutoff.setDate(cutoff.getDate() - daysInactive);
       
       if (source === "github") {
-        const repos = await github.getReposDetailed(org, extra.sessionId);
+        const repos = await github.getReposDetailed(org, ghesApiUrl, extra.sessionId);
         const stale = repos
           .filter(r => new Date(r.pushedAt) < cutoff)
           .sort((a, b) => new Date(a.pushedAt).getTime() - new Date(b.pushedAt).getTime());
@@ -256,116 +309,106 @@ export function registerTools(server: McpServer): void {
     }
   );
 
+  // Pre-migration readiness checks
+  server.tool(
+    "check_migration_readiness",
+    "Check repositories for issues GEI will reject or silently drop before migrating: files over 400 MB, archives over 40 GB, Git LFS usage, disabled ADO repos, open pull requests and existing target repos. Returns blocking/warning findings per repo.",
+    {
+      source: z.enum(["github", "ado"]).describe("Source platform"),
+      sourceOrg: z.string().describe("Source organization name"),
+      repos: z.array(z.string()).min(1).describe("Repository names to check"),
+      targetOrg: z.string().describe("Target GitHub organization"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com). Defaults to the X-GitHub-Target-Host header, then github.com"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES"),
+      adoProject: z.string().optional().describe("ADO project name (required for ADO source)")
+    },
+    async ({ source, sourceOrg, repos, targetOrg, targetHost, ghesApiUrl, adoProject }, extra: ToolExtra) => {
+      const results: readiness.RepoReadiness[] = [];
+      for (const repoName of repos) {
+        results.push(await readiness.checkRepoReadiness(
+          { source, sourceOrg, repoName, targetOrg, targetHost, ghesApiUrl, adoProject },
+          extra.sessionId
+        ));
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            summary: {
+              total: results.length,
+              ready: results.filter(r => r.ready).length,
+              blocked: results.filter(r => !r.ready).length,
+              withWarnings: results.filter(r => r.findings.some(f => f.severity === "warning")).length
+            },
+            results
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
   // Migrate repository
   server.tool(
     "migrate_repo",
     "Start a migration for a single repository. IMPORTANT: Always ask the user if they want to include pipeline migration (set includePipelineMigration=true) before starting the migration.",
     {
-      source: z.enum(["github", "ado"]).describe("Source platform"),
-      sourceOrg: z.string().describe("Source organization name"),
-      repoName: z.string().describe("Repository name to migrate"),
+      source: z.enum(["github", "ado", "bbs"]).describe("Source platform"),
+      sourceOrg: z.string().describe("Source organization name (Bitbucket Server base URL for bbs)"),
+      repoName: z.string().describe("Repository name to migrate (repo slug for bbs)"),
       targetOrg: z.string().describe("Target GitHub organization"),
       targetRepoName: z.string().optional().describe("New repository name (defaults to same name)"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com). Defaults to the X-GitHub-Target-Host header, then github.com"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES"),
       adoProject: z.string().optional().describe("ADO project name (required for ADO source)"),
+      bbsProject: z.string().optional().describe("Bitbucket project key (required for bbs source)"),
+      archiveUrl: z.string().optional().describe("URL of the Bitbucket export archive uploaded to blob storage (required for bbs source; see bbs_export_archive)"),
       includePipelineMigration: z.boolean().default(false).describe("When true, automatically migrates pipelines after repo migration completes. For ADO: converts ADO pipelines to GitHub Actions and creates PRs. For GitHub: copies existing workflow files."),
-      enableAiReview: z.boolean().default(false).describe("Enable AI validation of converted pipelines (only applies when includePipelineMigration=true and source is ADO)")
+      enableAiReview: z.boolean().default(false).describe("Enable AI validation of converted pipelines (only applies when includePipelineMigration=true and source is ADO)"),
+      blockOnReadiness: z.boolean().default(false).describe("Run the check_migration_readiness checks first and refuse to start if any blocking findings exist"),
+      lockSource: z.boolean().default(false).describe("Lock the source repo for cutover: GEI lock for github.com, locked export for GHES, read-only permissions for ADO. Recorded so it can be undone with undo_source_cutover")
     },
-    async ({ source, sourceOrg, repoName, targetOrg, targetRepoName, adoProject, includePipelineMigration, enableAiReview }, extra: ToolExtra) => {
-      const finalRepoName = targetRepoName || repoName;
-      
-      // Get target org ID
-      const targetOrgId = await github.getOrganizationId(targetOrg, extra.sessionId);
-      
-      // Build source URL
-      let sourceOrgUrl: string;
-      let sourceRepoUrl: string;
-      let migrationSourceType: "GITHUB_ARCHIVE" | "AZURE_DEVOPS";
-      let accessToken: string;
-      
-      if (source === "github") {
-        // Migration source URL should be just the base URL, matching gh-gei CLI behavior.
-        sourceOrgUrl = `https://github.com`;
-        sourceRepoUrl = `https://github.com/${sourceOrg}/${repoName}`;
-        migrationSourceType = "GITHUB_ARCHIVE";
-        accessToken = getGitHubSourcePAT(extra.sessionId);
-      } else {
-        if (!adoProject) {
-          throw new Error("adoProject is required for Azure DevOps migrations");
-        }
-        // Migration source URL should be just the base ADO URL, not including the org name.
-        // The org-specific info is conveyed via sourceRepoUrl in startRepositoryMigration.
-        // This matches how gh-gei CLI constructs it.
-        sourceOrgUrl = `https://dev.azure.com`;
-        sourceRepoUrl = `https://dev.azure.com/${encodeURIComponent(sourceOrg)}/${encodeURIComponent(adoProject)}/_git/${encodeURIComponent(repoName)}`;
-        migrationSourceType = "AZURE_DEVOPS";
-        accessToken = getADOPAT(extra.sessionId);
-      }
-      
-      // Check if we already have a migration source, otherwise create one
-      // Use a cache key that includes the source type to avoid collisions
-      const migrationSourceCacheKey = source === "ado" ? `ado:${sourceOrgUrl}` : sourceOrgUrl;
-      let migrationSourceId = state.getMigrationSource(migrationSourceCacheKey);
-      if (!migrationSourceId) {
-        migrationSourceId = await github.createMigrationSource(targetOrgId, sourceOrgUrl, migrationSourceType, extra.sessionId);
-        state.saveMigrationSource(migrationSourceCacheKey, migrationSourceId);
-      }
-      
-      // Start the migration (retry with fresh migration source if cached one is stale)
-      let migrationId: string;
-      try {
-        migrationId = await github.startRepositoryMigration(
-          sourceOrgUrl,
-          targetOrgId,
-          migrationSourceId,
-          sourceRepoUrl,
-          finalRepoName,
-          accessToken,
-          extra.sessionId
-        );
-      } catch (err: unknown) {
-        const msg = err instanceof Error ? err.message : String(err);
-        if (msg.includes("Migration source not found")) {
-          // Cached migration source expired — create a fresh one and retry
-          state.clearMigrationSource(migrationSourceCacheKey);
-          migrationSourceId = await github.createMigrationSource(targetOrgId, sourceOrgUrl, migrationSourceType, extra.sessionId);
-          state.saveMigrationSource(migrationSourceCacheKey, migrationSourceId);
-          migrationId = await github.startRepositoryMigration(
-            sourceOrgUrl,
-            targetOrgId,
-            migrationSourceId,
-            sourceRepoUrl,
-            finalRepoName,
-            accessToken,
-            extra.sessionId
-          );
-        } else {
-          throw err;
+    async ({ source, sourceOrg, repoName, targetOrg, targetRepoName, targetHost, ghesApiUrl, adoProject, bbsProject, archiveUrl, includePipelineMigration, enableAiReview, blockOnReadiness, lockSource }, extra: ToolExtra) => {
+      const request: repoMigration.RepoMigrationRequest = {
+        source, sourceOrg, repoName, targetOrg, targetRepoName, targetHost, ghesApiUrl, adoProject, bbsProject, archiveUrl, lockSource
+      };
+
+      if (blockOnReadiness) {
+        const check = await readiness.checkRepoReadiness(request, extra.sessionId);
+        if (!check.ready) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                message: `Migration of ${repoName} not started: readiness checks found blocking issues`,
+                findings: check.findings
+              }, null, 2)
+            }]
+          };
         }
       }
-      
-      // Record the migration
-      state.addActiveMigration({
-        id: migrationId,
-        sourceOrg,
-        targetOrg,
-        repoName: finalRepoName,
-        state: "QUEUED",
-        startedAt: new Date().toISOString(),
-        source
-      });
-
-      // ── If pipeline migration is NOT requested, return immediately ──
-      if (!includePipelineMigration) {
+
+      const { migrationId, targetRepoName: finalRepoName, targetRepoUrl } = await repoMigration.startRepoMigration(
+        request,
+        extra.sessionId
+      );
+
+      // ── If pipeline migration is NOT requested (or not applicable), return immediately ──
+      if (!includePipelineMigration || source === "bbs") {
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
               success: true,
               migrationId,
+              targetRepoUrl,
               message: `Migration started for ${repoName} -> ${targetOrg}/${finalRepoName}`,
               checkStatus: `Use get_migration_status with migrationId: ${migrationId}`,
               nextStep: source === "ado"
                 ? "After migration completes, use actions_importer_audit or actions_importer_migrate to import ADO pipelines as GitHub Actions workflows."
+                : source === "bbs"
+                ? "Pipeline migration is not available for Bitbucket Server sources. After migration completes, reclaim mannequins with generate_mannequin_csv."
                 : "After migration completes, use copy_workflows to copy GitHub Actions workflows from the source repo."
             }, null, 2)
           }]
@@ -378,7 +421,7 @@ export function registerTools(server: McpServer): void {
       let migrationSucceeded = false;
 
       while (Date.now() - startTime < timeoutMs) {
-        const status = await github.getMigrationStatus(migrationId, extra.sessionId);
+        const status = await github.getMigrationStatus(migrationId, targetHost, extra.sessionId);
         state.updateMigrationState(migrationId, status.state);
 
         if (status.state === "SUCCEEDED") {
@@ -417,11 +460,10 @@ export function registerTools(server: McpServer): void {
       }
 
       const migrationDuration = Math.round((Date.now() - startTime) / 1000);
-      const targetRepoUrl = `https://github.com/${targetOrg}/${finalRepoName}`;
 
       // ── ADO source: convert ADO pipelines to GitHub Actions ──
       if (source === "ado") {
-        const audit = await actionsImporter.auditAdo(sourceOrg, adoProject!, extra.sessionId);
+        const audit = await actionsImporter.auditAdo(sourceOrg, adoProject!, undefined, extra.sessionId);
         const convertible = audit.entries.filter(
           e => e.conversionStatus === "supported" || e.conversionStatus === "partial"
         );
@@ -503,7 +545,7 @@ export function registerTools(server: McpServer): void {
       }
 
       // ── GitHub source: copy existing workflows ──
-      const copyResult = await workflowCopy.copyWorkflows(sourceOrg, repoName, targetOrg, finalRepoName, extra.sessionId);
+      const copyResult = await workflowCopy.copyWorkflows(sourceOrg, repoName, targetOrg, finalRepoName, ghesApiUrl, targetHost, extra.sessionId);
 
       return {
         content: [{
@@ -526,219 +568,807 @@ export function registerTools(server: McpServer): void {
     }
   );
 
-  // Get migration status
+  // Migrate a batch of repositories through the persistent queue
   server.tool(
-    "get_migration_status",
-    "Check the status of a specific migration",
+    "migrate_repos_batch",
+    "Enqueue many repositories for migration and run them with a concurrency limit. Select repos by explicit list or by filtering the source inventory. Each repo's result is tracked individually; the queue is persisted and can be resumed after a server restart.",
     {
-      migrationId: z.string().describe("The migration ID to check")
+      source: z.enum(["github", "ado"]).describe("Source platform"),
+      sourceOrg: z.string().describe("Source organization name"),
+      targetOrg: z.string().describe("Target GitHub organization"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com). Defaults to the X-GitHub-Target-Host header, then github.com"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES"),
+      repos: z.array(z.string()).optional().describe("Explicit list of repository names to migrate (omit to use filter)"),
+      adoProject: z.string().optional().describe("ADO project for the repos in 'repos' (required for ADO source with an explicit list)"),
+      filter: z.object({
+        excludeArchived: z.boolean().default(true).describe("Exclude archived repos (GitHub only)"),
+        excludeForks: z.boolean().default(false).describe("Exclude forks (GitHub only)"),
+        minSizeMB: z.number().optional().describe("Minimum repo size in MB"),
+        maxSizeMB: z.number().optional().describe("Maximum repo size in MB"),
+        activeWithinDays: z.number().optional().describe("Only repos with activity in the last N days"),
+        namePattern: z.string().optional().describe("Regular expression matched against the repo name"),
+        adoProject: z.string().optional().describe("Restrict to a single ADO project")
+      }).optional().describe("Inventory filter used when 'repos' is not given"),
+      maxConcurrent: z.number().int().min(1).default(5).describe("Maximum migrations in flight at once"),
+      waitMinutes: z.number().default(0).describe("Minutes to wait for the batch before returning (0 = return immediately)")
     },
-    async ({ migrationId }, extra: ToolExtra) => {
-      const status = await github.getMigrationStatus(migrationId, extra.sessionId);
-      state.updateMigrationState(migrationId, status.state);
-      
+    async ({ source, sourceOrg, targetOrg, targetHost, ghesApiUrl, repos, adoProject, filter, maxConcurrent, waitMinutes }, extra: ToolExtra) => {
+      let selected: batchQueue.BatchRepo[];
+      if (repos && repos.length > 0) {
+        if (source === "ado" && !adoProject) {
+          throw new Error("adoProject is required for Azure DevOps migrations");
+        }
+        selected = repos.map(repoName => ({ repoName, adoProject }));
+      } else {
+        selected = await batchQueue.selectReposFromInventory(source, sourceOrg, filter ?? { excludeArchived: true }, ghesApiUrl, extra.sessionId);
+      }
+
+      if (selected.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ success: false, message: "No repositories matched the selection." }, null, 2)
+          }]
+        };
+      }
+
+      // Resolve the target host now so a resumed batch doesn't depend on the session that created it
+      const resolvedHost = github.resolveTargetHost(targetHost, extra.sessionId);
+      const batch = batchQueue.createBatch(
+        source, sourceOrg, targetOrg, selected, maxConcurrent, ghesApiUrl,
+        resolvedHost === github.GITHUB_HOST ? undefined : resolvedHost
+      );
+      const driver = batchQueue.runBatch(batch.id, extra.sessionId);
+      if (waitMinutes > 0) {
+        await Promise.race([driver, new Promise(resolve => setTimeout(resolve, waitMinutes * 60 * 1000))]);
+      }
+
+      const summary = batchQueue.getBatchSummary(batch.id);
       return {
         content: [{
           type: "text",
-          text: JSON.stringify(status, null, 2)
+          text: JSON.stringify({
+            success: true,
+            batchId: batch.id,
+            message: `Enqueued ${selected.length} repositories (max ${maxConcurrent} concurrent)`,
+            counts: summary.counts,
+            results: summary.items,
+            checkStatus: `Use get_batch_status with batchId: ${batch.id}`
+          }, null, 2)
         }]
       };
     }
   );
 
-  // List active migrations
+  // Get batch status
   server.tool(
-    "list_active_migrations",
-    "List all currently active migrations",
-    {},
-    async (_, extra: ToolExtra) => {
-      const active = state.getActiveMigrations();
-      
-      // Update statuses
-      const updated = await Promise.all(
-        active.map(async (m) => {
-          try {
-            const status = await github.getMigrationStatus(m.id, extra.sessionId);
-            state.updateMigrationState(m.id, status.state);
-            return { ...m, state: status.state };
-          } catch {
-            return m;
-          }
-        })
-      );
-      
+    "get_batch_status",
+    "Get per-repository results for a batch migration (or list all batches when batchId is omitted)",
+    {
+      batchId: z.string().optional().describe("The batch ID to check")
+    },
+    async ({ batchId }) => {
+      if (!batchId) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              batches: state.getBatches().map(b => ({
+                ...b,
+                counts: batchQueue.getBatchSummary(b.id).counts
+              }))
+            }, null, 2)
+          }]
+        };
+      }
+
       return {
         content: [{
           type: "text",
-          text: JSON.stringify({
-            count: updated.length,
-            migrations: updated
-          }, null, 2)
+          text: JSON.stringify(batchQueue.getBatchSummary(batchId), null, 2)
         }]
       };
     }
   );
 
-  // Wait for migration
+  // Resume batch migrations
   server.tool(
-    "wait_for_migration",
-    "Wait for a migration to complete (polls status)",
+    "resume_migration_batch",
+    "Resume a batch migration queue (e.g. after a server restart). Omit batchId to resume every unfinished batch.",
     {
-      migrationId: z.string().describe("The migration ID to wait for"),
-      timeoutMinutes: z.number().default(30).describe("Maximum minutes to wait")
+      batchId: z.string().optional().describe("The batch ID to resume")
     },
-    async ({ migrationId, timeoutMinutes }, extra: ToolExtra) => {
-      const startTime = Date.now();
-      const timeoutMs = timeoutMinutes * 60 * 1000;
-      
-      while (Date.now() - startTime < timeoutMs) {
-        const status = await github.getMigrationStatus(migrationId, extra.sessionId);
-        state.updateMigrationState(migrationId, status.state);
-        
-        if (["SUCCEEDED", "FAILED", "FAILED_VALIDATION"].includes(status.state)) {
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                completed: true,
-                status,
-                duration: `${Math.round((Date.now() - startTime) / 1000)} seconds`
-              }, null, 2)
-            }]
-          };
-        }
-        
-        // Wait 10 seconds between checks
-        await new Promise(resolve => setTimeout(resolve, 10000));
+    async ({ batchId }, extra: ToolExtra) => {
+      let resumed: string[];
+      if (batchId) {
+        batchQueue.runBatch(batchId, extra.sessionId);
+        resumed = [batchId];
+      } else {
+        resumed = batchQueue.resumeBatches(extra.sessionId);
       }
-      
+
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            completed: false,
-            message: `Timeout after ${timeoutMinutes} minutes. Migration still in progress.`,
-            migrationId
+            success: true,
+            resumed,
+            message: resumed.length > 0
+              ? `Resumed ${resumed.length} batch(es)`
+              : "No unfinished batches to resume"
           }, null, 2)
         }]
       };
     }
   );
 
-  // Abort migration
+  // Plan migration waves from the source inventory
   server.tool(
-    "abort_migration",
-    "Abort an in-progress migration",
+    "plan_migration_waves",
+    "Turn a source inventory into an ordered, named set of migration waves grouped by size, last activity and ADO project/team. Stale repos go first, then active repos, then large repos; a team's repos stay together in the latest of those tiers any of them falls into. The plan is saved so waves can be launched with launch_migration_wave.",
     {
-      migrationId: z.string().describe("The migration ID to abort")
+      planName: z.string().describe("Name to save the plan under (replaces an existing plan with the same name)"),
+      source: z.enum(["github", "ado"]).describe("Source platform"),
+      sourceOrg: z.string().describe("Source organization name"),
+      targetOrg: z.string().optional().describe("Target GitHub organization (can also be given when launching a wave)"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES"),
+      maxWaveSize: z.number().int().min(1).default(20).describe("Maximum repositories per wave"),
+      maxWaveSizeMB: z.number().optional().describe("Maximum combined repository size per wave in MB"),
+      groupBy: z.enum(["none", "project"]).default("none").describe("Keep repos from the same ADO project together within each tier"),
+      teams: z.record(z.string(), z.array(z.string())).optional().describe("Team name → repository names; each team's repos are planned together, in consecutive waves of one tier"),
+      staleDays: z.number().default(365).describe("Repos with no activity for this many days are migrated first as low-risk"),
+      largeRepoMB: z.number().default(1000).describe("Repos at or above this size in MB are scheduled in the final waves"),
+      excludeArchived: z.boolean().default(true).describe("Exclude archived repos (GitHub only)")
     },
-    async ({ migrationId }, extra: ToolExtra) => {
-      await github.abortMigration(migrationId, extra.sessionId);
-      state.updateMigrationState(migrationId, "ABORTED");
-      
+    async ({ planName, source, sourceOrg, targetOrg, ghesApiUrl, maxWaveSize, maxWaveSizeMB, groupBy, teams, staleDays, largeRepoMB, excludeArchived }, extra: ToolExtra) => {
+      const plan = await wavePlanner.planMigrationWaves(
+        planName,
+        source,
+        sourceOrg,
+        { maxWaveSize, maxWaveSizeMB, groupBy, teams, staleDays, largeRepoMB, excludeArchived },
+        targetOrg,
+        ghesApiUrl,
+        extra.sessionId
+      );
+
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: `Migration ${migrationId} has been aborted`
+            planName: plan.name,
+            totalRepos: plan.waves.reduce((sum, w) => sum + w.repos.length, 0),
+            waves: wavePlanner.getWaveStatuses(plan),
+            nextStep: `Review with export_migration_plan, then start waves in order with launch_migration_wave (planName: ${plan.name})`
           }, null, 2)
         }]
       };
     }
   );
 
-  // Get migration history
+  // Export a saved wave plan
   server.tool(
-    "get_migration_history",
-    "Get history of completed migrations",
+    "export_migration_plan",
+    "Export a saved migration wave plan as CSV (one row per repo) or Markdown",
     {
-      limit: z.number().default(50).describe("Maximum number of records to return")
+      planName: z.string().describe("Name of the saved plan"),
+      format: z.enum(["csv", "markdown"]).default("markdown").describe("Export format")
     },
-    async ({ limit }, extra: ToolExtra) => {
-      const history = state.getMigrationHistory().slice(-limit);
-      
+    async ({ planName, format }) => {
+      const plan = state.getMigrationPlan(planName);
+      if (!plan) {
+        throw new Error(`Migration plan not found: ${planName}`);
+      }
+
       return {
         content: [{
           type: "text",
-          text: JSON.stringify({
-            count: history.length,
-            migrations: history
-          }, null, 2)
+          text: format === "csv" ? wavePlanner.planToCsv(plan) : wavePlanner.planToMarkdown(plan)
         }]
       };
     }
   );
 
-  // Grant migrator role
+  // Launch a planned wave
   server.tool(
-    "grant_migrator_role",
-    "Grant the migrator role to a user or team in the target organization",
+    "launch_migration_wave",
+    "Launch one wave of a saved migration plan as a batch migration. Track it with get_migration_plan or get_batch_status.",
     {
-      org: z.string().describe("Target organization name"),
-      actor: z.string().describe("Username or team name"),
-      actorType: z.enum(["USER", "TEAM"]).describe("Whether the actor is a user or team")
+      planName: z.string().describe("Name of the saved plan"),
+      waveName: z.string().describe("Wave to launch (e.g. wave-01)"),
+      targetOrg: z.string().optional().describe("Target GitHub organization (defaults to the plan's targetOrg)"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com). Defaults to the X-GitHub-Target-Host header, then github.com"),
+      maxConcurrent: z.number().int().min(1).default(5).describe("Maximum migrations in flight at once")
     },
-    async ({ org, actor, actorType }, extra: ToolExtra) => {
-      await github.grantMigratorRole(org, actor, actorType, extra.sessionId);
-      
+    async ({ planName, waveName, targetOrg, targetHost, maxConcurrent }, extra: ToolExtra) => {
+      const resolvedHost = github.resolveTargetHost(targetHost, extra.sessionId);
+      const batch = wavePlanner.launchWave(
+        planName,
+        waveName,
+        maxConcurrent,
+        targetOrg,
+        resolvedHost === github.GITHUB_HOST ? undefined : resolvedHost,
+        extra.sessionId
+      );
+
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: `Migrator role granted to ${actorType.toLowerCase()} '${actor}' in ${org}`
+            planName,
+            waveName,
+            batchId: batch.id,
+            message: `Launched ${waveName} of ${planName}`,
+            checkStatus: `Use get_migration_plan with planName: ${planName} or get_batch_status with batchId: ${batch.id}`
           }, null, 2)
         }]
       };
     }
   );
 
-  // ─── GitHub Actions Importer Tools (ADO → GitHub) ─────────────────────────
-
-  // List ADO pipelines
+  // Show saved wave plans and their progress
   server.tool(
-    "list_ado_pipelines",
-    "List all build and release pipelines in an Azure DevOps project",
+    "get_migration_plan",
+    "Show a saved migration wave plan with per-wave progress (or list all plans when planName is omitted)",
     {
-      adoOrg: z.string().describe("Azure DevOps organization name"),
-      adoProject: z.string().describe("Azure DevOps project name")
+      planName: z.string().optional().describe("Name of the saved plan")
     },
-    async ({ adoOrg, adoProject }, extra: ToolExtra) => {
-      const inventory = await adoPipelines.getPipelineInventory(adoOrg, adoProject, extra.sessionId);
+    async ({ planName }) => {
+      if (!planName) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              plans: state.getMigrationPlans().map(p => ({
+                name: p.name,
+                source: p.source,
+                sourceOrg: p.sourceOrg,
+                targetOrg: p.targetOrg,
+                createdAt: p.createdAt,
+                waves: p.waves.length,
+                launched: p.waves.filter(w => w.batchId).length
+              }))
+            }, null, 2)
+          }]
+        };
+      }
+
+      const plan = state.getMigrationPlan(planName);
+      if (!plan) {
+        throw new Error(`Migration plan not found: ${planName}`);
+      }
+
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            summary: inventory.summary,
-            buildPipelines: inventory.buildPipelines.map(p => ({
-              id: p.id,
-              name: p.name,
-              type: p.process?.type === 2 ? "yaml" : "classic",
-              yamlFile: p.process?.yamlFilename,
-              repository: p.repository?.name,
-            })),
-            releasePipelines: inventory.releasePipelines.map(p => ({
-              id: p.id,
-              name: p.name,
-              environments: p.environments.map(e => e.name),
-            })),
+            name: plan.name,
+            source: plan.source,
+            sourceOrg: plan.sourceOrg,
+            targetOrg: plan.targetOrg,
+            createdAt: plan.createdAt,
+            criteria: plan.criteria,
+            waves: wavePlanner.getWaveStatuses(plan)
           }, null, 2)
         }]
       };
     }
   );
 
-  // Audit ADO pipelines
+  // Get migration status
   server.tool(
-    "actions_importer_audit",
-    "Audit all pipelines in an Azure DevOps project and report conversion readiness for GitHub Actions (native API, no Docker required)",
+    "get_migration_status",
+    "Check the status of a specific migration",
     {
-      adoOrg: z.string().describe("Azure DevOps organization name"),
-      adoProject: z.string().describe("Azure DevOps project name")
+      migrationId: z.string().describe("The migration ID to check"),
+      targetHost: z.string().optional().describe("Target host for GHE.com tenants (defaults to the host the migration was started on)")
     },
-    async ({ adoOrg, adoProject }, extra: ToolExtra) => {
-      const result = await actionsImporter.auditAdo(adoOrg, adoProject, extra.sessionId);
+    async ({ migrationId, targetHost }, extra: ToolExtra) => {
+      const host = targetHost || state.getMigrationRecord(migrationId)?.targetHost;
+      const status = await github.getMigrationStatus(migrationId, host, extra.sessionId);
+      state.updateMigrationState(migrationId, status.state);
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(status, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Download and parse migration log
+  server.tool(
+    "get_migration_log",
+    "Download the GEI migration log for a finished migration, store it under ~/.gei-mcp/logs and return structured warnings (skipped PR comments, truncated attachments, failed releases)",
+    {
+      migrationId: z.string().describe("The migration ID whose log to fetch"),
+      targetHost: z.string().optional().describe("Target host for GHE.com tenants (defaults to the host the migration was started on)")
+    },
+    async ({ migrationId, targetHost }, extra: ToolExtra) => {
+      const result = await migrationLog.fetchMigrationLog(migrationId, targetHost, extra.sessionId);
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Validate a finished migration
+  server.tool(
+    "validate_migration",
+    "Compare branches, tags, default-branch commits, pull requests, issues and releases between the source and the migrated target repo. Pass a migrationId (the report is stored with the migration record) or explicit source/target coordinates.",
+    {
+      migrationId: z.string().optional().describe("Migration ID to validate (coordinates are taken from the migration record)"),
+      source: z.enum(["github", "ado"]).optional().describe("Source platform (when not using migrationId)"),
+      sourceOrg: z.string().optional().describe("Source organization name"),
+      sourceRepo: z.string().optional().describe("Source repository name"),
+      adoProject: z.string().optional().describe("ADO project name (required for ADO source)"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES"),
+      targetOrg: z.string().optional().describe("Target GitHub organization"),
+      targetRepo: z.string().optional().describe("Target repository name (defaults to sourceRepo)"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com)")
+    },
+    async ({ migrationId, source, sourceOrg, sourceRepo, adoProject, ghesApiUrl, targetOrg, targetRepo, targetHost }, extra: ToolExtra) => {
+      let target: migrationValidation.ValidationTarget;
+      if (migrationId) {
+        const record = state.getMigrationRecord(migrationId);
+        if (!record) {
+          throw new Error(`Migration not found in history: ${migrationId}`);
+        }
+        target = migrationValidation.targetFromRecord(record);
+      } else {
+        if (!source || !sourceOrg || !sourceRepo || !targetOrg) {
+          throw new Error("Provide migrationId, or source, sourceOrg, sourceRepo and targetOrg");
+        }
+        target = {
+          source,
+          sourceOrg,
+          sourceRepo,
+          adoProject,
+          ghesApiUrl,
+          targetOrg,
+          targetRepo: targetRepo || sourceRepo,
+          targetHost
+        };
+      }
+
+      const report = await migrationValidation.validateMigration(target, migrationId, extra.sessionId);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            ...report,
+            message: report.passed
+              ? `Validation passed: ${report.target} matches ${report.source}`
+              : `Validation found ${report.discrepancies.length} discrepancy(ies) between ${report.source} and ${report.target}`
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Archive the source repo after cutover
+  server.tool(
+    "archive_source_repo",
+    "Archive the source repository of a finished migration (GitHub/GHES: archive; ADO: disable). Requires a passing validate_migration report unless requireValidation is false. Recorded so it can be undone with undo_source_cutover.",
+    {
+      migrationId: z.string().describe("The migration whose source repo to archive"),
+      requireValidation: z.boolean().default(true).describe("Refuse unless the migration has a passing validation report")
+    },
+    async ({ migrationId, requireValidation }, extra: ToolExtra) => {
+      const action = await sourceCutover.archiveSourceRepo(migrationId, requireValidation, extra.sessionId);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            migrationId,
+            action,
+            message: action.kind === "ado_disable" ? "Source repository disabled" : "Source repository archived"
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Undo source lock/archive
+  server.tool(
+    "undo_source_cutover",
+    "Reverse the source-side cutover actions recorded on a migration (unarchive, re-enable, unlock, restore ADO permissions)",
+    {
+      migrationId: z.string().describe("The migration whose source actions to undo")
+    },
+    async ({ migrationId }, extra: ToolExtra) => {
+      const results = await sourceCutover.undoSourceActions(migrationId, extra.sessionId);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: results.every(r => r.undone),
+            migrationId,
+            results,
+            message: results.length === 0 ? "No source actions to undo" : `Undid ${results.filter(r => r.undone).length} of ${results.length} action(s)`
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // List active migrations
+  server.tool(
+    "list_active_migrations",
+    "List all currently active migrations",
+    {},
+    async (_, extra: ToolExtra) => {
+      const active = state.getActiveMigrations();
+      
+      // Update statuses
+      const updated = await Promise.all(
+        active.map(async (m) => {
+          try {
+            const status = await github.getMigrationStatus(m.id, m.targetHost, extra.sessionId);
+            state.updateMigrationState(m.id, status.state);
+            return { ...m, state: status.state };
+          } catch {
+            return m;
+          }
+        })
+      );
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            count: updated.length,
+            migrations: updated
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Wait for migration
+  server.tool(
+    "wait_for_migration",
+    "Wait for a migration to complete (polls status)",
+    {
+      migrationId: z.string().describe("The migration ID to wait for"),
+      timeoutMinutes: z.number().default(30).describe("Maximum minutes to wait"),
+      targetHost: z.string().optional().describe("Target host for GHE.com tenants (defaults to the host the migration was started on)")
+    },
+    async ({ migrationId, timeoutMinutes, targetHost }, extra: ToolExtra) => {
+      const startTime = Date.now();
+      const timeoutMs = timeoutMinutes * 60 * 1000;
+      const host = targetHost || state.getMigrationRecord(migrationId)?.targetHost;
+      
+      while (Date.now() - startTime < timeoutMs) {
+        const status = await github.getMigrationStatus(migrationId, host, extra.sessionId);
+        state.updateMigrationState(migrationId, status.state);
+        
+        if (["SUCCEEDED", "FAILED", "FAILED_VALIDATION"].includes(status.state)) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                completed: true,
+                status,
+                duration: `${Math.round((Date.now() - startTime) / 1000)} seconds`
+              }, null, 2)
+            }]
+          };
+        }
+        
+        // Wait 10 seconds between checks
+        await new Promise(resolve => setTimeout(resolve, 10000));
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            completed: false,
+            message: `Timeout after ${timeoutMinutes} minutes. Migration still in progress.`,
+            migrationId
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Abort migration
+  server.tool(
+    "abort_migration",
+    "Abort an in-progress migration",
+    {
+      migrationId: z.string().describe("The migration ID to abort"),
+      targetHost: z.string().optional().describe("Target host for GHE.com tenants (defaults to the host the migration was started on)")
+    },
+    async ({ migrationId, targetHost }, extra: ToolExtra) => {
+      const host = targetHost || state.getMigrationRecord(migrationId)?.targetHost;
+      await github.abortMigration(migrationId, host, extra.sessionId);
+      state.updateMigrationState(migrationId, "ABORTED");
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: `Migration ${migrationId} has been aborted`
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Get migration history
+  server.tool(
+    "get_migration_history",
+    "Get history of completed migrations",
+    {
+      limit: z.number().default(50).describe("Maximum number of records to return")
+    },
+    async ({ limit }, extra: ToolExtra) => {
+      const history = state.getMigrationHistory().slice(-limit);
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            count: history.length,
+            migrations: history
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Grant migrator role
+  server.tool(
+    "grant_migrator_role",
+    "Grant the migrator role to a user or team in the target organization",
+    {
+      org: z.string().describe("Target organization name"),
+      actor: z.string().describe("Username or team name"),
+      actorType: z.enum(["USER", "TEAM"]).describe("Whether the actor is a user or team")
+    },
+    async ({ org, actor, actorType }, extra: ToolExtra) => {
+      await github.grantMigratorRole(org, actor, actorType, extra.sessionId);
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: `Migrator role granted to ${actorType.toLowerCase()} '${actor}' in ${org}`
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // ─── Bitbucket Server Export Tools ──────────────────────────────────────────
+
+  // Trigger a Bitbucket Server export archive
+  server.tool(
+    "bbs_export_archive",
+    "Trigger a Bitbucket Server migration export for a repository. The archive is written to the server's shared home and must be uploaded to blob storage before calling migrate_repo with source=bbs and archiveUrl.",
+    {
+      serverUrl: z.string().describe("Bitbucket Server base URL"),
+      projectKey: z.string().describe("Bitbucket project key"),
+      repoSlug: z.string().describe("Repository slug"),
+      waitMinutes: z.number().default(0).describe("Minutes to wait for the export to finish (0 = return immediately)")
+    },
+    async ({ serverUrl, projectKey, repoSlug, waitMinutes }, extra: ToolExtra) => {
+      let exportJob = await bbs.startExport(serverUrl, projectKey, repoSlug, extra.sessionId);
+      const startTime = Date.now();
+      
+      while (
+        Date.now() - startTime < waitMinutes * 60 * 1000 &&
+        !["COMPLETED", "FAILED", "ABORTED"].includes(exportJob.state)
+      ) {
+        await new Promise(resolve => setTimeout(resolve, 10000));
+        exportJob = await bbs.getExport(serverUrl, exportJob.id, extra.sessionId);
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            exportId: exportJob.id,
+            state: exportJob.state,
+            progress: exportJob.progress,
+            archivePath: `$BITBUCKET_SHARED_HOME/${bbs.exportArchivePath(exportJob.id)}`,
+            nextStep: exportJob.state === "COMPLETED"
+              ? "Copy the archive from the Bitbucket server, upload it to Azure Blob Storage or S3, then call migrate_repo with source=bbs and archiveUrl set to a SAS/pre-signed URL."
+              : `Use get_bbs_export_status with exportId: ${exportJob.id}`
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Check a Bitbucket Server export
+  server.tool(
+    "get_bbs_export_status",
+    "Check the status of a Bitbucket Server migration export",
+    {
+      serverUrl: z.string().describe("Bitbucket Server base URL"),
+      exportId: z.number().describe("Export ID returned by bbs_export_archive")
+    },
+    async ({ serverUrl, exportId }, extra: ToolExtra) => {
+      const exportJob = await bbs.getExport(serverUrl, exportId, extra.sessionId);
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            ...exportJob,
+            archivePath: `$BITBUCKET_SHARED_HOME/${bbs.exportArchivePath(exportJob.id)}`
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // ─── Mannequin Reclaim Tools ────────────────────────────────────────────────
+
+  // List mannequins
+  server.tool(
+    "list_mannequins",
+    "List mannequin (placeholder) users created by migrations in the target organization",
+    {
+      org: z.string().describe("Target GitHub organization"),
+      includeClaimed: z.boolean().default(false).describe("Include mannequins that have already been claimed")
+    },
+    async ({ org, includeClaimed }, extra: ToolExtra) => {
+      const all = await github.getMannequins(org, extra.sessionId);
+      const listed = includeClaimed ? all : all.filter(m => !m.claimant);
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            count: listed.length,
+            unclaimed: all.filter(m => !m.claimant).length,
+            mannequins: listed.map(m => ({
+              id: m.id,
+              login: m.login,
+              email: m.email,
+              createdAt: m.createdAt,
+              claimedBy: m.claimant?.login
+            }))
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Generate mannequin mapping CSV
+  server.tool(
+    "generate_mannequin_csv",
+    "Generate a CSV mapping template (mannequin-user,mannequin-id,target-user) for the mannequins in an organization. Fill in target-user and pass the CSV to reclaim_mannequins.",
+    {
+      org: z.string().describe("Target GitHub organization"),
+      includeClaimed: z.boolean().default(false).describe("Include mannequins that have already been claimed")
+    },
+    async ({ org, includeClaimed }, extra: ToolExtra) => {
+      const all = await github.getMannequins(org, extra.sessionId);
+      
+      return {
+        content: [{
+          type: "text",
+          text: mannequins.generateMappingCsv(all, includeClaimed)
+        }]
+      };
+    }
+  );
+
+  // Reclaim mannequins from CSV
+  server.tool(
+    "reclaim_mannequins",
+    "Bulk-reclaim mannequins from an edited mapping CSV. Sends attribution invitations by default; skipInvitation reattributes immediately (requires enterprise owner and EMU).",
+    {
+      org: z.string().describe("Target GitHub organization"),
+      csv: z.string().describe("CSV content with header mannequin-user,mannequin-id,target-user"),
+      skipInvitation: z.boolean().default(false).describe("Reattribute directly instead of sending an invitation")
+    },
+    async ({ org, csv, skipInvitation }, extra: ToolExtra) => {
+      const results = await mannequins.reclaimMannequins(org, csv, skipInvitation, extra.sessionId);
+      const failed = results.filter(r => r.status === "failed").length;
+      const skipped = results.filter(r => r.status === "skipped").length;
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: failed === 0,
+            summary: `Processed ${results.length} mapping(s): ${results.length - failed - skipped} reclaimed, ${skipped} skipped, ${failed} failed`,
+            results
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Get reclaim status
+  server.tool(
+    "get_reclaim_status",
+    "Show tracked mannequin reclaims for an organization, refreshing which invitations have been accepted",
+    {
+      org: z.string().describe("Target GitHub organization")
+    },
+    async ({ org }, extra: ToolExtra) => {
+      const reclaims = await mannequins.refreshReclaimStatus(org, extra.sessionId);
+      const byStatus: Record<string, number> = {};
+      for (const r of reclaims) byStatus[r.status] = (byStatus[r.status] || 0) + 1;
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            count: reclaims.length,
+            byStatus,
+            reclaims
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // ─── GitHub Actions Importer Tools (ADO → GitHub) ─────────────────────────
+
+  // List ADO pipelines
+  server.tool(
+    "list_ado_pipelines",
+    "List all build and release pipelines in an Azure DevOps project",
+    {
+      adoOrg: z.string().describe("Azure DevOps organization name"),
+      adoProject: z.string().describe("Azure DevOps project name")
+    },
+    async ({ adoOrg, adoProject }, extra: ToolExtra) => {
+      const inventory = await adoPipelines.getPipelineInventory(adoOrg, adoProject, extra.sessionId);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            summary: inventory.summary,
+            buildPipelines: inventory.buildPipelines.map(p => ({
+              id: p.id,
+              name: p.name,
+              type: p.process?.type === 2 ? "yaml" : "classic",
+              yamlFile: p.process?.yamlFilename,
+              repository: p.repository?.name,
+            })),
+            releasePipelines: inventory.releasePipelines.map(p => ({
+              id: p.id,
+              name: p.name,
+              environments: p.environments.map(e => e.name),
+            })),
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Audit ADO pipelines
+  server.tool(
+    "actions_importer_audit",
+    "Audit all pipelines in an Azure DevOps project and report conversion readiness for GitHub Actions (native API, no Docker required)",
+    {
+      adoOrg: z.string().describe("Azure DevOps organization name"),
+      adoProject: z.string().describe("Azure DevOps project name"),
+      taskMappings: z.string().optional().describe("YAML or JSON custom task mappings (ADO task name/GUID and version → uses/run/with), checked before the built-in mappings and in addition to any loaded with load_task_mappings")
+    },
+    async ({ adoOrg, adoProject, taskMappings }, extra: ToolExtra) => {
+      const result = await actionsImporter.auditAdo(adoOrg, adoProject, taskMappings, extra.sessionId);
       return {
         content: [{
           type: "text",
@@ -779,10 +1409,12 @@ export function registerTools(server: McpServer): void {
       adoOrg: z.string().describe("Azure DevOps organization name"),
       adoProject: z.string().describe("Azure DevOps project name"),
       pipelineId: z.string().describe("The ADO pipeline ID to convert"),
-      pipelineType: z.enum(["pipeline", "release"]).default("pipeline").describe("Pipeline type: build (pipeline) or release")
+      pipelineType: z.enum(["pipeline", "release"]).default("pipeline").describe("Pipeline type: build (pipeline) or release"),
+      templateMode: z.enum(["inline", "shared"]).default("inline").describe("YAML pipelines: 'inline' copies templates into the workflow; 'shared' converts step templates to composite actions and job/stage templates to reusable workflows"),
+      taskMappings: z.string().optional().describe("YAML or JSON custom task mappings (ADO task name/GUID and version → uses/run/with), checked before the built-in mappings and in addition to any loaded with load_task_mappings")
     },
-    async ({ adoOrg, adoProject, pipelineId, pipelineType }, extra: ToolExtra) => {
-      const result = await actionsImporter.dryRunAdo(adoOrg, adoProject, pipelineId, pipelineType, extra.sessionId);
+    async ({ adoOrg, adoProject, pipelineId, pipelineType, templateMode, taskMappings }, extra: ToolExtra) => {
+      const result = await actionsImporter.dryRunAdo(adoOrg, adoProject, pipelineId, pipelineType, templateMode, taskMappings, extra.sessionId);
       return {
         content: [{
           type: "text",
@@ -790,10 +1422,14 @@ export function registerTools(server: McpServer): void {
             pipelineId: result.pipelineId,
             suggestedFilename: result.suggestedFilename,
             convertedWorkflow: result.workflowYaml,
+            ...(result.additionalFiles ? { additionalFiles: result.additionalFiles } : {}),
             warnings: result.warnings,
             unsupported: result.unsupported,
             manualSteps: result.manualSteps,
-            note: "This is a preview. Use actions_importer_migrate to create a PR with this workflow."
+            ...(result.validationErrors ? { validationErrors: result.validationErrors } : {}),
+            note: result.validationErrors
+              ? "This is a preview. The workflow has validation errors and actions_importer_migrate won't create a PR for it. Most come from ADO conditions or expressions that couldn't be translated and must be rewritten in the source pipeline; custom task mappings only fix errors in converted task steps. There is no override."
+              : "This is a preview. Use actions_importer_migrate to create a PR with this workflow."
           }, null, 2)
         }]
       };
@@ -808,12 +1444,18 @@ export function registerTools(server: McpServer): void {
       adoOrg: z.string().describe("Azure DevOps organization name"),
       adoProject: z.string().describe("Azure DevOps project name"),
       pipelineId: z.string().describe("The ADO pipeline ID to migrate"),
-      targetRepoUrl: z.string().describe("Target GitHub repo URL (e.g. https://github.com/org/repo)"),
+      targetRepoUrl: z.string().describe("Target GitHub repo URL (e.g. https://github.com/org/repo or https://octocorp.ghe.com/org/repo)"),
       pipelineType: z.enum(["pipeline", "release"]).default("pipeline").describe("Pipeline type: build (pipeline) or release"),
-      enableAiReview: z.boolean().default(false).describe("Enable AI validation of the converted workflow (uses MCP sampling)")
+      enableAiReview: z.boolean().default(false).describe("Enable AI validation of the converted workflow (uses MCP sampling)"),
+      createEnvironments: z.boolean().default(false).describe("Release pipelines only: create a GitHub Environment per stage with required reviewers, wait timer and deployment branch policy"),
+      userMappingCsv: z.string().optional().describe("CSV content with header ado-user,github-user mapping ADO approvers (unique name or display name) to GitHub logins or org/team-slug"),
+      templateMode: z.enum(["inline", "shared"]).default("inline").describe("YAML pipelines: 'inline' copies templates into the workflow; 'shared' converts step templates to composite actions and job/stage templates to reusable workflows"),
+      taskMappings: z.string().optional().describe("YAML or JSON custom task mappings (ADO task name/GUID and version → uses/run/with), checked before the built-in mappings and in addition to any loaded with load_task_mappings")
     },
-    async ({ adoOrg, adoProject, pipelineId, targetRepoUrl, pipelineType, enableAiReview }, extra: ToolExtra) => {
-      const result = await actionsImporter.migrateAdoPipeline(adoOrg, adoProject, pipelineId, targetRepoUrl, pipelineType, extra.sessionId, enableAiReview);
+    async ({ adoOrg, adoProject, pipelineId, targetRepoUrl, pipelineType, enableAiReview, createEnvironments, userMappingCsv, templateMode, taskMappings }, extra: ToolExtra) => {
+      const result = await actionsImporter.migrateAdoPipeline(
+        adoOrg, adoProject, pipelineId, targetRepoUrl, pipelineType, extra.sessionId, enableAiReview, createEnvironments, userMappingCsv, templateMode, taskMappings
+      );
       return {
         content: [{
           type: "text",
@@ -825,6 +1467,8 @@ export function registerTools(server: McpServer): void {
             warnings: result.warnings,
             unsupported: result.unsupported,
             manualSteps: result.manualSteps,
+            ...(result.environments ? { environments: result.environments } : {}),
+            ...(result.additionalFiles ? { additionalFiles: result.additionalFiles } : {}),
             ...(result.validationReport ? {
               aiReview: {
                 isCorrect: result.validationReport.isCorrect,
@@ -915,6 +1559,332 @@ export function registerTools(server: McpServer): void {
     }
   );
 
+  // ─── ADO Pipeline Rewire Tools ──────────────────────────────────────────────
+
+  // Rewire a single ADO pipeline to the migrated GitHub repo
+  server.tool(
+    "rewire_ado_pipeline",
+    "Point an existing ADO build pipeline at the migrated GitHub repository through a GitHub service connection (like gh ado2gh rewire-pipeline). The original repository is saved so the rewire can be reverted.",
+    {
+      adoOrg: z.string().describe("Azure DevOps organization name"),
+      adoProject: z.string().describe("Azure DevOps project name"),
+      pipelineId: z.number().int().describe("The ADO build definition ID"),
+      targetOrg: z.string().describe("GitHub organization the repo was migrated to"),
+      targetRepo: z.string().describe("GitHub repository name"),
+      serviceConnectionId: z.string().describe("ID of the GitHub service connection in the ADO project"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com). Defaults to the X-GitHub-Target-Host header, then github.com")
+    },
+    async ({ adoOrg, adoProject, pipelineId, targetOrg, targetRepo, serviceConnectionId, targetHost }, extra: ToolExtra) => {
+      const result = await pipelineRewire.rewirePipeline(
+        adoOrg, adoProject, pipelineId, targetOrg, targetRepo, serviceConnectionId, targetHost, extra.sessionId
+      );
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ success: result.status !== "failed", ...result }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Rewire all pipelines in a project
+  server.tool(
+    "rewire_ado_pipelines",
+    "Rewire every build pipeline in an ADO project that builds from Azure Repos to the matching migrated GitHub repository. Restrict to one ADO repo with adoRepo.",
+    {
+      adoOrg: z.string().describe("Azure DevOps organization name"),
+      adoProject: z.string().describe("Azure DevOps project name"),
+      targetOrg: z.string().describe("GitHub organization the repos were migrated to"),
+      serviceConnectionId: z.string().describe("ID of the GitHub service connection in the ADO project"),
+      adoRepo: z.string().optional().describe("Only rewire pipelines that build from this ADO repository"),
+      targetRepo: z.string().optional().describe("GitHub repo name for adoRepo (defaults to the same name)"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com). Defaults to the X-GitHub-Target-Host header, then github.com")
+    },
+    async ({ adoOrg, adoProject, targetOrg, serviceConnectionId, adoRepo, targetRepo, targetHost }, extra: ToolExtra) => {
+      const results = await pipelineRewire.rewirePipelines(
+        adoOrg, adoProject, targetOrg, serviceConnectionId, adoRepo, targetRepo, targetHost, extra.sessionId
+      );
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            summary: {
+              rewired: results.filter(r => r.status === "rewired").length,
+              skipped: results.filter(r => r.status === "skipped").length,
+              failed: results.filter(r => r.status === "failed").length
+            },
+            results
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Revert a rewire
+  server.tool(
+    "revert_pipeline_rewire",
+    "Point a rewired ADO build pipeline back at its original repository",
+    {
+      adoOrg: z.string().describe("Azure DevOps organization name"),
+      adoProject: z.string().describe("Azure DevOps project name"),
+      pipelineId: z.number().int().describe("The ADO build definition ID")
+    },
+    async ({ adoOrg, adoProject, pipelineId }, extra: ToolExtra) => {
+      const reverted = await pipelineRewire.revertRewire(adoOrg, adoProject, pipelineId, extra.sessionId);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: `Pipeline ${reverted.definitionName} (${pipelineId}) builds from its original repository again`,
+            rewire: reverted
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Connect migrated repos to Azure Boards
+  server.tool(
+    "integrate_boards",
+    "Connect migrated GitHub repos to Azure Boards in an ADO project (like gh ado2gh integrate-boards). Creates the Boards GitHub connection if needed. Repos default to successful migrations from that project in the migration history.",
+    {
+      adoOrg: z.string().describe("Azure DevOps organization name"),
+      adoProject: z.string().describe("Azure DevOps project that keeps using Boards"),
+      targetOrg: z.string().optional().describe("Only include repos migrated to this GitHub organization"),
+      repos: z.array(z.string()).optional().describe("Explicit GitHub repos as owner/repo (or repo names with targetOrg) instead of the migration history")
+    },
+    async ({ adoOrg, adoProject, targetOrg, repos }, extra: ToolExtra) => {
+      let selected: string[];
+      if (repos && repos.length > 0) {
+        selected = repos.map(r => {
+          if (r.includes("/")) return r;
+          if (!targetOrg) throw new Error(`Repo "${r}" needs an owner — use owner/repo or pass targetOrg`);
+          return `${targetOrg}/${r}`;
+        });
+      } else {
+        selected = boardsIntegration.migratedReposForProject(adoOrg, adoProject, targetOrg);
+      }
+
+      if (selected.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: false,
+              message: `No successful migrations from ${adoOrg}/${adoProject} found in history. Pass repos explicitly.`
+            }, null, 2)
+          }]
+        };
+      }
+
+      const result = await boardsIntegration.integrateBoards(adoOrg, adoProject, selected, extra.sessionId);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: result.failed.length === 0,
+            ...result,
+            message: `Added ${result.added.length} repo(s) to Azure Boards in ${adoProject}${result.connectionCreated ? " (new GitHub connection created)" : ""}`
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Translate ADO branch policies to GitHub rulesets
+  server.tool(
+    "migrate_branch_policies",
+    "Translate an Azure Repos repository's branch policies into GitHub repository rulesets on the migrated repo. Reviewer, comment-resolution and merge-strategy policies become pull request rules; build validation becomes required status checks named after the jobs of the converted workflow. Policies without an equivalent are reported as unmapped.",
+    {
+      adoOrg: z.string().describe("Azure DevOps organization name"),
+      adoProject: z.string().describe("Azure DevOps project name"),
+      adoRepo: z.string().describe("Azure Repos repository name"),
+      targetOrg: z.string().describe("GitHub organization of the migrated repo"),
+      targetRepo: z.string().optional().describe("Migrated GitHub repo name (defaults to adoRepo)"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com). Defaults to the X-GitHub-Target-Host header, then github.com"),
+      dryRun: z.boolean().default(false).describe("Return the rulesets that would be created without creating them")
+    },
+    async ({ adoOrg, adoProject, adoRepo, targetOrg, targetRepo, targetHost, dryRun }, extra: ToolExtra) => {
+      const result = await branchPolicies.migrateBranchPolicies(
+        adoOrg,
+        adoProject,
+        adoRepo,
+        targetOrg,
+        targetRepo || adoRepo,
+        dryRun,
+        targetHost,
+        extra.sessionId
+      );
+      const failed = result.rulesets.filter(r => r.status === "failed").length;
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: failed === 0,
+            ...result,
+            message: dryRun
+              ? `${result.rulesets.length} ruleset(s) planned, ${result.unmapped.length} policy setting(s) unmapped`
+              : `${result.rulesets.length - failed} ruleset(s) applied to ${result.target}, ${failed} failed, ${result.unmapped.length} policy setting(s) unmapped`
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Copy ADO variable groups and pipeline variables to GitHub Actions
+  server.tool(
+    "migrate_pipeline_variables",
+    "Create GitHub Actions variables and secrets from ADO variable groups and/or a pipeline's variables, at org, repo or environment scope. Names are upper-cased with non-alphanumerics replaced by _, matching the secrets.X names the pipeline converter emits; converted workflows read non-secret variables from env, so map the ones they use into the workflow env as ${{ vars.X }}. Non-secret values are copied; ADO never returns secret values, so the user is asked for them via elicitation and any left blank are created as placeholders.",
+    {
+      adoOrg: z.string().describe("Azure DevOps organization name"),
+      adoProject: z.string().describe("Azure DevOps project name"),
+      variableGroups: z.array(z.string()).optional().describe("Variable group names to migrate"),
+      definitionId: z.number().optional().describe("Build pipeline whose variables and linked variable groups should be migrated"),
+      scope: z.enum(["org", "repo", "environment"]).default("repo").describe("Where to create the variables and secrets"),
+      targetOrg: z.string().describe("Target GitHub organization"),
+      targetRepo: z.string().optional().describe("Target repo (required for repo and environment scope)"),
+      environment: z.string().optional().describe("Target environment (required for environment scope; created if missing)"),
+      visibility: z.enum(["all", "private"]).default("private").describe("For org scope: which repos can use the variables and secrets"),
+      overwrite: z.boolean().default(false).describe("Replace variables and secrets that already exist"),
+      promptForSecrets: z.boolean().default(true).describe("Ask the user for secret values (false creates placeholders only)"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com). Defaults to the X-GitHub-Target-Host header, then github.com")
+    },
+    async ({ adoOrg, adoProject, variableGroups, definitionId, scope, targetOrg, targetRepo, environment, visibility, overwrite, promptForSecrets, targetHost }, extra: ToolExtra) => {
+      if (!variableGroups?.length && definitionId === undefined) {
+        throw new Error("Pass variableGroups, definitionId, or both");
+      }
+
+      const canElicit = !!server.server.getClientCapabilities()?.elicitation;
+      const warnings: string[] = [];
+      if (promptForSecrets && !canElicit) {
+        warnings.push("The MCP client does not support elicitation — secrets were created as placeholders");
+      }
+
+      const provideSecrets: variableMigration.SecretValueProvider | undefined = promptForSecrets && canElicit
+        ? async (secrets) => {
+            const response = await server.server.elicitInput({
+              message: `Enter values for ${secrets.length} secret(s) migrating from ${adoOrg}/${adoProject}. Leave a field blank to create a placeholder.`,
+              requestedSchema: {
+                type: "object",
+                properties: Object.fromEntries(secrets.map(s => [
+                  s.githubName,
+                  { type: "string", title: s.githubName, description: `ADO variable '${s.name}' from ${s.source}` },
+                ])),
+              },
+            }, { relatedRequestId: extra.requestId as string | number | undefined });
+            if (response.action !== "accept" || !response.content) return {};
+            return Object.fromEntries(
+              Object.entries(response.content).filter(([, v]) => typeof v === "string" && v.length > 0)
+            ) as Record<string, string>;
+          }
+        : undefined;
+
+      const result = await variableMigration.migrateVariables(
+        adoOrg,
+        adoProject,
+        { scope, targetOrg, targetRepo, environment, visibility, targetHost },
+        variableGroups,
+        definitionId,
+        overwrite,
+        provideSecrets,
+        extra.sessionId
+      );
+      result.warnings.push(...warnings);
+
+      const failed = [...result.variables, ...result.secrets].filter(i => i.status === "failed").length;
+      const placeholders = result.secrets.filter(s => s.status === "placeholder").map(s => s.name);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: failed === 0,
+            ...result,
+            message: `Migrated ${result.variables.length} variable(s) and ${result.secrets.length} secret(s) to ${result.target}` +
+              (placeholders.length > 0 ? `. Set real values for placeholder secrets: ${placeholders.join(", ")}` : "")
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Translate a pipeline's service connections to GitHub OIDC
+  server.tool(
+    "translate_service_connections",
+    "List the ADO service connections a build pipeline references. For Azure Resource Manager connections, returns the federated-credential subjects to add to the connection's app registration for the target repo/environments, and the converted workflow patched with an OIDC azure/login step and 'permissions: id-token: write'.",
+    {
+      adoOrg: z.string().describe("Azure DevOps organization name"),
+      adoProject: z.string().describe("Azure DevOps project name"),
+      definitionId: z.number().describe("Build pipeline definition ID"),
+      targetOrg: z.string().describe("GitHub organization of the migrated repo"),
+      targetRepo: z.string().describe("GitHub repo the workflow runs in"),
+      environments: z.array(z.string()).optional().describe("GitHub environments the workflow deploys to (one federated credential each)"),
+      branches: z.array(z.string()).default(["main"]).describe("Branches the workflow runs on (one federated credential each)"),
+      pullRequests: z.boolean().default(false).describe("Also trust workflow runs triggered by pull requests"),
+      workflowYaml: z.string().optional().describe("Already-converted workflow to patch (default: convert the pipeline now)"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com). Defaults to the X-GitHub-Target-Host header, then github.com")
+    },
+    async ({ adoOrg, adoProject, definitionId, targetOrg, targetRepo, environments, branches, pullRequests, workflowYaml, targetHost }, extra: ToolExtra) => {
+      const report = await serviceConnections.translateServiceConnections(
+        adoOrg,
+        adoProject,
+        definitionId,
+        { targetOrg, targetRepo, environments, branches, pullRequests, targetHost },
+        workflowYaml,
+        extra.sessionId
+      );
+      const azure = report.connections.filter(c => c.azure).length;
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            ...report,
+            message: `${report.connections.length} service connection(s) referenced by ${report.pipelineName}, ${azure} translated to OIDC`
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Load custom task mappings for the session
+  server.tool(
+    "load_task_mappings",
+    "Load custom ADO task → GitHub Actions mappings (YAML or JSON) for this session. Mapped tasks convert to the given uses/run/with templates ({{ inputs.<name> }} is replaced with the task input) and count as supported in audits. Replaces previously loaded mappings; pass an empty list to clear them.",
+    {
+      content: z.string().describe("Mapping file content: a list of mappings, or an object with a 'mappings' list. Each entry needs 'task' (name) or 'id' (GUID), optional 'version' (major version or list), and 'uses' or 'run' with optional 'with', 'env', 'shell', 'working-directory' and 'warnings'")
+    },
+    async ({ content }, extra: ToolExtra) => {
+      const mappings = taskMappings.parseTaskMappings(content);
+      if (mappings.length > 0) {
+        taskMappings.setSessionTaskMappings(extra.sessionId, mappings);
+      } else {
+        taskMappings.clearSessionTaskMappings(extra.sessionId);
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            count: mappings.length,
+            tasks: mappings.map(m => m.task ?? m.id),
+            message: mappings.length > 0
+              ? `Loaded ${mappings.length} task mapping(s) for this session`
+              : "Cleared the session's task mappings"
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
   // ─── GitHub-to-GitHub Workflow Copy Tools ───────────────────────────────────
 
   // List workflows in a repo
@@ -923,10 +1893,11 @@ export function registerTools(server: McpServer): void {
     "List GitHub Actions workflow files in a repository's .github/workflows directory",
     {
       org: z.string().describe("GitHub organization or owner"),
-      repo: z.string().describe("Repository name")
+      repo: z.string().describe("Repository name"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES")
     },
-    async ({ org, repo }, extra: ToolExtra) => {
-      const workflows = await workflowCopy.listWorkflows(org, repo, extra.sessionId);
+    async ({ org, repo, ghesApiUrl }, extra: ToolExtra) => {
+      const workflows = await workflowCopy.listWorkflows(org, repo, ghesApiUrl, extra.sessionId);
       return {
         content: [{
           type: "text",
@@ -950,10 +1921,11 @@ export function registerTools(server: McpServer): void {
     {
       org: z.string().describe("GitHub organization or owner"),
       repo: z.string().describe("Repository name"),
-      path: z.string().default(".github/workflows").describe("Path to the workflow file (e.g. .github/workflows/ci.yml)")
+      path: z.string().default(".github/workflows").describe("Path to the workflow file (e.g. .github/workflows/ci.yml)"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES")
     },
-    async ({ org, repo, path }, extra: ToolExtra) => {
-      const content = await workflowCopy.getWorkflowContent(org, repo, path, extra.sessionId);
+    async ({ org, repo, path, ghesApiUrl }, extra: ToolExtra) => {
+      const content = await workflowCopy.getWorkflowContent(org, repo, path, ghesApiUrl, extra.sessionId);
       if (!content) {
         return {
           content: [{ type: "text", text: JSON.stringify({ error: `Workflow not found: ${path}` }) }]
@@ -980,10 +1952,12 @@ export function registerTools(server: McpServer): void {
       sourceOrg: z.string().describe("Source GitHub organization"),
       sourceRepo: z.string().describe("Source repository name"),
       targetOrg: z.string().describe("Target GitHub organization"),
-      targetRepo: z.string().describe("Target repository name")
+      targetRepo: z.string().describe("Target repository name"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES"),
+      targetHost: z.string().optional().describe("Target host for GHE.com data-residency tenants (e.g. octocorp.ghe.com). Defaults to the X-GitHub-Target-Host header, then github.com")
     },
-    async ({ sourceOrg, sourceRepo, targetOrg, targetRepo }, extra: ToolExtra) => {
-      const result = await workflowCopy.copyWorkflows(sourceOrg, sourceRepo, targetOrg, targetRepo, extra.sessionId);
+    async ({ sourceOrg, sourceRepo, targetOrg, targetRepo, ghesApiUrl, targetHost }, extra: ToolExtra) => {
+      const result = await workflowCopy.copyWorkflows(sourceOrg, sourceRepo, targetOrg, targetRepo, ghesApiUrl, targetHost, extra.sessionId);
       return {
         content: [{
           type: "text",
@@ -1006,12 +1980,28 @@ export function registerTools(server: McpServer): void {
     "export_inventory_csv",
     "Export repository inventory to CSV format",
     {
-      source: z.enum(["github", "ado"]).describe("Source platform"),
-      org: z.string().describe("Organization name")
+      source: z.enum(["github", "ado", "bbs"]).describe("Source platform"),
+      org: z.string().describe("Organization name (Bitbucket Server base URL for bbs)"),
+      ghesApiUrl: z.string().optional().describe("GitHub Enterprise Server API URL (e.g. https://ghes.example.com/api/v3) when the GitHub source is GHES")
     },
-    async ({ source, org }, extra: ToolExtra) => {
-      if (source === "github") {
-        const repos = await github.getReposDetailed(org, extra.sessionId);
+    async ({ source, org, ghesApiUrl }, extra: ToolExtra) => {
+      if (source === "bbs") {
+        const inventory = await bbs.getDetailedInventory(org, extra.sessionId);
+        const csv = [
+          "Name,Project,SizeMB,AttachmentsMB,LastCommit,DefaultBranch,Archived",
+          ...inventory.repositories.map(r =>
+            `"${r.slug}","${r.project.key}",${Math.round(r.size / (1024 * 1024) * 100) / 100},${Math.round(r.attachmentsSize / (1024 * 1024) * 100) / 100},"${r.lastCommitDate || ''}","${r.defaultBranch || ''}",${!!r.archived}`
+          )
+        ].join("\n");
+        
+        return {
+          content: [{
+            type: "text",
+            text: csv
+          }]
+        };
+      } else if (source === "github") {
+        const repos = await github.getReposDetailed(org, ghesApiUrl, extra.sessionId);
         const csv = [
           "Name,URL,Archived,Private,Fork,SizeMB,LastPush,DefaultBranch,Languages",
           ...repos.map(r => 
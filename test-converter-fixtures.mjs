@@ -0,0 +1,177 @@
+/**
+ * Golden-file tests for the pipeline converter.
+ *
+ * Each directory under fixtures/converter/ is one case:
+ *   pipeline.yml        YAML pipeline (optional definition.json is merged into the definition; its
+ *                       templateMode picks the resolver mode), expanded by the template resolver first
+ *                       as ado-pipelines does; template paths are relative to the case directory
+ *                       (templates/...), files in resource repos are read from repos/<alias>/
+ *   build.json          classic build definition (ADOBuildDefinitionDetail)
+ *   release.json        release definition (ADOReleaseDefinition); its planned GitHub environments are
+ *                       part of expected.json, with approvers mapped through an optional user-mapping.csv
+ *   task-mappings.yml   optional custom task mappings
+ *   expected.yml        golden workflow
+ *   expected.json       golden filename, warnings, unsupported items, manual steps, additional files
+ *                       and (release cases) environment plans
+ *
+ * Usage (after `npm run build`):
+ *   node test-converter-fixtures.mjs [case...]            compare against the goldens
+ *   node test-converter-fixtures.mjs --update [case...]   rewrite the goldens from the current output
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { convertBuildPipeline, convertReleasePipeline } from "./dist/services/pipeline-converter.js";
+import { planReleaseEnvironments } from "./dist/services/release-environments.js";
+import { parseTaskMappings } from "./dist/services/task-mappings.js";
+import { resolvePipelineTemplates } from "./dist/services/template-resolver.js";
+import YAML from "yaml";
+
+const FIXTURES_DIR = path.join(path.dirname(new URL(import.meta.url).pathname), "fixtures", "converter");
+
+const args = process.argv.slice(2);
+const update = args.includes("--update");
+const only = args.filter(a => !a.startsWith("--"));
+
+function read(dir, file) {
+  const p = path.join(dir, file);
+  return fs.existsSync(p) ? fs.readFileSync(p, "utf-8") : undefined;
+}
+
+/** Expand templates the way ado-pipelines does before converting */
+async function expand(dir, yamlContent, templateMode) {
+  // The case directory is the pipeline's repo; resource repos live under repos/<alias>/
+  const fetchFile = async (repo, file) => {
+    const content = read(repo ? path.join(dir, "repos", repo.repository) : dir, file.replace(/^\//, ""));
+    if (content === undefined) throw new Error(`${file}${repo ? `@${repo.repository}` : ""} not found`);
+    return content;
+  };
+  try {
+    const resolution = await resolvePipelineTemplates(yamlContent, "/azure-pipelines.yml", fetchFile, templateMode);
+    return {
+      ...(resolution.templates.length > 0 || resolution.warnings.length > 0 || yamlContent.includes("${{")
+        ? { yamlContent: YAML.stringify(resolution.pipeline, { lineWidth: 0 }) }
+        : {}),
+      templates: resolution.templates,
+      sharedTemplates: resolution.shared,
+      templateWarnings: resolution.warnings,
+    };
+  } catch (err) {
+    return { templateWarnings: [`Templates were not expanded: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+}
+
+async function convert(dir) {
+  const mappingsFile = read(dir, "task-mappings.yml");
+  const customTasks = mappingsFile ? parseTaskMappings(mappingsFile) : undefined;
+
+  const pipeline = read(dir, "pipeline.yml");
+  if (pipeline !== undefined) {
+    const { templateMode, ...overrides } = JSON.parse(read(dir, "definition.json") ?? "{}");
+    return convertBuildPipeline({
+      id: 1,
+      name: path.basename(dir),
+      process: { type: 2, yamlFilename: "azure-pipelines.yml" },
+      triggers: [],
+      variables: {},
+      ...overrides,
+      yamlContent: pipeline,
+      ...await expand(dir, pipeline, templateMode),
+    }, customTasks);
+  }
+  const build = read(dir, "build.json");
+  if (build !== undefined) return convertBuildPipeline(JSON.parse(build), customTasks);
+  const release = read(dir, "release.json");
+  if (release !== undefined) {
+    const def = JSON.parse(release);
+    return {
+      ...convertReleasePipeline(def, customTasks),
+      environments: planReleaseEnvironments(def, read(dir, "user-mapping.csv")),
+    };
+  }
+  throw new Error("no pipeline.yml, build.json or release.json");
+}
+
+function summary(result) {
+  return JSON.stringify({
+    suggestedFilename: result.suggestedFilename,
+    warnings: result.warnings,
+    unsupported: result.unsupported,
+    manualSteps: result.manualSteps,
+    ...(result.additionalFiles ? { additionalFiles: result.additionalFiles } : {}),
+    ...(result.environments ? { environments: result.environments } : {}),
+  }, null, 2) + "\n";
+}
+
+/** Line diff (LCS) of expected vs actual, as `-`/`+` lines with a little context */
+function diff(expected, actual) {
+  const a = expected.split("\n");
+  const b = actual.split("\n");
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines = [];
+  let i = 0, j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: " ", text: a[i] }); i++; j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: "-", text: a[i] }); i++;
+    } else {
+      lines.push({ op: "+", text: b[j] }); j++;
+    }
+  }
+
+  const CONTEXT = 2;
+  const shown = lines.map((l, k) => l.op !== " " ||
+    lines.slice(Math.max(0, k - CONTEXT), k + CONTEXT + 1).some(n => n.op !== " "));
+  const out = [];
+  lines.forEach((l, k) => {
+    if (shown[k]) out.push(`    ${l.op} ${l.text}`);
+    else if (shown[k - 1]) out.push("    ...");
+  });
+  return out.join("\n");
+}
+
+const cases = fs.readdirSync(FIXTURES_DIR, { withFileTypes: true })
+  .filter(d => d.isDirectory() && (only.length === 0 || only.includes(d.name)))
+  .map(d => d.name)
+  .sort();
+
+let failed = 0;
+for (const name of cases) {
+  const dir = path.join(FIXTURES_DIR, name);
+  let result;
+  try {
+    result = await convert(dir);
+  } catch (err) {
+    failed++;
+    console.log(`FAIL ${name}: ${err instanceof Error ? err.message : err}`);
+    continue;
+  }
+
+  const outputs = { "expected.yml": result.workflowYaml, "expected.json": summary(result) };
+  if (update) {
+    for (const [file, content] of Object.entries(outputs)) fs.writeFileSync(path.join(dir, file), content);
+    console.log(`UPDATED ${name}`);
+    continue;
+  }
+
+  const mismatches = Object.entries(outputs).filter(([file, content]) => read(dir, file) !== content);
+  if (mismatches.length === 0) {
+    console.log(`PASS ${name}`);
+    continue;
+  }
+  failed++;
+  console.log(`FAIL ${name}`);
+  for (const [file, content] of mismatches) {
+    const expected = read(dir, file);
+    console.log(expected === undefined ? `  ${file} is missing (run with --update)` : `  ${file}:\n${diff(expected, content)}`);
+  }
+}
+
+console.log(`\n${cases.length - failed}/${cases.length} passed${update ? " (goldens updated)" : ""}`);
+if (failed > 0) process.exit(1);
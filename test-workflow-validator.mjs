@@ -0,0 +1,77 @@
+/**
+ * Golden-file tests for the workflow validator.
+ *
+ * Each directory under fixtures/validator/ is one case:
+ *   workflow.yml    workflow to validate, or
+ *   action.yml      composite action to validate
+ *   expected.json   golden findings, formatted as in conversion results
+ *
+ * Usage (after `npm run build`):
+ *   node test-workflow-validator.mjs [case...]            compare against the goldens
+ *   node test-workflow-validator.mjs --update [case...]   rewrite the goldens from the current output
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { validateWorkflow, validateCompositeAction, formatFinding } from "./dist/services/workflow-validator.js";
+
+const FIXTURES_DIR = path.join(path.dirname(new URL(import.meta.url).pathname), "fixtures", "validator");
+
+const args = process.argv.slice(2);
+const update = args.includes("--update");
+const only = args.filter(a => !a.startsWith("--"));
+
+function read(dir, file) {
+  const p = path.join(dir, file);
+  return fs.existsSync(p) ? fs.readFileSync(p, "utf-8") : undefined;
+}
+
+function validate(dir) {
+  const workflow = read(dir, "workflow.yml");
+  if (workflow !== undefined) return validateWorkflow(workflow).map(f => `${f.severity}: ${formatFinding("workflow.yml", f)}`);
+  const action = read(dir, "action.yml");
+  if (action !== undefined) return validateCompositeAction(action).map(f => `${f.severity}: ${formatFinding("action.yml", f)}`);
+  throw new Error("no workflow.yml or action.yml");
+}
+
+const cases = fs.readdirSync(FIXTURES_DIR, { withFileTypes: true })
+  .filter(d => d.isDirectory() && (only.length === 0 || only.includes(d.name)))
+  .map(d => d.name)
+  .sort();
+
+let failed = 0;
+for (const name of cases) {
+  const dir = path.join(FIXTURES_DIR, name);
+  let findings;
+  try {
+    findings = validate(dir);
+  } catch (err) {
+    failed++;
+    console.log(`FAIL ${name}: ${err instanceof Error ? err.message : err}`);
+    continue;
+  }
+
+  const actual = JSON.stringify(findings, null, 2) + "\n";
+  if (update) {
+    fs.writeFileSync(path.join(dir, "expected.json"), actual);
+    console.log(`UPDATED ${name}`);
+    continue;
+  }
+
+  const expected = read(dir, "expected.json");
+  if (expected === actual) {
+    console.log(`PASS ${name}`);
+    continue;
+  }
+  failed++;
+  console.log(`FAIL ${name}`);
+  if (expected === undefined) {
+    console.log("  expected.json is missing (run with --update)");
+    continue;
+  }
+  const want = JSON.parse(expected);
+  for (const f of want.filter(f => !findings.includes(f))) console.log(`    - ${f}`);
+  for (const f of findings.filter(f => !want.includes(f))) console.log(`    + ${f}`);
+}
+
+console.log(`\n${cases.length - failed}/${cases.length} passed${update ? " (goldens updated)" : ""}`);
+if (failed > 0) process.exit(1);